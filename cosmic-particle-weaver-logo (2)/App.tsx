@@ -1,17 +1,186 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import ParticleCanvas from './components/ParticleCanvas';
 import Controls from './components/Controls';
 import HandTracker from './components/HandTracker';
-import { AppState, ParticleCanvasHandle } from './types';
+import { AppState, LogoLayer, ParticleCanvasHandle } from './types';
+import { SnapshotOptions } from './engine/particleEngine';
+import { RecordingActions } from './components/RecordingPanel';
+import { ColorMode, DEFAULT_COLOR_MODE } from './engine/colorModes';
+import { DEFAULT_SAMPLING_OPTIONS, SamplingOptions } from './engine/sampling';
+import { DEFAULT_PREPROCESS_OPTIONS, PreprocessOptions } from './engine/preprocess';
+import { DEFAULT_LAYOUT, LayoutOptions } from './engine/layout';
+import { DEFAULT_TRANSITION, TransitionOptions } from './engine/morph';
+import { Pointer } from './engine/simulation';
+import { AMBIENT_TURBULENCE, ForceField, POINTER_FIELD_PRESETS } from './engine/forces';
+import { AudioMapping, DEFAULT_AUDIO_MAPPING } from './engine/audioReactive';
+import { GestureEvent, PoseGesture } from './input/gestures';
+import { Calibration } from './input/calibration';
+import { createHandPipeline } from './input/handPipeline';
+import { HandFrame } from './input/inputSource';
+import { CameraDevice, IDLE_TRACKER_STATUS, TrackerStatus } from './input/handTracker';
+import { usePlaylist } from './hooks/usePlaylist';
+import { useSettings } from './hooks/useSettings';
+import { useHandTracking } from './hooks/useHandTracking';
+import { useInputSources } from './hooks/useInputSources';
+import { useAudioReactive } from './hooks/useAudioReactive';
+import { DEFAULT_DWELL_MS, PlaylistEntry } from './services/playlist';
+import { describeTrackerStatus } from './services/handTracking';
+import { svgToDataUrl, textLogoToDataUrl, TextLogoOptions } from './services/textLogo';
+import {
+  BackgroundStyle,
+  DEFAULT_BACKGROUND,
+  DEFAULT_HAND_OPTIONS,
+  HandOptions,
+  loadSceneFromLocation,
+  parseScene,
+  Scene,
+  SCENE_VERSION,
+  sceneImageFromSource,
+  sceneImageToSource,
+} from './services/scene';
 
 // Updated SVG to closely match the "Human Future Wearable" logo design
-const DEFAULT_LOGO = `data:image/svg+xml;base64,PHN2ZyB2aWV3Qm94PSIwIDAgNTAwIDUwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KICA8IS0tIEh1bWFuIC0tPgogIDxnIHRyYW5zZm9ybT0idHJhbnNsYXRlKDI1MCwgMjMwKSBzY2FsZSgwLjkwKSI+CiAgICAgPCEtLSBIZWFkIC0tPgogICAgIDxjaXJjbGUgY3k9Ii0xNjAiIHI9IjMwIiBmaWxsPSJ3aGl0ZSIvPgogICAgIDwhLS0gVG9yc28gJiBMZWdzIC0tPgogICAgIDxwYXRoIGQ9Ik0tNDUgLTExMCBRLTYwIC0xMTAgLTY1IC04MCBMLTgwIDUwIEwtNTUgNTUgTC00NSAtNTAgTC00MCAtNTAgTC00MCAyMDAgTC0xMCAyMDAgTC0xMCA4MCBMMTAgODAgTDEwIDIwMCBMNDAgMjAwIEw0MCAtNTAgTDQ1IC01MCBMNTUgNTUgTDgwIDUwIEw2NSAtODAgUTYwIC0xMTAgNDUgLTExMCBaIiBmaWxsPSJ3aGl0ZSIvPgogIDwvZz4KICA8IS0tIFJpbmcgLS0+CiAgPGVsbGlXBzZSBjeD0iMjUwIiBjeT0iMjAwIiByeD0iMTU1IiByeT0iMjIiIHN0cm9rZT0id2hpdGUiIHN0cm9rZS13aWR0aD0iOCIgZmlsbD0ibm9uZSIvPgogIDwhLS0gVGV4dCAtLT4KICA8cGF0aCBpZD0iY3VydmUiIGQ9Ik0gOTAgMzYwIFEgMjUwIDQ2MCA0MTAgMzYwIiBmaWxsPSJub25lIi8+CiAgPHRleHQgZmlsbD0id2hpdGUiIGZvbnQtZmFtaWx5PSJzYW5zLXNlcmlmIiBmb250LXdlaWdodD0iYm9sZCIgZm9udC1zaXplPSIyNiIgbGV0dGVyLXNwYWNpbmc9IjQiIHRleHQtYW5jaG9yPSJtaWRkbGUiPgogICAgPHRleHRQYXRoIGhyZWY9IiNjdXJ2ZSIgc3RhcnRPZmZzZXQ9IjUwJSI+CiAgICAgIEhVTUFOIEZVVFVSRSBXRUFSQUJMRQogICAgPC90ZXh0UGF0aD4KICA8L3RleHQ+Cjwvc3ZnPg==`;
+const DEFAULT_LOGO = svgToDataUrl(`<svg viewBox="0 0 500 500" xmlns="http://www.w3.org/2000/svg">
+  <!-- Human -->
+  <g transform="translate(250, 230) scale(0.90)">
+     <!-- Head -->
+     <circle cy="-160" r="30" fill="white"/>
+     <!-- Torso & Legs -->
+     <path d="M-45 -110 Q-60 -110 -65 -80 L-80 50 L-55 55 L-45 -50 L-40 -50 L-40 200 L-10 200 L-10 80 L10 80 L10 200 L40 200 L40 -50 L45 -50 L55 55 L80 50 L65 -80 Q60 -110 45 -110 Z" fill="white"/>
+  </g>
+  <!-- Ring -->
+  <ellipse cx="250" cy="200" rx="155" ry="22" stroke="white" stroke-width="8" fill="none"/>
+  <!-- Text -->
+  <defs><path id="curve" d="M 90 360 Q 250 460 410 360"/></defs>
+  <text fill="white" font-family="sans-serif" font-weight="bold" font-size="26" letter-spacing="4" text-anchor="middle">
+    <textPath href="#curve" startOffset="50%">
+      HUMAN FUTURE WEARABLE
+    </textPath>
+  </text>
+</svg>`);
+
+const INITIAL_PLAYLIST: PlaylistEntry[] = [
+  { id: 'default-logo', src: DEFAULT_LOGO, label: 'Default Logo', dwellMs: DEFAULT_DWELL_MS },
+];
 
 const App: React.FC = () => {
   const [imageSrc, setImageSrc] = useState<string | null>(DEFAULT_LOGO);
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [isEntered, setIsEntered] = useState(false);
+  const [colorMode, setColorMode] = useState<ColorMode>(DEFAULT_COLOR_MODE);
+  const [preprocess, setPreprocess] = useState<PreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS);
+  const [sampling, setSampling] = useState<SamplingOptions>(DEFAULT_SAMPLING_OPTIONS);
+  const [layout, setLayout] = useState<LayoutOptions>(DEFAULT_LAYOUT);
+  // Extra logos shown next to the main image
+  const [logos, setLogos] = useState<LogoLayer[]>([]);
+  const [transition, setTransition] = useState<TransitionOptions>(DEFAULT_TRANSITION);
+  const [pointerField, setPointerField] = useState<ForceField>(POINTER_FIELD_PRESETS.repel);
+  const [turbulence, setTurbulence] = useState(false);
+  const [seed, setSeed] = useState<number | undefined>(undefined);
+  const [background, setBackground] = useState<BackgroundStyle>(DEFAULT_BACKGROUND);
+  const [hands, setHands] = useState<HandOptions>(DEFAULT_HAND_OPTIONS);
+  // Options of the last text logo; the scene keeps them while it is on screen
+  const [textLogo, setTextLogo] = useState<TextLogoOptions | null>(null);
+  const [calibrating, setCalibrating] = useState(false);
+  const [trackerStatus, setTrackerStatus] = useState<TrackerStatus>(IDLE_TRACKER_STATUS);
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [audioMapping, setAudioMapping] = useState<AudioMapping>(DEFAULT_AUDIO_MAPPING);
   const canvasRef = useRef<ParticleCanvasHandle>(null);
+  // Current pose of each tracked hand, used to pick its force
+  const handPosesRef = useRef(new Map<string, PoseGesture>());
+  const playlist = usePlaylist(INITIAL_PLAYLIST);
+  const settingsControls = useSettings();
+  const handTracking = useHandTracking();
+  const replayHandsRef = useRef(createHandPipeline());
+  const inputs = useInputSources({
+    onPointers: (pointers) => canvasRef.current?.setPointers(pointers),
+    onHands: (key, frame) => handleReplayHands(key, frame),
+  });
+  const audio = useAudioReactive((levels) => canvasRef.current?.setAudioLevels(levels));
+  const { current: currentEntry, next: nextEntry, previous: previousEntry } = playlist;
+  const { settings, setSettings } = settingsControls;
+
+  // Switching entries (timer, skip, keyboard or swipe) puts that entry on the canvas
+  useEffect(() => {
+    if (currentEntry) setImageSrc(currentEntry.src);
+  }, [currentEntry?.id, currentEntry?.src]);
+
+  const fields = useMemo(
+    () => (turbulence ? [pointerField, AMBIENT_TURBULENCE] : [pointerField]),
+    [pointerField, turbulence]
+  );
+
+  const textLogoSrc = useMemo(() => (textLogo ? textLogoToDataUrl(textLogo) : null), [textLogo]);
+
+  const scene = useMemo<Scene>(() => ({
+    version: SCENE_VERSION,
+    seed,
+    image: textLogo && imageSrc === textLogoSrc ? { kind: 'text', text: textLogo } : sceneImageFromSource(imageSrc, DEFAULT_LOGO),
+    layout,
+    logos,
+    colorMode,
+    preprocess,
+    sampling,
+    transition,
+    pointerField,
+    turbulence,
+    settings,
+    background,
+    hands,
+  }), [seed, imageSrc, textLogo, textLogoSrc, layout, logos, colorMode, preprocess, sampling, transition, pointerField, turbulence, settings, background, hands]);
+
+  const applyScene = (next: Scene) => {
+    setSeed(next.seed);
+    setTextLogo(next.image.kind === 'text' ? next.image.text : null);
+    setImageSrc(sceneImageToSource(next.image, DEFAULT_LOGO));
+    setLayout(next.layout);
+    setLogos(next.logos);
+    setColorMode(next.colorMode);
+    setPreprocess(next.preprocess);
+    setSampling(next.sampling);
+    setTransition(next.transition);
+    setPointerField(next.pointerField);
+    setTurbulence(next.turbulence);
+    setSettings(next.settings);
+    setBackground(next.background);
+    setHands(next.hands);
+    playlist.dispatch({ type: 'pause' });
+  };
+
+  // Scenes shared as links (#scene=... or ?scene=...)
+  useEffect(() => {
+    loadSceneFromLocation(window.location)
+      .then((loaded) => loaded && applyScene(loaded))
+      .catch((e) => console.error('Could not load scene from URL:', e));
+  }, []);
+
+  // Dropping a scene .json applies it; dropping an image shows it
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    const file = e.dataTransfer.files?.[0];
+    if (!file) return;
+    try {
+      if (file.type === 'application/json' || file.name.toLowerCase().endsWith('.json')) {
+        applyScene(parseScene(await file.text()));
+      } else if (file.type.startsWith('image/')) {
+        const reader = new FileReader();
+        reader.onload = () => setImageSrc(reader.result as string);
+        reader.readAsDataURL(file);
+      }
+    } catch (err) {
+      console.error('Dropped file could not be loaded:', err);
+    }
+  };
+
+  // Entries may override the transition used to bring them in
+  const activeTransition = currentEntry?.transition && currentEntry.src === imageSrc
+    ? { ...transition, ...currentEntry.transition }
+    : transition;
+
+  const handleTextLogo = (options: TextLogoOptions) => {
+    setTextLogo(options);
+    setImageSrc(textLogoToDataUrl(options));
+  };
 
   const handleEnter = () => {
     const elem = document.documentElement;
@@ -24,39 +193,94 @@ const App: React.FC = () => {
     setIsEntered(true);
   };
 
-  const handleSnapshot = () => {
-    if (canvasRef.current) {
-      canvasRef.current.downloadSnapshot();
-    }
+  const handleSnapshot = (options: Partial<SnapshotOptions>) =>
+    canvasRef.current?.downloadSnapshot(options) ?? Promise.reject(new Error('Canvas is not ready'));
+
+  const recordingActions: RecordingActions = {
+    startRecording: (options) => canvasRef.current?.startRecording(options) ?? Promise.reject(new Error('Canvas is not ready')),
+    stopRecording: () => canvasRef.current?.stopRecording(),
+    renderOffline: (options) => canvasRef.current?.renderOffline(options) ?? Promise.reject(new Error('Canvas is not ready')),
+  };
+
+  // A closed fist pulls particles in instead of pushing them away
+  const withPoseForces = (pointers: Pointer[]) => pointers.map((pointer) =>
+    handPosesRef.current.get(pointer.id) === 'fist' ? { ...pointer, force: -1 } : pointer
+  );
+
+  const handleHandsMove = (pointers: Pointer[]) => {
+    inputs.hub.sink('hand').pointers(withPoseForces(pointers));
+  };
+
+  // Replayed landmarks take the same path as the camera's
+  const handleReplayHands = (key: string, frame: HandFrame) => {
+    if (key !== 'replay') return;
+    const { pointers, events } = replayHandsRef.current.process(frame, handTracking.tracking, window.innerWidth, window.innerHeight);
+    events.forEach(handleGesture);
+    inputs.hub.sink('replayHands').pointers(withPoseForces(pointers));
   };
 
-  const handleHandMove = (x: number | null, y: number | null) => {
-    if (canvasRef.current) {
-      canvasRef.current.setInteractionPoint(x, y);
+  // A failed or cancelled run keeps the previous calibration
+  const handleCalibrationEnd = (result: Calibration | null) => {
+    setCalibrating(false);
+    if (result) handTracking.setTracking({ ...handTracking.tracking, calibration: result });
+  };
+
+  const handleGesture = (event: GestureEvent) => {
+    if (event.kind === 'swipe') {
+      if (event.direction === 'right') nextEntry();
+      else previousEntry();
+    } else if (event.phase === 'start') {
+      handPosesRef.current.set(event.handId, event.pose);
+      // Pinching fires a shockwave from between the fingers
+      if (event.pose === 'pinch') {
+        canvasRef.current?.triggerShockwave(event.x * window.innerWidth, event.y * window.innerHeight);
+      }
+    } else {
+      handPosesRef.current.delete(event.handId);
     }
   };
 
   return (
     // Changed bg-black to a radial gradient so "black particles" can be seen against the lighter center
-    <div className="relative w-full h-screen bg-[#050505] overflow-hidden font-sans">
+    <div
+      className="relative w-full h-screen overflow-hidden font-sans"
+      style={{ backgroundColor: background.color }}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={handleDrop}
+    >
       
       {/* Deep Space Gradient Base - kept to ensure visibility of dark particles */}
-      <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_#1a1a1a_0%,_#000000_100%)] opacity-80" />
+      {background.vignette && (
+        <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_#1a1a1a_0%,_#000000_100%)] opacity-80" />
+      )}
 
       {/* Background decoration grid - reduced opacity */}
-      <div className="absolute inset-0 pointer-events-none opacity-5" 
-           style={{
-             backgroundImage: `radial-gradient(white 1px, transparent 1px), radial-gradient(white 1px, transparent 1px)`,
-             backgroundSize: '50px 50px, 20px 20px',
-             backgroundPosition: '0 0, 25px 25px'
-           }}
-      />
+      {background.grid && (
+        <div className="absolute inset-0 pointer-events-none opacity-5" 
+             style={{
+               backgroundImage: `radial-gradient(white 1px, transparent 1px), radial-gradient(white 1px, transparent 1px)`,
+               backgroundSize: '50px 50px, 20px 20px',
+               backgroundPosition: '0 0, 25px 25px'
+             }}
+        />
+      )}
 
       {/* Main Canvas */}
-      <ParticleCanvas ref={canvasRef} imageSrc={imageSrc} />
+      <ParticleCanvas ref={canvasRef} imageSrc={imageSrc} seed={seed} colorMode={colorMode} preprocess={preprocess} sampling={sampling} layout={layout} logos={logos} transition={activeTransition} fields={fields} settings={settings} audioMapping={audioMapping} />
       
       {/* Hand Tracker - Only active when entered */}
-      <HandTracker onHandMove={handleHandMove} isActive={isEntered} />
+      <HandTracker
+        onHandsMove={handleHandsMove}
+        onGesture={handleGesture}
+        onHandFrame={(frame) => inputs.hub.sink('hand').hands(frame)}
+        maxHands={hands.maxHands}
+        isActive={isEntered}
+        tracking={handTracking.tracking}
+        calibrating={calibrating}
+        onCalibrationEnd={handleCalibrationEnd}
+        onStatusChange={setTrackerStatus}
+        onDevicesChange={setCameras}
+      />
 
       {!isEntered ? (
         <div className="absolute inset-0 z-[100] flex flex-col items-center justify-center bg-black/80 backdrop-blur-sm animate-in fade-in duration-1000">
@@ -82,6 +306,40 @@ const App: React.FC = () => {
             onSnapshot={handleSnapshot}
             appState={appState}
             setAppState={setAppState}
+            colorMode={colorMode}
+            onColorModeChange={setColorMode}
+            preprocess={preprocess}
+            onPreprocessChange={setPreprocess}
+            sampling={sampling}
+            onSamplingChange={setSampling}
+            layout={layout}
+            onLayoutChange={setLayout}
+            logos={logos}
+            onLogosChange={setLogos}
+            transition={transition}
+            onTransitionChange={setTransition}
+            pointerField={pointerField}
+            onPointerFieldChange={setPointerField}
+            turbulence={turbulence}
+            onTurbulenceChange={setTurbulence}
+            settings={settingsControls}
+            playlist={playlist}
+            currentImageSrc={imageSrc}
+            textLogo={textLogo}
+            onTextLogo={handleTextLogo}
+            scene={scene}
+            onSceneLoad={applyScene}
+            background={background}
+            onBackgroundChange={setBackground}
+            recording={recordingActions}
+            handTracking={handTracking}
+            onCalibrate={() => setCalibrating(true)}
+            inputs={inputs}
+            trackerStatus={trackerStatus}
+            cameras={cameras}
+            audio={audio}
+            audioMapping={audioMapping}
+            onAudioMappingChange={setAudioMapping}
           />
           
           {/* Instruction Overlay */}
@@ -89,6 +347,14 @@ const App: React.FC = () => {
             <h2 className="text-4xl font-light tracking-tighter">PARTICLE<br/>UNIVERSE</h2>
             <p className="text-sm mt-2 font-mono">USE YOUR HAND TO DISPERSE STARDUST</p>
           </div>
+
+          {/* Tracker status, readable while the preview is hidden behind the controls */}
+          <div className={`absolute top-4 right-4 flex items-center gap-2 px-3 py-1 rounded-full bg-black/50 border border-white/10 text-[10px] font-mono uppercase tracking-widest pointer-events-none select-none ${
+            trackerStatus.state === 'errorRecoverable' || trackerStatus.state === 'errorFatal' ? 'text-red-400' : 'text-white/50'
+          }`}>
+            <span className={`w-1.5 h-1.5 rounded-full ${trackerStatus.state === 'tracking' ? 'bg-green-400' : trackerStatus.state === 'handLost' ? 'bg-yellow-400' : 'bg-neutral-500'}`} />
+            {describeTrackerStatus(trackerStatus)}
+          </div>
         </>
       )}
 
@@ -0,0 +1,188 @@
+// Volume, bass/mid/treble bands and beat onsets from a spectrum. The same
+// extractor runs on live AnalyserNode data and on spectra computed here from
+// an AudioBuffer, so mappings can be checked offline against a known track.
+
+import { AudioLevels } from '../engine/audioReactive';
+import { blackmanWindow, fft } from './fft';
+
+export interface AudioAnalysisOptions {
+  // Samples per analysis window (power of two)
+  fftSize: number;
+  // Averaging of each bin with the previous frame, like AnalyserNode.smoothingTimeConstant
+  smoothing: number;
+  // Bin levels are mapped from this decibel range onto 0..1
+  minDecibels: number;
+  maxDecibels: number;
+  // Upper edges of the bass and mid bands in Hz; treble runs to TREBLE_MAX_HZ
+  bassMax: number;
+  midMax: number;
+  // A beat is bass this many times above its recent average
+  beatSensitivity: number;
+  // Seconds; onsets closer than this to the previous beat are ignored
+  beatMinInterval: number;
+}
+
+export const DEFAULT_AUDIO_ANALYSIS: AudioAnalysisOptions = {
+  fftSize: 2048,
+  smoothing: 0.6,
+  minDecibels: -90,
+  maxDecibels: -20,
+  bassMax: 250,
+  midMax: 2000,
+  beatSensitivity: 1.35,
+  beatMinInterval: 0.28,
+};
+
+const TREBLE_MAX_HZ = 16000;
+// Volume is RMS in dBFS over this range
+const VOLUME_FLOOR_DB = -60;
+// Levels jump up at once and fall back over about this long
+const RELEASE_S = 0.15;
+// Time constant of the running bass average beats are measured against
+const BEAT_AVERAGE_S = 1;
+// Quiet passages don't produce beats however much they fluctuate
+const BEAT_FLOOR = 0.15;
+// Longest step between frames that still counts as continuous
+const MAX_FRAME_GAP_S = 0.25;
+
+export interface AudioFeatureExtractor {
+  // spectrum: decibels per bin (fftSize / 2 bins); samples: the time-domain window
+  process: (spectrum: Float32Array, samples: Float32Array, time: number) => AudioLevels;
+  reset: () => void;
+}
+
+export const createAudioFeatureExtractor = (sampleRate: number, options: Partial<AudioAnalysisOptions> = {}): AudioFeatureExtractor => {
+  const opts = { ...DEFAULT_AUDIO_ANALYSIS, ...options };
+  const binHz = sampleRate / opts.fftSize;
+  const bins = opts.fftSize / 2;
+  const bin = (hz: number) => Math.max(1, Math.min(bins, Math.round(hz / binHz)));
+  // Bin 0 is DC and left out
+  const bands = {
+    bass: [1, bin(opts.bassMax)],
+    mid: [bin(opts.bassMax), bin(opts.midMax)],
+    treble: [bin(opts.midMax), bin(Math.min(TREBLE_MAX_HZ, sampleRate / 2))],
+  };
+  const range = opts.maxDecibels - opts.minDecibels;
+
+  let last: AudioLevels | null = null;
+  let lastTime = 0;
+  let bassAverage = 0;
+  let lastBeat = -Infinity;
+
+  const bandLevel = (spectrum: Float32Array, [from, to]: number[]) => {
+    if (to <= from) return 0;
+    let sum = 0;
+    for (let i = from; i < to; i++) {
+      // Silence is -Infinity dB, which clamps to 0
+      sum += Math.min(1, Math.max(0, (spectrum[i] - opts.minDecibels) / range));
+    }
+    return sum / (to - from);
+  };
+
+  const volumeLevel = (samples: Float32Array) => {
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    const rms = Math.sqrt(sum / Math.max(1, samples.length));
+    if (rms === 0) return 0;
+    return Math.min(1, Math.max(0, 1 - (20 * Math.log10(rms)) / VOLUME_FLOOR_DB));
+  };
+
+  return {
+    process: (spectrum, samples, time) => {
+      const raw = {
+        volume: volumeLevel(samples),
+        bass: bandLevel(spectrum, bands.bass),
+        mid: bandLevel(spectrum, bands.mid),
+        treble: bandLevel(spectrum, bands.treble),
+      };
+      const dt = last ? Math.min(Math.max(time - lastTime, 0), MAX_FRAME_GAP_S) : 0;
+      lastTime = time;
+
+      const rising = !last || raw.bass > last.bass;
+      const beat = rising &&
+        raw.bass > BEAT_FLOOR &&
+        raw.bass > bassAverage * opts.beatSensitivity &&
+        time - lastBeat >= opts.beatMinInterval;
+      if (beat) lastBeat = time;
+      bassAverage = last ? bassAverage + (raw.bass - bassAverage) * (1 - Math.exp(-dt / BEAT_AVERAGE_S)) : raw.bass;
+
+      const fall = Math.exp(-dt / RELEASE_S);
+      const envelope = (key: keyof typeof raw) => (last ? Math.max(raw[key], last[key] * fall) : raw[key]);
+      last = {
+        volume: envelope('volume'),
+        bass: envelope('bass'),
+        mid: envelope('mid'),
+        treble: envelope('treble'),
+        beat,
+      };
+      return last;
+    },
+    reset: () => {
+      last = null;
+      bassAverage = 0;
+      lastBeat = -Infinity;
+    },
+  };
+};
+
+// What AnalyserNode.getFloatFrequencyData computes: Blackman window, FFT,
+// magnitude / N smoothed over time, in decibels
+export const createSpectrumAnalyzer = (fftSize: number, smoothing: number) => {
+  const window = blackmanWindow(fftSize);
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+  const magnitudes = new Float32Array(fftSize / 2);
+  const decibels = new Float32Array(fftSize / 2);
+
+  return (samples: Float32Array): Float32Array => {
+    for (let i = 0; i < fftSize; i++) re[i] = (samples[i] ?? 0) * window[i];
+    im.fill(0);
+    fft(re, im);
+    for (let k = 0; k < magnitudes.length; k++) {
+      const magnitude = Math.hypot(re[k], im[k]) / fftSize;
+      magnitudes[k] = smoothing * magnitudes[k] + (1 - smoothing) * magnitude;
+      decibels[k] = 20 * Math.log10(magnitudes[k]);
+    }
+    return decibels;
+  };
+};
+
+export type AudioBufferLike = Pick<AudioBuffer, 'sampleRate' | 'length' | 'numberOfChannels' | 'getChannelData'>;
+
+export interface AnalyzedFrame extends AudioLevels {
+  // Seconds into the buffer
+  time: number;
+}
+
+// Levels at `fps` frames per second through the whole buffer, as the live
+// analyser would report them while the buffer plays. Works on decoded files
+// and on OfflineAudioContext renders alike.
+export const analyzeAudioBuffer = (buffer: AudioBufferLike, options: Partial<AudioAnalysisOptions> = {}, fps = 60): AnalyzedFrame[] => {
+  const opts = { ...DEFAULT_AUDIO_ANALYSIS, ...options };
+  const { fftSize } = opts;
+  if (!(fps > 0)) throw new Error('Audio analysis needs a positive frame rate');
+
+  // Channels are mixed down, like the default AnalyserNode input
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < buffer.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+  }
+
+  const spectrum = createSpectrumAnalyzer(fftSize, opts.smoothing);
+  const extractor = createAudioFeatureExtractor(buffer.sampleRate, opts);
+  const window = new Float32Array(fftSize);
+  const frames: AnalyzedFrame[] = [];
+  const duration = buffer.length / buffer.sampleRate;
+
+  for (let index = 0; index / fps <= duration; index++) {
+    const time = index / fps;
+    // The window ends at `time`; samples before the start are silence
+    const end = Math.round(time * buffer.sampleRate);
+    window.fill(0);
+    const start = end - fftSize;
+    window.set(mono.subarray(Math.max(0, start), end), Math.max(0, -start));
+    frames.push({ time, ...extractor.process(spectrum(window), window, time) });
+  }
+  return frames;
+};
@@ -0,0 +1,100 @@
+// Live audio through an AnalyserNode: the microphone, or a file played
+// back through the speakers while it is analysed.
+
+import { AudioLevels } from '../engine/audioReactive';
+import { AudioAnalysisOptions, createAudioFeatureExtractor, DEFAULT_AUDIO_ANALYSIS } from './audioAnalysis';
+
+export type AudioInputKind = 'microphone' | 'file';
+
+export interface AudioInput {
+  kind: AudioInputKind;
+  // Device label or file name
+  name: string;
+  // Levels at this moment; call once per animation frame
+  read: () => AudioLevels;
+  // Stops capture or playback and closes the audio context
+  stop: () => void;
+}
+
+// Older Safari only has the prefixed constructor
+type LegacyAudioWindow = Window & { webkitAudioContext?: typeof AudioContext };
+
+const createContext = () => {
+  const Context = window.AudioContext ?? (window as LegacyAudioWindow).webkitAudioContext;
+  if (!Context) throw new Error('This browser has no Web Audio support');
+  return new Context();
+};
+
+const attachAnalyser = (
+  context: AudioContext,
+  source: AudioNode,
+  options: Partial<AudioAnalysisOptions>
+): (() => AudioLevels) => {
+  const opts = { ...DEFAULT_AUDIO_ANALYSIS, ...options };
+  const analyser = context.createAnalyser();
+  analyser.fftSize = opts.fftSize;
+  analyser.smoothingTimeConstant = opts.smoothing;
+  source.connect(analyser);
+
+  const extractor = createAudioFeatureExtractor(context.sampleRate, opts);
+  const spectrum = new Float32Array(analyser.frequencyBinCount);
+  const samples = new Float32Array(analyser.fftSize);
+  return () => {
+    analyser.getFloatFrequencyData(spectrum);
+    analyser.getFloatTimeDomainData(samples);
+    return extractor.process(spectrum, samples, context.currentTime);
+  };
+};
+
+export const openMicrophone = async (options: Partial<AudioAnalysisOptions> = {}): Promise<AudioInput> => {
+  if (!navigator.mediaDevices?.getUserMedia) throw new Error('Microphone access needs a secure (HTTPS) page');
+  // Processing meant for speech would flatten the music
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+  });
+  let context: AudioContext;
+  try {
+    context = createContext();
+  } catch (e) {
+    stream.getTracks().forEach((track) => track.stop());
+    throw e;
+  }
+  // Analysed only; never routed to the speakers, which would feed back
+  const read = attachAnalyser(context, context.createMediaStreamSource(stream), options);
+  // Contexts created outside a click start suspended
+  await context.resume().catch(() => {});
+  return {
+    kind: 'microphone',
+    name: stream.getAudioTracks()[0]?.label || 'Microphone',
+    read,
+    stop: () => {
+      stream.getTracks().forEach((track) => track.stop());
+      context.close().catch(() => {});
+    },
+  };
+};
+
+export const openAudioFile = async (file: File, options: Partial<AudioAnalysisOptions> = {}): Promise<AudioInput> => {
+  const context = createContext();
+  const url = URL.createObjectURL(file);
+  const audio = new Audio(url);
+  audio.loop = true;
+  const source = context.createMediaElementSource(audio);
+  source.connect(context.destination);
+  const read = attachAnalyser(context, source, options);
+
+  const stop = () => {
+    audio.pause();
+    audio.removeAttribute('src');
+    URL.revokeObjectURL(url);
+    context.close().catch(() => {});
+  };
+  try {
+    await context.resume();
+    await audio.play();
+  } catch {
+    stop();
+    throw new Error(`"${file.name}" could not be played`);
+  }
+  return { kind: 'file', name: file.name, read, stop };
+};
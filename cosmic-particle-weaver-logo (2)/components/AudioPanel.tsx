@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { AudioControls, AudioMeter } from '../hooks/useAudioReactive';
+import { AUDIO_FEATURE_LABELS, AudioBinding, AudioFeature, AudioMapping, DEFAULT_AUDIO_MAPPING } from '../engine/audioReactive';
+
+interface AudioPanelProps {
+  controls: AudioControls;
+  mapping: AudioMapping;
+  onMappingChange: (mapping: AudioMapping) => void;
+}
+
+type BindingTarget = 'displacement' | 'starBrightness' | 'interactionRadius';
+
+const BINDING_TARGETS: { key: BindingTarget; label: string; max: number }[] = [
+  { key: 'displacement', label: 'Radial Displacement', max: 0.5 },
+  { key: 'starBrightness', label: 'Star Brightness', max: 1 },
+  { key: 'interactionRadius', label: 'Interaction Radius', max: 2 },
+];
+
+const FEATURES = Object.keys(AUDIO_FEATURE_LABELS) as AudioFeature[];
+
+// Meters poll at this rate instead of re-rendering every animation frame
+const METER_INTERVAL_MS = 100;
+// How long the beat light stays on
+const BEAT_FLASH_MS = 150;
+
+const AudioPanel: React.FC<AudioPanelProps> = ({ controls, mapping, onMappingChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [meter, setMeter] = useState<AudioMeter | null>(null);
+  const { input } = controls;
+
+  useEffect(() => {
+    if (!input || !isOpen) return;
+    const interval = setInterval(() => setMeter({ ...controls.getMeter() }), METER_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      setMeter(null);
+    };
+  }, [input, isOpen, controls.getMeter]);
+
+  const setBinding = (key: BindingTarget, binding: Partial<AudioBinding>) =>
+    onMappingChange({ ...mapping, [key]: { ...mapping[key], ...binding } });
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) controls.startFile(file);
+  };
+
+  const beatLit = meter ? performance.now() - meter.lastBeatAt < BEAT_FLASH_MS + METER_INTERVAL_MS : false;
+
+  return (
+    <div className="mb-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center justify-between w-full text-sm font-medium text-neutral-400 mb-2 hover:text-white"
+      >
+        <span>Audio Reactive{input ? ' •' : ''}</span>
+        <span className="text-xs">{isOpen ? '▾' : '▸'}</span>
+      </button>
+
+      {isOpen && (
+        <div>
+          {input ? (
+            <div className="flex gap-1 items-center">
+              <p className="flex-1 min-w-0 text-xs text-neutral-500 truncate">
+                {input.kind === 'microphone' ? 'Listening to' : 'Playing'} {input.name}
+              </p>
+              <button onClick={controls.stop} className="px-2 py-1 rounded-md text-xs bg-purple-900/70 text-purple-200 hover:bg-purple-900">
+                Stop
+              </button>
+            </div>
+          ) : (
+            <div className="flex gap-1">
+              <button onClick={controls.startMicrophone} className="flex-1 py-1 rounded-md text-xs bg-neutral-800 text-neutral-300 hover:bg-neutral-700">
+                Microphone
+              </button>
+              <label className="flex-1 py-1 rounded-md text-xs text-center bg-neutral-800 text-neutral-300 hover:bg-neutral-700 cursor-pointer">
+                Audio File...
+                <input type="file" accept="audio/*" onChange={handleFile} className="hidden" />
+              </label>
+            </div>
+          )}
+          {controls.error && <p className="text-red-400 text-xs mt-2">{controls.error}</p>}
+
+          {input && (
+            <div className="mt-3">
+              {FEATURES.map((feature) => (
+                <div key={feature} className="flex items-center gap-2 text-xs text-neutral-500 mb-1">
+                  <span className="w-12">{AUDIO_FEATURE_LABELS[feature]}</span>
+                  <div className="flex-1 h-1.5 rounded-full bg-neutral-800 overflow-hidden">
+                    <div className="h-full bg-purple-500" style={{ width: `${Math.round((meter?.levels?.[feature] ?? 0) * 100)}%` }} />
+                  </div>
+                </div>
+              ))}
+              <div className="flex items-center gap-2 text-xs text-neutral-500">
+                <span className="w-12">Beat</span>
+                <span className={`w-2 h-2 rounded-full ${beatLit ? 'bg-purple-400' : 'bg-neutral-800'}`} />
+              </div>
+            </div>
+          )}
+
+          <div className="mt-3">
+            {BINDING_TARGETS.map(({ key, label, max }) => (
+              <div key={key} className="mb-2">
+                <div className="flex justify-between items-center text-xs text-neutral-500">
+                  <span>{label}</span>
+                  <select
+                    value={mapping[key].feature}
+                    onChange={(e) => setBinding(key, { feature: e.target.value as AudioFeature })}
+                    className="bg-black/50 border border-neutral-700 rounded px-1 text-xs text-white focus:outline-none focus:border-purple-500"
+                  >
+                    {FEATURES.map((feature) => (
+                      <option key={feature} value={feature}>{AUDIO_FEATURE_LABELS[feature]}</option>
+                    ))}
+                  </select>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={max}
+                  step={0.01}
+                  value={mapping[key].amount}
+                  onChange={(e) => setBinding(key, { amount: Number(e.target.value) })}
+                  className="w-full accent-purple-500"
+                />
+              </div>
+            ))}
+            <div className="flex justify-between text-xs text-neutral-500">
+              <span>Beat Shockwave</span>
+              <span className="font-mono">{mapping.beatShockwave > 0 ? mapping.beatShockwave.toFixed(1) : 'Off'}</span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={10}
+              step={0.5}
+              value={mapping.beatShockwave}
+              onChange={(e) => onMappingChange({ ...mapping, beatShockwave: Number(e.target.value) })}
+              className="w-full accent-purple-500"
+            />
+            <button
+              onClick={() => onMappingChange(DEFAULT_AUDIO_MAPPING)}
+              className="w-full mt-2 py-1 rounded-md text-xs bg-neutral-800 text-neutral-300 hover:bg-neutral-700"
+            >
+              Reset Mapping
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioPanel;
@@ -1,16 +1,124 @@
 import React, { useState } from 'react';
-import { generateCosmicImage } from '../services/geminiService';
-import { AppState } from '../types';
+import { AppState, LogoLayer } from '../types';
+import { COLOR_MODE_PRESETS, ColorMode, ColorModeKind } from '../engine/colorModes';
+import { SamplingOptions, SamplingStrategy } from '../engine/sampling';
+import { PreprocessOptions } from '../engine/preprocess';
+import { FitMode, LayoutOptions } from '../engine/layout';
+import { MatchingStrategy, TransitionOptions } from '../engine/morph';
+import { EASINGS, EasingName } from '../engine/easing';
+import { FieldKind, ForceField, POINTER_FIELD_PRESETS } from '../engine/forces';
+import { PlaylistControls } from '../hooks/usePlaylist';
+import { SettingsControls } from '../hooks/useSettings';
+import { HandTrackingControls } from '../hooks/useHandTracking';
+import { InputControls } from '../hooks/useInputSources';
+import { CameraDevice, TrackerStatus } from '../input/handTracker';
+import { AudioControls } from '../hooks/useAudioReactive';
+import { AudioMapping } from '../engine/audioReactive';
+import PlaylistPanel from './PlaylistPanel';
+import SettingsPanel from './SettingsPanel';
+import ScenePanel from './ScenePanel';
+import RecordingPanel, { RecordingActions } from './RecordingPanel';
+import SnapshotPanel from './SnapshotPanel';
+import GeneratePanel from './GeneratePanel';
+import PreprocessPanel from './PreprocessPanel';
+import TextLogoPanel from './TextLogoPanel';
+import HandTrackingPanel from './HandTrackingPanel';
+import InputPanel from './InputPanel';
+import AudioPanel from './AudioPanel';
+import LogoLayersPanel from './LogoLayersPanel';
+import { SnapshotOptions } from '../engine/particleEngine';
+import { BackgroundStyle, Scene } from '../services/scene';
+import { TextLogoOptions } from '../services/textLogo';
 
 interface ControlsProps {
   onImageSelect: (src: string) => void;
-  onSnapshot: () => void;
+  onSnapshot: (options: Partial<SnapshotOptions>) => Promise<void>;
   appState: AppState;
   setAppState: (state: AppState) => void;
+  colorMode: ColorMode;
+  onColorModeChange: (mode: ColorMode) => void;
+  preprocess: PreprocessOptions;
+  onPreprocessChange: (preprocess: PreprocessOptions) => void;
+  sampling: SamplingOptions;
+  onSamplingChange: (sampling: SamplingOptions) => void;
+  layout: LayoutOptions;
+  onLayoutChange: (layout: LayoutOptions) => void;
+  logos: LogoLayer[];
+  onLogosChange: (logos: LogoLayer[]) => void;
+  transition: TransitionOptions;
+  onTransitionChange: (transition: TransitionOptions) => void;
+  pointerField: ForceField;
+  onPointerFieldChange: (field: ForceField) => void;
+  turbulence: boolean;
+  onTurbulenceChange: (enabled: boolean) => void;
+  settings: SettingsControls;
+  playlist: PlaylistControls;
+  currentImageSrc: string | null;
+  textLogo: TextLogoOptions | null;
+  onTextLogo: (options: TextLogoOptions) => void;
+  scene: Scene;
+  onSceneLoad: (scene: Scene) => void;
+  background: BackgroundStyle;
+  onBackgroundChange: (background: BackgroundStyle) => void;
+  recording: RecordingActions;
+  handTracking: HandTrackingControls;
+  onCalibrate: () => void;
+  inputs: InputControls;
+  trackerStatus: TrackerStatus;
+  cameras: CameraDevice[];
+  audio: AudioControls;
+  audioMapping: AudioMapping;
+  onAudioMappingChange: (mapping: AudioMapping) => void;
 }
 
-const Controls: React.FC<ControlsProps> = ({ onImageSelect, onSnapshot, appState, setAppState }) => {
-  const [prompt, setPrompt] = useState('A glowing cybernetic skull');
+const COLOR_MODE_LABELS: Record<ColorModeKind, string> = {
+  source: 'Source Colors',
+  mono: 'Monochrome',
+  gradient: 'Gradient Map',
+  duotone: 'Duotone',
+};
+
+const SAMPLING_LABELS: Record<SamplingStrategy, string> = {
+  auto: 'Auto Detect',
+  alpha: 'Alpha Threshold',
+  luminance: 'Luminance vs Background',
+  edges: 'Edges Only',
+  poisson: 'Blue Noise',
+  density: 'Brightness Density',
+};
+
+const FIT_LABELS: Record<FitMode, string> = {
+  contain: 'Contain',
+  cover: 'Cover',
+  scale: 'Fixed Scale',
+};
+
+const MATCHING_LABELS: Record<MatchingStrategy, string> = {
+  nearest: 'Nearest',
+  angle: 'By Angle',
+};
+
+type PointerFieldKind = Exclude<FieldKind, 'turbulence'>;
+
+const FIELD_LABELS: Record<PointerFieldKind, string> = {
+  repel: 'Repel',
+  attract: 'Attract',
+  vortex: 'Vortex',
+  gravityWell: 'Gravity Well',
+  shockwave: 'Shockwave Pulses',
+};
+
+const ColorSwatch: React.FC<{ value: string; onChange: (value: string) => void }> = ({ value, onChange }) => (
+  <input
+    type="color"
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    className="w-8 h-8 rounded border border-neutral-600 bg-transparent cursor-pointer"
+  />
+);
+
+const Controls: React.FC<ControlsProps> = ({ onImageSelect, onSnapshot, appState, setAppState, colorMode, onColorModeChange, preprocess, onPreprocessChange, sampling, onSamplingChange, layout, onLayoutChange, logos, onLogosChange, transition, onTransitionChange, pointerField, onPointerFieldChange, turbulence, onTurbulenceChange, settings, playlist, currentImageSrc, textLogo, onTextLogo, scene, onSceneLoad, background, onBackgroundChange, recording, handTracking, onCalibrate, inputs, trackerStatus, cameras, audio, audioMapping, onAudioMappingChange }) => {
+  const defaultStrength = settings.settings.physics.repulsionStrength;
   const [isOpen, setIsOpen] = useState(true);
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -28,28 +136,9 @@ const Controls: React.FC<ControlsProps> = ({ onImageSelect, onSnapshot, appState
     }
   };
 
-  const handleGenerate = async () => {
-    if (!process.env.API_KEY) {
-      alert("API_KEY is missing in the environment variables.");
-      return;
-    }
-    if (!prompt.trim()) return;
-
-    setAppState(AppState.LOADING);
-    try {
-      const base64Image = await generateCosmicImage(prompt);
-      onImageSelect(base64Image);
-      setAppState(AppState.READY);
-    } catch (error) {
-      console.error(error);
-      setAppState(AppState.ERROR);
-      setTimeout(() => setAppState(AppState.IDLE), 3000);
-    }
-  };
-
   return (
     <div className={`fixed top-4 left-4 z-50 transition-all duration-300 ${isOpen ? 'translate-x-0' : '-translate-x-[calc(100%+1rem)]'}`}>
-      <div className="bg-neutral-900/90 backdrop-blur-md border border-neutral-700 text-neutral-100 p-6 rounded-2xl shadow-2xl w-80">
+      <div className="bg-neutral-900/90 backdrop-blur-md border border-neutral-700 text-neutral-100 p-6 rounded-2xl shadow-2xl w-80 max-h-[calc(100vh-2rem)] overflow-y-auto">
         <div className="flex justify-between items-center mb-6">
           <h1 className="text-xl font-bold bg-gradient-to-r from-purple-400 to-pink-600 bg-clip-text text-transparent">
             Particle Weaver
@@ -82,17 +171,267 @@ const Controls: React.FC<ControlsProps> = ({ onImageSelect, onSnapshot, appState
           />
         </div>
 
-        {/* Snapshot Button */}
+        {/* Text Section */}
+        <TextLogoPanel value={textLogo} onApply={onTextLogo} />
+
+        {/* Playlist Section */}
+        <PlaylistPanel playlist={playlist} currentImageSrc={currentImageSrc} />
+
+        {/* Color Mode Section */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-neutral-400 mb-2">
+            Particle Color
+          </label>
+          <select
+            value={colorMode.kind}
+            onChange={(e) => onColorModeChange(COLOR_MODE_PRESETS[e.target.value as ColorModeKind])}
+            className="w-full bg-black/50 border border-neutral-700 rounded-lg p-2 text-sm text-white focus:outline-none focus:border-purple-500"
+          >
+            {(Object.keys(COLOR_MODE_LABELS) as ColorModeKind[]).map((kind) => (
+              <option key={kind} value={kind}>{COLOR_MODE_LABELS[kind]}</option>
+            ))}
+          </select>
+          <div className="flex gap-2 mt-2">
+            {colorMode.kind === 'mono' && (
+              <ColorSwatch value={colorMode.tint} onChange={(tint) => onColorModeChange({ ...colorMode, tint })} />
+            )}
+            {colorMode.kind === 'gradient' && colorMode.stops.map((stop, i) => (
+              <ColorSwatch
+                key={i}
+                value={stop}
+                onChange={(value) => onColorModeChange({ ...colorMode, stops: colorMode.stops.map((s, j) => (j === i ? value : s)) })}
+              />
+            ))}
+            {colorMode.kind === 'duotone' && (
+              <>
+                <ColorSwatch value={colorMode.shadow} onChange={(shadow) => onColorModeChange({ ...colorMode, shadow })} />
+                <ColorSwatch value={colorMode.highlight} onChange={(highlight) => onColorModeChange({ ...colorMode, highlight })} />
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Preprocess Section */}
+        <PreprocessPanel imageSrc={currentImageSrc} options={preprocess} onChange={onPreprocessChange} />
+
+        {/* Sampling Section */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-neutral-400 mb-2">
+            Sampling
+          </label>
+          <select
+            value={sampling.strategy}
+            onChange={(e) => onSamplingChange({ ...sampling, strategy: e.target.value as SamplingStrategy, threshold: undefined })}
+            className="w-full bg-black/50 border border-neutral-700 rounded-lg p-2 text-sm text-white focus:outline-none focus:border-purple-500"
+          >
+            {(Object.keys(SAMPLING_LABELS) as SamplingStrategy[]).map((strategy) => (
+              <option key={strategy} value={strategy}>{SAMPLING_LABELS[strategy]}</option>
+            ))}
+          </select>
+          <div className="flex justify-between text-xs text-neutral-500 mt-3 mb-1">
+            <span>Particle Budget</span>
+            <span className="font-mono">{sampling.budget > 0 ? sampling.budget.toLocaleString() : 'Grid'}</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={200000}
+            step={5000}
+            value={sampling.budget}
+            onChange={(e) => onSamplingChange({ ...sampling, budget: Number(e.target.value) })}
+            className="w-full accent-purple-500"
+          />
+        </div>
+
+        {/* Layout Section */}
         <div className="mb-6">
-           <button 
-            onClick={onSnapshot}
-            className="w-full flex items-center justify-center gap-2 py-2 px-4 bg-neutral-800 hover:bg-neutral-700 border border-neutral-600 rounded-lg text-sm font-medium transition-colors"
-           >
-             <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M23 19a2 2 0 0 1-2 2H3a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h4l2-3h6l2 3h4a2 2 0 0 1 2 2z"></path><circle cx="12" cy="13" r="4"></circle></svg>
-             Take Snapshot
-           </button>
+          <label className="block text-sm font-medium text-neutral-400 mb-2">
+            Layout
+          </label>
+          <div className="flex gap-1">
+            {(Object.keys(FIT_LABELS) as FitMode[]).map((fit) => (
+              <button
+                key={fit}
+                onClick={() => onLayoutChange({ ...layout, fit })}
+                className={`flex-1 py-1 rounded-md text-xs transition-colors ${layout.fit === fit ? 'bg-purple-900/70 text-purple-200' : 'bg-neutral-800 text-neutral-400 hover:bg-neutral-700'}`}
+              >
+                {FIT_LABELS[fit]}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-neutral-500 mt-3 mb-1">
+            <span>Scale</span>
+            <span className="font-mono">{layout.scale.toFixed(2)}x</span>
+          </div>
+          <input
+            type="range"
+            min={0.1}
+            max={3}
+            step={0.05}
+            value={layout.scale}
+            onChange={(e) => onLayoutChange({ ...layout, scale: Number(e.target.value) })}
+            className="w-full accent-purple-500"
+          />
+          <div className="flex justify-between text-xs text-neutral-500 mt-2 mb-1">
+            <span>Padding</span>
+            <span className="font-mono">{layout.padding}px</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={200}
+            step={4}
+            value={layout.padding}
+            onChange={(e) => onLayoutChange({ ...layout, padding: Number(e.target.value) })}
+            className="w-full accent-purple-500"
+          />
+          <div className="flex gap-4 mt-2 text-xs text-neutral-400">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={layout.clipToUniverse}
+                onChange={(e) => onLayoutChange({ ...layout, clipToUniverse: e.target.checked })}
+                className="accent-purple-500"
+              />
+              Clip to sphere
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={layout.trim}
+                onChange={(e) => onLayoutChange({ ...layout, trim: e.target.checked })}
+                className="accent-purple-500"
+              />
+              Trim margins
+            </label>
+          </div>
         </div>
 
+        {/* Extra Logos Section */}
+        <LogoLayersPanel logos={logos} onChange={onLogosChange} layout={layout} />
+
+        {/* Transition Section */}
+        <div className="mb-6">
+          <label className="flex items-center justify-between text-sm font-medium text-neutral-400 mb-2">
+            <span>Morph Transitions</span>
+            <input
+              type="checkbox"
+              checked={transition.mode === 'morph'}
+              onChange={(e) => onTransitionChange({ ...transition, mode: e.target.checked ? 'morph' : 'reset' })}
+              className="accent-purple-500"
+            />
+          </label>
+          {transition.mode === 'morph' && (
+            <>
+              <div className="flex gap-2">
+                <select
+                  value={transition.matching}
+                  onChange={(e) => onTransitionChange({ ...transition, matching: e.target.value as MatchingStrategy })}
+                  className="flex-1 bg-black/50 border border-neutral-700 rounded-lg p-2 text-xs text-white focus:outline-none focus:border-purple-500"
+                >
+                  {(Object.keys(MATCHING_LABELS) as MatchingStrategy[]).map((matching) => (
+                    <option key={matching} value={matching}>{MATCHING_LABELS[matching]}</option>
+                  ))}
+                </select>
+                <select
+                  value={transition.easing}
+                  onChange={(e) => onTransitionChange({ ...transition, easing: e.target.value as EasingName })}
+                  className="flex-1 bg-black/50 border border-neutral-700 rounded-lg p-2 text-xs text-white focus:outline-none focus:border-purple-500"
+                >
+                  {(Object.keys(EASINGS) as EasingName[]).map((easing) => (
+                    <option key={easing} value={easing}>{easing}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex justify-between text-xs text-neutral-500 mt-3 mb-1">
+                <span>Duration</span>
+                <span className="font-mono">{(transition.duration / 1000).toFixed(1)}s</span>
+              </div>
+              <input
+                type="range"
+                min={200}
+                max={6000}
+                step={100}
+                value={transition.duration}
+                onChange={(e) => onTransitionChange({ ...transition, duration: Number(e.target.value) })}
+                className="w-full accent-purple-500"
+              />
+            </>
+          )}
+        </div>
+
+        {/* Force Field Section */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-neutral-400 mb-2">
+            Pointer Force
+          </label>
+          <select
+            value={pointerField.kind}
+            onChange={(e) => onPointerFieldChange(POINTER_FIELD_PRESETS[e.target.value as PointerFieldKind])}
+            className="w-full bg-black/50 border border-neutral-700 rounded-lg p-2 text-sm text-white focus:outline-none focus:border-purple-500"
+          >
+            {(Object.keys(FIELD_LABELS) as PointerFieldKind[]).map((kind) => (
+              <option key={kind} value={kind}>{FIELD_LABELS[kind]}</option>
+            ))}
+          </select>
+          <div className="flex justify-between text-xs text-neutral-500 mt-3 mb-1">
+            <span>Strength</span>
+            <span className="font-mono">{(pointerField.strength ?? defaultStrength).toFixed(1)}</span>
+          </div>
+          <input
+            type="range"
+            min={0.1}
+            max={6}
+            step={0.1}
+            value={pointerField.strength ?? defaultStrength}
+            onChange={(e) => onPointerFieldChange({ ...pointerField, strength: Number(e.target.value) })}
+            className="w-full accent-purple-500"
+          />
+          <div className="flex gap-4 mt-2 text-xs text-neutral-400">
+            {pointerField.kind === 'vortex' && (
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={pointerField.clockwise}
+                  onChange={(e) => onPointerFieldChange({ ...pointerField, clockwise: e.target.checked })}
+                  className="accent-purple-500"
+                />
+                Clockwise
+              </label>
+            )}
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={turbulence}
+                onChange={(e) => onTurbulenceChange(e.target.checked)}
+                className="accent-purple-500"
+              />
+              Ambient turbulence
+            </label>
+          </div>
+        </div>
+
+        {/* Hand Tracking Section */}
+        <HandTrackingPanel controls={handTracking} onCalibrate={onCalibrate} status={trackerStatus} cameras={cameras} />
+
+        {/* Input Recording Section */}
+        <InputPanel controls={inputs} />
+
+        {/* Audio Reactive Section */}
+        <AudioPanel controls={audio} mapping={audioMapping} onMappingChange={onAudioMappingChange} />
+
+        {/* Settings Section */}
+        <SettingsPanel controls={settings} />
+
+        {/* Scene Section */}
+        <ScenePanel scene={scene} onSceneLoad={onSceneLoad} background={background} onBackgroundChange={onBackgroundChange} />
+
+        {/* Snapshot Section */}
+        <SnapshotPanel onSnapshot={onSnapshot} background={background} />
+
+        {/* Recording Section */}
+        <RecordingPanel actions={recording} background={background.color} />
+
         <div className="relative flex py-2 items-center">
           <div className="flex-grow border-t border-neutral-700"></div>
           <span className="flex-shrink mx-4 text-neutral-600 text-xs uppercase">Or Generate with AI</span>
@@ -100,40 +439,7 @@ const Controls: React.FC<ControlsProps> = ({ onImageSelect, onSnapshot, appState
         </div>
 
         {/* Generate Section */}
-        <div className="mt-4">
-           <label className="block text-sm font-medium text-neutral-400 mb-2">
-            Describe a cosmic scene
-          </label>
-          <textarea
-            value={prompt}
-            onChange={(e) => setPrompt(e.target.value)}
-            className="w-full bg-black/50 border border-neutral-700 rounded-lg p-3 text-sm text-white focus:outline-none focus:border-purple-500 transition-colors resize-none h-24 mb-3"
-            placeholder="e.g. A nebula shaped like a phoenix..."
-          />
-          <button
-            onClick={handleGenerate}
-            disabled={appState === AppState.LOADING}
-            className={`w-full py-2 px-4 rounded-lg font-semibold text-sm transition-all duration-200 
-              ${appState === AppState.LOADING 
-                ? 'bg-neutral-800 text-neutral-500 cursor-not-allowed' 
-                : 'bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white shadow-lg shadow-purple-900/20'
-              }`}
-          >
-            {appState === AppState.LOADING ? (
-              <span className="flex items-center justify-center gap-2">
-                <svg className="animate-spin h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                Processing...
-              </span>
-            ) : 'Generate Particle Universe'}
-          </button>
-          
-          {appState === AppState.ERROR && (
-            <p className="text-red-400 text-xs mt-2 text-center">Failed to generate image. Try again.</p>
-          )}
-        </div>
+        <GeneratePanel onImageSelect={onImageSelect} appState={appState} setAppState={setAppState} />
       </div>
       
       {/* Re-open toggle */}
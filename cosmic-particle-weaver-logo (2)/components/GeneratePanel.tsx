@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { AppState } from '../types';
+import { generateImage, IMAGE_ERROR_MESSAGES, ImageProviderError } from '../services/imageProvider';
+import { DEFAULT_IMAGE_PROVIDER, imageProviders } from '../services/imageProviders';
+import { DEFAULT_STYLE, DEFAULT_TEMPLATE, renderPrompt, STYLE_PRESETS, styleText } from '../services/prompts';
+import { blobToDataUrl, downloadBlob, fileTimestamp } from '../services/download';
+import { usePromptTemplates } from '../hooks/usePromptTemplates';
+import { HistoryEntry, useGenerationHistory } from '../hooks/useGenerationHistory';
+import HistoryGallery from './HistoryGallery';
+
+interface GeneratePanelProps {
+  onImageSelect: (src: string) => void;
+  appState: AppState;
+  setAppState: (state: AppState) => void;
+}
+
+const inputClass = 'w-full bg-black/50 border border-neutral-700 rounded-lg p-2 text-xs text-white focus:outline-none focus:border-purple-500';
+
+const GeneratePanel: React.FC<GeneratePanelProps> = ({ onImageSelect, appState, setAppState }) => {
+  const templates = usePromptTemplates();
+  const history = useGenerationHistory();
+  const [prompt, setPrompt] = useState('A glowing cybernetic skull');
+  const [providerId, setProviderId] = useState(DEFAULT_IMAGE_PROVIDER);
+  const [templateName, setTemplateName] = useState(DEFAULT_TEMPLATE);
+  const [style, setStyle] = useState(DEFAULT_STYLE);
+  const [negative, setNegative] = useState(() => templates.getTemplate(DEFAULT_TEMPLATE).negative);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [generateError, setGenerateError] = useState<string | null>(null);
+  const provider = imageProviders.get(providerId);
+  const providerUnavailable = provider?.unavailableReason() ?? null;
+  const template = templates.getTemplate(templateName);
+
+  const selectTemplate = (name: string) => {
+    setTemplateName(name);
+    setNegative(templates.getTemplate(name).negative);
+    setIsEditing(false);
+  };
+
+  const handleEdit = () => {
+    setDraft(template.text);
+    setIsEditing(!isEditing);
+  };
+
+  const handleSaveTemplate = () => {
+    const name = window.prompt('Template name', templates.isBuiltInTemplate(templateName) ? '' : templateName)?.trim();
+    if (!name) return;
+    if (templates.isBuiltInTemplate(name)) {
+      alert(`"${name}" is a built-in template. Choose another name.`);
+      return;
+    }
+    templates.saveTemplate(name, { text: draft, negative });
+    setTemplateName(name);
+    setIsEditing(false);
+  };
+
+  const handleGenerate = async () => {
+    if (!provider || !prompt.trim()) return;
+
+    const fullPrompt = renderPrompt(isEditing ? { ...template, text: draft } : template, prompt, styleText(style));
+    setAppState(AppState.LOADING);
+    setGenerateError(null);
+    try {
+      const base64Image = await generateImage(provider, { prompt: fullPrompt, negativePrompt: negative });
+      onImageSelect(base64Image);
+      setAppState(AppState.READY);
+      history.add({
+        subject: prompt.trim(),
+        prompt: fullPrompt,
+        negativePrompt: negative,
+        template: templateName,
+        style,
+        providerId: provider.id,
+        imageSrc: base64Image,
+      });
+    } catch (error) {
+      console.error(error);
+      if (error instanceof ImageProviderError) {
+        // The provider's own reason says exactly what to configure
+        setGenerateError(error.kind === 'unavailable' ? error.message : IMAGE_ERROR_MESSAGES[error.kind]);
+      } else {
+        setGenerateError(IMAGE_ERROR_MESSAGES.unknown);
+      }
+      setAppState(AppState.ERROR);
+      setTimeout(() => setAppState(AppState.IDLE), 3000);
+    }
+  };
+
+  // Shows the image again and restores the settings that produced it
+  const handleReuse = async (entry: HistoryEntry) => {
+    onImageSelect(await blobToDataUrl(entry.image));
+    setPrompt(entry.subject);
+    if (templates.templateNames.includes(entry.template)) setTemplateName(entry.template);
+    setStyle(entry.style);
+    setNegative(entry.negativePrompt);
+    if (imageProviders.get(entry.providerId)) setProviderId(entry.providerId);
+  };
+
+  const handleDownload = (entry: HistoryEntry) => {
+    const extension = entry.image.type.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+    downloadBlob(entry.image, `particle-generation-${fileTimestamp()}.${extension}`);
+  };
+
+  return (
+    <div className="mt-4">
+      <label className="block text-sm font-medium text-neutral-400 mb-2">
+        Describe a cosmic scene
+      </label>
+      <select
+        value={providerId}
+        onChange={(e) => setProviderId(e.target.value)}
+        className={`${inputClass} mb-2`}
+      >
+        {imageProviders.list().map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.label}{option.unavailableReason() ? ' (not configured)' : ''}
+          </option>
+        ))}
+      </select>
+      {providerUnavailable && <p className="text-xs text-neutral-500 mb-2">{providerUnavailable}</p>}
+
+      <div className="flex gap-1 mb-2">
+        <select value={templateName} onChange={(e) => selectTemplate(e.target.value)} className={`${inputClass} flex-1 min-w-0`} title="Prompt template">
+          {templates.templateNames.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <select value={style} onChange={(e) => setStyle(e.target.value)} className={`${inputClass} flex-1 min-w-0`} title="Style preset">
+          {STYLE_PRESETS.map((preset) => (
+            <option key={preset.id} value={preset.id}>{preset.label}</option>
+          ))}
+        </select>
+        <button onClick={handleEdit} className="px-2 rounded-md text-xs bg-neutral-800 text-neutral-300 hover:bg-neutral-700" title="Edit template">
+          ✎
+        </button>
+      </div>
+
+      {isEditing && (
+        <div className="mb-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className={`${inputClass} resize-none h-20 font-mono`}
+          />
+          <p className="text-[10px] text-neutral-600 mb-1">{'{subject}'} and {'{style}'} are filled in when generating.</p>
+          <div className="flex gap-1">
+            <button onClick={handleSaveTemplate} className="flex-1 py-1 rounded-md text-xs bg-neutral-800 text-neutral-300 hover:bg-neutral-700">
+              Save As...
+            </button>
+            {!templates.isBuiltInTemplate(templateName) && (
+              <button
+                onClick={() => {
+                  templates.deleteTemplate(templateName);
+                  selectTemplate(DEFAULT_TEMPLATE);
+                }}
+                className="px-2 rounded-md text-xs bg-neutral-800 text-neutral-400 hover:text-red-400"
+                title="Delete template"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <textarea
+        value={prompt}
+        onChange={(e) => setPrompt(e.target.value)}
+        className="w-full bg-black/50 border border-neutral-700 rounded-lg p-3 text-sm text-white focus:outline-none focus:border-purple-500 transition-colors resize-none h-24 mb-2"
+        placeholder="e.g. A nebula shaped like a phoenix..."
+      />
+      <input
+        type="text"
+        value={negative}
+        onChange={(e) => setNegative(e.target.value)}
+        className={`${inputClass} mb-3`}
+        placeholder="Negative prompt: things to avoid"
+      />
+      <button
+        onClick={handleGenerate}
+        disabled={appState === AppState.LOADING}
+        className={`w-full py-2 px-4 rounded-lg font-semibold text-sm transition-all duration-200
+          ${appState === AppState.LOADING
+            ? 'bg-neutral-800 text-neutral-500 cursor-not-allowed'
+            : 'bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500 text-white shadow-lg shadow-purple-900/20'
+          }`}
+      >
+        {appState === AppState.LOADING ? (
+          <span className="flex items-center justify-center gap-2">
+            <svg className="animate-spin h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+            </svg>
+            Processing...
+          </span>
+        ) : 'Generate Particle Universe'}
+      </button>
+
+      {appState === AppState.ERROR && generateError && (
+        <p className="text-red-400 text-xs mt-2 text-center">{generateError}</p>
+      )}
+
+      <label className="block text-sm font-medium text-neutral-400 mt-6 mb-2">
+        History
+      </label>
+      {history.error && <p className="text-xs text-neutral-500 mb-2">History unavailable: {history.error}</p>}
+      <HistoryGallery entries={history.entries} onReuse={handleReuse} onDownload={handleDownload} onDelete={history.remove} />
+    </div>
+  );
+};
+
+export default GeneratePanel;
@@ -1,150 +1,229 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+import { Pointer } from '../engine/simulation';
+import { GestureEvent } from '../input/gestures';
+import {
+  Calibration,
+  CALIBRATION_TARGETS,
+  CalibrationProgress,
+  CalibrationSession,
+  createCalibrationSession,
+} from '../input/calibration';
+import { HandFrame } from '../input/inputSource';
+import { createHandPipeline } from '../input/handPipeline';
+import { CameraDevice, createHandTracker, HandTrackerController, IDLE_TRACKER_STATUS, TrackerStatus } from '../input/handTracker';
+import { describeTrackerStatus, HandTrackingSettings } from '../services/handTracking';
 
 interface HandTrackerProps {
-  onHandMove: (x: number | null, y: number | null) => void;
+  // Tracked landmark of every hand in screen pixels; empty when none are visible
+  onHandsMove: (pointers: Pointer[]) => void;
+  // Recognized poses and swipes; positions are normalized screen coordinates
+  onGesture?: (event: GestureEvent) => void;
+  // Raw landmarks of every camera frame, e.g. for recording
+  onHandFrame?: (frame: HandFrame) => void;
+  // Hands tracked at once (1-2); changing it reloads the model
+  maxHands?: number;
+  // Where the MediaPipe WASM and model are served from; defaults to MEDIAPIPE_ASSET_BASE or the CDNs
+  assetBase?: string;
   isActive: boolean;
+  tracking: HandTrackingSettings;
+  // Runs the guided calibration instead of moving particles
+  calibrating?: boolean;
+  // New calibration, or null when it was cancelled or couldn't be solved
+  onCalibrationEnd?: (result: Calibration | null) => void;
+  onStatusChange?: (status: TrackerStatus) => void;
+  // Cameras to choose from, once they can be listed
+  onDevicesChange?: (devices: CameraDevice[]) => void;
 }
 
-const HandTracker: React.FC<HandTrackerProps> = ({ onHandMove, isActive }) => {
+const HandTracker: React.FC<HandTrackerProps> = ({ onHandsMove, onGesture, onHandFrame, maxHands = 2, assetBase, isActive, tracking, calibrating = false, onCalibrationEnd, onStatusChange, onDevicesChange }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  const [isLoaded, setIsLoaded] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const landmarkerRef = useRef<HandLandmarker | null>(null);
-  const requestRef = useRef<number>(0);
+  const [status, setStatus] = useState<TrackerStatus>(IDLE_TRACKER_STATUS);
+  const controllerRef = useRef<HandTrackerController | null>(null);
+  const pipelineRef = useRef(createHandPipeline());
+  // Whether the last frame moved any pointers, so empty frames are only reported once
+  const hadPointersRef = useRef(false);
+  // The controller lives across renders, so it reads the latest props through refs
+  const onHandsMoveRef = useRef(onHandsMove);
+  onHandsMoveRef.current = onHandsMove;
+  const onGestureRef = useRef(onGesture);
+  onGestureRef.current = onGesture;
+  const onHandFrameRef = useRef(onHandFrame);
+  onHandFrameRef.current = onHandFrame;
+  const trackingRef = useRef(tracking);
+  trackingRef.current = tracking;
+  const onCalibrationEndRef = useRef(onCalibrationEnd);
+  onCalibrationEndRef.current = onCalibrationEnd;
+  const onStatusChangeRef = useRef(onStatusChange);
+  onStatusChangeRef.current = onStatusChange;
+  const onDevicesChangeRef = useRef(onDevicesChange);
+  onDevicesChangeRef.current = onDevicesChange;
+  const sessionRef = useRef<CalibrationSession | null>(null);
+  const [progress, setProgress] = useState<CalibrationProgress | null>(null);
 
   useEffect(() => {
-    const initLandmarker = async () => {
-      try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.9/wasm"
-        );
-        const landmarker = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 1
-        });
-        landmarkerRef.current = landmarker;
-        setIsLoaded(true);
-      } catch (e: any) {
-        console.error("Failed to load hand landmarker:", e);
-        setError("AI Model Load Failed");
-      }
-    };
-
-    if (isActive) {
-      initLandmarker();
+    if (!calibrating) {
+      sessionRef.current = null;
+      setProgress(null);
+      return;
     }
+    const { calibrationKind, region } = trackingRef.current;
+    sessionRef.current = createCalibrationSession({ kind: calibrationKind, region });
+    setProgress({ target: 0, hold: 0, done: false });
 
-    return () => {
-        if (landmarkerRef.current) {
-            landmarkerRef.current.close();
-            landmarkerRef.current = null;
-        }
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCalibrationEndRef.current?.(null);
     };
-  }, [isActive]);
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [calibrating]);
 
-  useEffect(() => {
-    let stream: MediaStream | null = null;
+  const releasePointers = () => {
+    if (hadPointersRef.current) onHandsMoveRef.current([]);
+    hadPointersRef.current = false;
+  };
 
-    const startCamera = async () => {
-      if (isActive && isLoaded && videoRef.current) {
-        try {
-          stream = await navigator.mediaDevices.getUserMedia({ 
-            video: { 
-              width: { ideal: 640 }, 
-              height: { ideal: 480 },
-              frameRate: { ideal: 30 }
-            } 
-          });
-          if (videoRef.current) {
-            videoRef.current.srcObject = stream;
-            videoRef.current.addEventListener('loadeddata', predictWebcam);
-          }
-        } catch (e: any) {
-          console.error("Camera access denied:", e);
-          setError("Camera Access Denied");
-        }
+  const handleFrame = (frame: HandFrame) => {
+    onHandFrameRef.current?.(frame);
+    const { points, pointers, events } = pipelineRef.current.process(frame, trackingRef.current, window.innerWidth, window.innerHeight);
+
+    const session = sessionRef.current;
+    if (session) {
+      // Particles and gestures rest while the first hand visits the targets
+      releasePointers();
+      const next = session.feed(points[0] ?? null, frame.timestamp);
+      setProgress(next);
+      if (next.done) {
+        sessionRef.current = null;
+        onCalibrationEndRef.current?.(next.result ?? null);
       }
-    };
+    } else {
+      if (pointers.length > 0) {
+        onHandsMoveRef.current(pointers);
+        hadPointersRef.current = true;
+      } else {
+        releasePointers();
+      }
+      events.forEach((event) => onGestureRef.current?.(event));
+    }
+  };
 
-    startCamera();
+  // Changing the hand count or asset location needs a new model
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!isActive || !video) return;
+    const controller = createHandTracker({
+      video,
+      maxHands,
+      assetBase,
+      deviceId: trackingRef.current.deviceId,
+      onStatus: (next) => {
+        setStatus(next);
+        onStatusChangeRef.current?.(next);
+      },
+      onFrame: handleFrame,
+      onDevices: (devices) => onDevicesChangeRef.current?.(devices),
+    });
+    controllerRef.current = controller;
+    controller.start();
 
     return () => {
-       if (stream) {
-         stream.getTracks().forEach(track => track.stop());
-       }
-       if (requestRef.current) {
-         cancelAnimationFrame(requestRef.current);
-       }
+      controllerRef.current = null;
+      controller.dispose();
+      // Hands vanish with the camera
+      pipelineRef.current.reset();
+      releasePointers();
     };
-  }, [isActive, isLoaded]);
-
-  const predictWebcam = () => {
-    const video = videoRef.current;
-    const landmarker = landmarkerRef.current;
-
-    if (!video || !landmarker) return;
-
-    const startTimeMs = performance.now();
-    if (video.videoWidth > 0 && video.videoHeight > 0) {
-      const results = landmarker.detectForVideo(video, startTimeMs);
-
-      if (results.landmarks && results.landmarks.length > 0) {
-        // Get Index Finger Tip (Index 8)
-        const indexTip = results.landmarks[0][8];
-        
-        // Map normalized coordinates (0-1) to screen coordinates
-        // Mirror X because webcam is mirrored in CSS transform
-        const x = (1 - indexTip.x) * window.innerWidth;
-        const y = indexTip.y * window.innerHeight;
-        
-        onHandMove(x, y);
-      } else {
-        // No hand detected
-        onHandMove(null, null);
-      }
-    }
+  }, [isActive, maxHands, assetBase]);
 
-    requestRef.current = requestAnimationFrame(predictWebcam);
-  };
+  useEffect(() => {
+    controllerRef.current?.setDevice(tracking.deviceId);
+  }, [tracking.deviceId]);
 
   if (!isActive) return null;
 
+  const target = progress && !progress.done ? CALIBRATION_TARGETS[progress.target] : null;
+  const live = status.state === 'tracking' || status.state === 'handLost';
+  const failed = status.state === 'errorRecoverable' || status.state === 'errorFatal';
+
   return (
-    <div className="fixed bottom-4 left-4 z-50 overflow-hidden rounded-xl border border-white/20 bg-black/50 backdrop-blur shadow-[0_0_15px_rgba(255,255,255,0.1)] transition-opacity duration-500 group">
-       <div className="relative w-48 h-36">
-         {error ? (
-           <div className="flex items-center justify-center w-full h-full text-red-400 text-xs text-center px-4">
-             {error}
-           </div>
-         ) : !isLoaded ? (
-           <div className="flex items-center justify-center w-full h-full text-white/50 text-xs animate-pulse">
-             INITIALIZING AI...
-           </div>
-         ) : (
-           <>
-            <video 
-              ref={videoRef}
-              autoPlay 
-              playsInline
-              muted
-              className="w-full h-full object-cover transform -scale-x-100 opacity-60 group-hover:opacity-100 transition-opacity"
-            />
-            <div className="absolute top-2 left-2 flex items-center gap-2">
-              <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></div>
-              <span className="text-[10px] text-white/80 font-mono uppercase tracking-widest">Live Feed</span>
+    <>
+      {calibrating && (
+        <div className="fixed inset-0 z-[90] bg-black/70 select-none">
+          <div className="absolute top-10 inset-x-0 text-center text-white/70 text-sm font-mono tracking-widest uppercase">
+            {live
+              ? `Hold your hand still over the target (${Math.min((progress?.target ?? 0) + 1, CALIBRATION_TARGETS.length)}/${CALIBRATION_TARGETS.length})`
+              : describeTrackerStatus(status)}
+          </div>
+          {target && (
+            <div
+              className="absolute w-16 h-16 -translate-x-1/2 -translate-y-1/2"
+              style={{ left: `${target.x * 100}%`, top: `${target.y * 100}%` }}
+            >
+              <svg viewBox="0 0 64 64" className="w-full h-full">
+                <circle cx="32" cy="32" r="28" fill="none" stroke="rgba(255,255,255,0.2)" strokeWidth="4" />
+                <circle
+                  cx="32"
+                  cy="32"
+                  r="28"
+                  fill="none"
+                  stroke="#a855f7"
+                  strokeWidth="4"
+                  strokeDasharray={`${progress!.hold * 2 * Math.PI * 28} ${2 * Math.PI * 28}`}
+                  transform="rotate(-90 32 32)"
+                />
+                <circle cx="32" cy="32" r="4" fill="white" />
+              </svg>
             </div>
-            <div className="absolute inset-0 border border-white/10 pointer-events-none"></div>
-            {/* Crosshair decoration */}
-            <div className="absolute top-1/2 left-1/2 w-4 h-4 border border-white/30 transform -translate-x-1/2 -translate-y-1/2 pointer-events-none opacity-50"></div>
-           </>
-         )}
-       </div>
-    </div>
+          )}
+          <button
+            onClick={() => onCalibrationEnd?.(null)}
+            className="absolute bottom-10 left-1/2 -translate-x-1/2 px-4 py-2 rounded-lg text-xs bg-neutral-800 text-neutral-300 border border-neutral-600 hover:bg-neutral-700"
+          >
+            Cancel (Esc)
+          </button>
+        </div>
+      )}
+      <div className="fixed bottom-4 left-4 z-50 overflow-hidden rounded-xl border border-white/20 bg-black/50 backdrop-blur shadow-[0_0_15px_rgba(255,255,255,0.1)] transition-opacity duration-500 group">
+         <div className="relative w-48 h-36">
+           {/* The video stays mounted so the tracker always has an element to play into */}
+           <video
+             ref={videoRef}
+             autoPlay
+             playsInline
+             muted
+             className={`w-full h-full object-cover transform -scale-x-100 opacity-60 group-hover:opacity-100 transition-opacity ${live ? '' : 'invisible'}`}
+           />
+           {live ? (
+             <>
+              <div className="absolute top-2 left-2 flex items-center gap-2">
+                <div className={`w-2 h-2 rounded-full ${status.state === 'tracking' ? 'bg-red-500 animate-pulse' : 'bg-neutral-500'}`}></div>
+                <span className="text-[10px] text-white/80 font-mono uppercase tracking-widest">
+                  {status.state === 'tracking' ? 'Live Feed' : 'No Hand'}
+                </span>
+              </div>
+              {status.delegate === 'CPU' && (
+                <span className="absolute top-2 right-2 text-[10px] text-white/50 font-mono uppercase" title="The GPU was unavailable; tracking runs on the CPU">CPU</span>
+              )}
+              <div className="absolute inset-0 border border-white/10 pointer-events-none"></div>
+              {/* Crosshair decoration */}
+              <div className="absolute top-1/2 left-1/2 w-4 h-4 border border-white/30 transform -translate-x-1/2 -translate-y-1/2 pointer-events-none opacity-50"></div>
+             </>
+           ) : (
+             <div className={`absolute inset-0 flex flex-col items-center justify-center gap-2 px-4 text-xs text-center ${failed ? 'text-red-400' : 'text-white/50 animate-pulse'}`}>
+               <span>{describeTrackerStatus(status)}</span>
+               {status.state === 'errorRecoverable' && (
+                 <button
+                   onClick={() => controllerRef.current?.retry()}
+                   className="px-3 py-1 rounded-md text-[10px] uppercase tracking-widest text-white bg-neutral-800 border border-neutral-600 hover:bg-neutral-700"
+                 >
+                   Retry
+                 </button>
+               )}
+             </div>
+           )}
+         </div>
+      </div>
+    </>
   );
 };
 
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { CalibrationKind, TrackingLandmark } from '../input/calibration';
+import { OneEuroOptions } from '../input/oneEuro';
+import { CameraDevice, TrackerStatus } from '../input/handTracker';
+import { HandTrackingControls } from '../hooks/useHandTracking';
+import { DEFAULT_HAND_TRACKING, describeTrackerStatus, HandTrackingSettings, TRACKING_LANDMARK_LABELS } from '../services/handTracking';
+
+interface HandTrackingPanelProps {
+  controls: HandTrackingControls;
+  onCalibrate: () => void;
+  status: TrackerStatus;
+  // Empty until the browser lets the cameras be listed
+  cameras: CameraDevice[];
+}
+
+const CALIBRATION_LABELS: Record<CalibrationKind, string> = {
+  affine: 'Affine (3+ points)',
+  homography: 'Perspective (4+ points)',
+};
+
+// Region edges as insets, in percent of the camera frame
+type RegionEdge = 'left' | 'right' | 'top' | 'bottom';
+const REGION_EDGES: RegionEdge[] = ['left', 'right', 'top', 'bottom'];
+
+const selectClass = 'w-full bg-black/50 border border-neutral-700 rounded-lg p-2 text-xs text-white focus:outline-none focus:border-purple-500';
+
+const HandTrackingPanel: React.FC<HandTrackingPanelProps> = ({ controls, onCalibrate, status, cameras }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { tracking, setTracking } = controls;
+
+  const set = <K extends keyof HandTrackingSettings>(key: K, value: HandTrackingSettings[K]) => setTracking({ ...tracking, [key]: value });
+  const setFilter = (key: keyof OneEuroOptions, value: number) => set('filter', { ...tracking.filter, [key]: value });
+
+  const { region } = tracking;
+  const insets: Record<RegionEdge, number> = {
+    left: region.x,
+    right: 1 - region.x - region.width,
+    top: region.y,
+    bottom: 1 - region.y - region.height,
+  };
+
+  // A calibration is fitted to one region, so changing the region drops it
+  const setInset = (edge: RegionEdge, value: number) => {
+    const next = { ...insets, [edge]: value };
+    const opposite: RegionEdge = { left: 'right', right: 'left', top: 'bottom', bottom: 'top' }[edge] as RegionEdge;
+    next[edge] = Math.min(value, 0.9 - next[opposite]);
+    setTracking({
+      ...tracking,
+      region: { x: next.left, y: next.top, width: 1 - next.left - next.right, height: 1 - next.top - next.bottom },
+      calibration: null,
+    });
+  };
+
+  return (
+    <div className="mb-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center justify-between w-full text-sm font-medium text-neutral-400 mb-2 hover:text-white"
+      >
+        <span>Hand Tracking{tracking.calibration ? ' •' : ''}</span>
+        <span className="text-xs">{isOpen ? '▾' : '▸'}</span>
+      </button>
+
+      {isOpen && (
+        <div>
+          <p className={`text-xs mb-2 ${status.state === 'errorRecoverable' || status.state === 'errorFatal' ? 'text-red-400' : 'text-neutral-500'}`}>
+            {describeTrackerStatus(status)}{status.delegate === 'CPU' ? ' (CPU)' : ''}
+          </p>
+          {cameras.length > 0 && (
+            <select
+              value={tracking.deviceId ?? ''}
+              onChange={(e) => set('deviceId', e.target.value || null)}
+              className={`${selectClass} mb-2`}
+              title="Camera"
+            >
+              <option value="">Default Camera</option>
+              {cameras.map((camera) => (
+                <option key={camera.deviceId} value={camera.deviceId}>{camera.label}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={tracking.landmark}
+            onChange={(e) => set('landmark', e.target.value as TrackingLandmark)}
+            className={selectClass}
+            title="Tracked point"
+          >
+            {(Object.keys(TRACKING_LANDMARK_LABELS) as TrackingLandmark[]).map((landmark) => (
+              <option key={landmark} value={landmark}>{TRACKING_LANDMARK_LABELS[landmark]}</option>
+            ))}
+          </select>
+
+          <div className="text-[10px] uppercase tracking-widest text-neutral-600 mt-3 mb-1">Smoothing</div>
+          <div className="flex justify-between text-xs text-neutral-500">
+            <span>Steadiness</span>
+            <span className="font-mono">{tracking.filter.minCutoff.toFixed(2)}Hz</span>
+          </div>
+          <input
+            type="range"
+            min={0.1}
+            max={5}
+            step={0.05}
+            value={tracking.filter.minCutoff}
+            onChange={(e) => setFilter('minCutoff', Number(e.target.value))}
+            className="w-full accent-purple-500"
+          />
+          <div className="flex justify-between text-xs text-neutral-500 mt-1">
+            <span>Responsiveness</span>
+            <span className="font-mono">{tracking.filter.beta.toFixed(1)}</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={40}
+            step={0.5}
+            value={tracking.filter.beta}
+            onChange={(e) => setFilter('beta', Number(e.target.value))}
+            className="w-full accent-purple-500"
+          />
+
+          <div className="text-[10px] uppercase tracking-widest text-neutral-600 mt-3 mb-1">Active Region</div>
+          <div className="grid grid-cols-2 gap-x-3">
+            {REGION_EDGES.map((edge) => (
+              <div key={edge}>
+                <div className="flex justify-between text-xs text-neutral-500">
+                  <span className="capitalize">{edge}</span>
+                  <span className="font-mono">{Math.round(insets[edge] * 100)}%</span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={0.45}
+                  step={0.01}
+                  value={insets[edge]}
+                  onChange={(e) => setInset(edge, Number(e.target.value))}
+                  className="w-full accent-purple-500"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="text-[10px] uppercase tracking-widest text-neutral-600 mt-3 mb-1">Calibration</div>
+          <select
+            value={tracking.calibrationKind}
+            onChange={(e) => set('calibrationKind', e.target.value as CalibrationKind)}
+            className={selectClass}
+            title="Mapping fitted by the next calibration"
+          >
+            {(Object.keys(CALIBRATION_LABELS) as CalibrationKind[]).map((kind) => (
+              <option key={kind} value={kind}>{CALIBRATION_LABELS[kind]}</option>
+            ))}
+          </select>
+          <p className="text-xs text-neutral-500 mt-2">
+            {tracking.calibration
+              ? `Calibrated (${tracking.calibration.kind === 'affine' ? 'affine' : 'perspective'} mapping)`
+              : 'Not calibrated: the active region is stretched to the screen'}
+          </p>
+          <div className="flex gap-1 mt-2">
+            <button
+              onClick={onCalibrate}
+              className="flex-1 py-1 rounded-md text-xs bg-purple-900/70 text-purple-200 hover:bg-purple-900"
+            >
+              Calibrate
+            </button>
+            <button
+              onClick={() => set('calibration', null)}
+              disabled={!tracking.calibration}
+              className="flex-1 py-1 rounded-md text-xs bg-neutral-800 text-neutral-300 hover:bg-neutral-700 disabled:opacity-50"
+            >
+              Clear
+            </button>
+          </div>
+
+          <button
+            onClick={() => setTracking(DEFAULT_HAND_TRACKING)}
+            className="w-full mt-3 py-1 rounded-md text-xs bg-neutral-800 text-neutral-300 hover:bg-neutral-700"
+          >
+            Reset
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HandTrackingPanel;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { HistoryEntry } from '../hooks/useGenerationHistory';
+
+interface HistoryGalleryProps {
+  entries: HistoryEntry[];
+  onReuse: (entry: HistoryEntry) => void;
+  onDownload: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+}
+
+const actionClass = 'w-6 h-6 rounded-full bg-black/70 text-white text-xs hover:bg-purple-600';
+
+const HistoryGallery: React.FC<HistoryGalleryProps> = ({ entries, onReuse, onDownload, onDelete }) => {
+  if (entries.length === 0) {
+    return <p className="text-xs text-neutral-600">Generated images will show up here.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-3 gap-2 max-h-64 overflow-y-auto pr-1">
+      {entries.map((entry) => (
+        <div key={entry.id} className="group relative" title={`${entry.subject}\n${new Date(entry.createdAt).toLocaleString()}`}>
+          <img
+            src={entry.thumbnailUrl}
+            alt={entry.subject}
+            className="w-full aspect-square object-cover rounded-md border border-neutral-700 cursor-pointer"
+            onClick={() => onReuse(entry)}
+          />
+          <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            <button onClick={() => onDownload(entry)} className={actionClass} title="Download">↓</button>
+            <button onClick={() => onDelete(entry.id)} className={actionClass} title="Delete">✕</button>
+          </div>
+          <p className="text-[10px] text-neutral-500 truncate mt-0.5">{entry.subject}</p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default HistoryGallery;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { InputControls } from '../hooks/useInputSources';
+import { parseInputRecording } from '../input/replay';
+import { downloadBlob, fileTimestamp } from '../services/download';
+
+interface InputPanelProps {
+  controls: InputControls;
+}
+
+const InputPanel: React.FC<InputPanelProps> = ({ controls }) => {
+  const [loop, setLoop] = useState(true);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const handleRecord = () => {
+    if (!controls.isRecording) {
+      controls.startRecording();
+      setMessage(null);
+      return;
+    }
+    const recording = controls.stopRecording();
+    if (!recording || recording.frames.length === 0) {
+      setMessage({ text: 'Nothing was recorded.', error: false });
+      return;
+    }
+    const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+    downloadBlob(blob, `particle-input-${fileTimestamp()}.json`);
+    setMessage({ text: `Saved ${recording.frames.length} frames.`, error: false });
+  };
+
+  const handleReplay = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      controls.startReplay(parseInputRecording(await file.text()), file.name, loop);
+      setMessage(null);
+    } catch (e) {
+      console.error('Input recording could not be replayed:', e);
+      setMessage({ text: e instanceof Error ? e.message : 'Replay failed', error: true });
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-medium text-neutral-400 mb-2">
+        Input Recording
+      </label>
+      <div className="flex gap-1">
+        <button
+          onClick={handleRecord}
+          className={`flex-1 py-1 rounded-md text-xs transition-colors ${controls.isRecording ? 'bg-red-900/70 text-red-200 hover:bg-red-900' : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'}`}
+        >
+          {controls.isRecording ? 'Stop & Save' : 'Record'}
+        </button>
+        {controls.replaying ? (
+          <button onClick={controls.stopReplay} className="flex-1 py-1 rounded-md text-xs bg-purple-900/70 text-purple-200 hover:bg-purple-900">
+            Stop Replay
+          </button>
+        ) : (
+          <label className="flex-1 py-1 rounded-md text-xs text-center bg-neutral-800 text-neutral-300 hover:bg-neutral-700 cursor-pointer">
+            Replay...
+            <input type="file" accept="application/json,.json" onChange={handleReplay} className="hidden" />
+          </label>
+        )}
+      </div>
+      <label className="flex items-center gap-2 mt-2 text-xs text-neutral-400 cursor-pointer">
+        <input type="checkbox" checked={loop} onChange={(e) => setLoop(e.target.checked)} className="accent-purple-500" />
+        Loop replays
+      </label>
+      {controls.replaying && <p className="text-xs mt-2 text-neutral-500 truncate">Replaying {controls.replaying}</p>}
+      {message && <p className={`text-xs mt-2 ${message.error ? 'text-red-400' : 'text-neutral-500'}`}>{message.text}</p>}
+    </div>
+  );
+};
+
+export default InputPanel;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { LogoLayer } from '../types';
+import { LayoutOptions } from '../engine/layout';
+
+interface LogoLayersPanelProps {
+  logos: LogoLayer[];
+  onChange: (logos: LogoLayer[]) => void;
+  // Layout of the main image; extra logos inherit whatever they don't set
+  layout: LayoutOptions;
+}
+
+type LayerSliderKey = 'scale' | 'anchorX' | 'anchorY';
+
+const LAYER_SLIDERS: { key: LayerSliderKey; label: string; min: number; max: number; step: number }[] = [
+  { key: 'scale', label: 'Scale', min: 0.1, max: 3, step: 0.05 },
+  { key: 'anchorX', label: 'Horizontal', min: 0, max: 1, step: 0.01 },
+  { key: 'anchorY', label: 'Vertical', min: 0, max: 1, step: 0.01 },
+];
+
+// New logos start small in the bottom-right corner of the screen, clear of the main image
+const NEW_LOGO_LAYOUT: Partial<LayoutOptions> = {
+  frame: 'viewport',
+  scale: 0.25,
+  anchorX: 1,
+  anchorY: 1,
+  clipToUniverse: false,
+};
+
+const LogoLayersPanel: React.FC<LogoLayersPanelProps> = ({ logos, onChange, layout }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (typeof reader.result === 'string') onChange([...logos, { src: reader.result, layout: NEW_LOGO_LAYOUT }]);
+    };
+    reader.onerror = () => console.error('Logo could not be read:', reader.error);
+    reader.readAsDataURL(file);
+  };
+
+  const updateLayout = (index: number, patch: Partial<LayoutOptions>) =>
+    onChange(logos.map((logo, i) => (i === index ? { ...logo, layout: { ...logo.layout, ...patch } } : logo)));
+
+  return (
+    <div className="mb-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center justify-between w-full text-sm font-medium text-neutral-400 mb-2 hover:text-white"
+      >
+        <span>Extra Logos{logos.length ? ` (${logos.length})` : ''}</span>
+        <span className="text-xs">{isOpen ? '▾' : '▸'}</span>
+      </button>
+
+      {isOpen && (
+        <div>
+          {logos.map((logo, index) => {
+            const resolved = { ...layout, ...logo.layout };
+            return (
+              <div key={index} className="mb-3 p-2 rounded-lg bg-black/30 border border-neutral-800">
+                <div className="flex items-center gap-2 mb-1">
+                  <img src={logo.src} alt="" className="w-8 h-8 object-contain rounded bg-neutral-800" />
+                  <span className="flex-1 text-xs text-neutral-500">Logo {index + 2}</span>
+                  <button
+                    onClick={() => onChange(logos.filter((_, i) => i !== index))}
+                    className="px-2 py-1 rounded-md text-xs bg-neutral-800 text-neutral-400 hover:bg-neutral-700"
+                  >
+                    Remove
+                  </button>
+                </div>
+                {LAYER_SLIDERS.map(({ key, label, min, max, step }) => (
+                  <div key={key}>
+                    <div className="flex justify-between text-xs text-neutral-500 mt-1">
+                      <span>{label}</span>
+                      <span className="font-mono">{resolved[key].toFixed(2)}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min={min}
+                      max={max}
+                      step={step}
+                      value={resolved[key]}
+                      onChange={(e) => updateLayout(index, { [key]: Number(e.target.value) })}
+                      className="w-full accent-purple-500"
+                    />
+                  </div>
+                ))}
+                <label className="flex items-center gap-2 mt-1 text-xs text-neutral-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={resolved.clipToUniverse}
+                    onChange={(e) => updateLayout(index, { clipToUniverse: e.target.checked })}
+                    className="accent-purple-500"
+                  />
+                  Clip to sphere
+                </label>
+              </div>
+            );
+          })}
+          <label className="block w-full py-1 rounded-md text-xs text-center bg-neutral-800 text-neutral-300 hover:bg-neutral-700 cursor-pointer">
+            Add Logo...
+            <input type="file" accept="image/*" onChange={handleFile} className="hidden" />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LogoLayersPanel;
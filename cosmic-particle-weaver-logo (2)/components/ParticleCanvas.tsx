@@ -1,355 +1,298 @@
-import React, { useRef, useEffect, useState, useCallback, useImperativeHandle, forwardRef } from 'react';
-import { Particle, MouseState, ParticleCanvasHandle } from '../types';
+import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef } from 'react';
+import { LogoLayer, ParticleCanvasHandle } from '../types';
+import { RendererPreference } from '../engine/renderers';
+import { createEngineHost, EngineHost, ExecutionMode } from '../engine/engineHost';
+import { loadLayerSource } from '../engine/imageLoader';
+import { isVectorSource, VectorSource } from '../engine/vectorSource';
+import { ColorMode, DEFAULT_COLOR_MODE } from '../engine/colorModes';
+import { DEFAULT_SAMPLING_OPTIONS, SamplingOptions } from '../engine/sampling';
+import { DEFAULT_PREPROCESS_OPTIONS, isIdentityPreprocess, preprocessImage, PreprocessOptions } from '../engine/preprocess';
+import { DEFAULT_LAYOUT, LayoutOptions } from '../engine/layout';
+import { DEFAULT_TRANSITION, TransitionOptions } from '../engine/morph';
+import { Pointer } from '../engine/simulation';
+import { DEFAULT_FORCE_FIELDS, ForceField } from '../engine/forces';
+import { AudioMapping, DEFAULT_AUDIO_MAPPING } from '../engine/audioReactive';
+import { downloadBlob, fileTimestamp } from '../services/download';
+import { DEFAULT_SETTINGS, Settings } from '../services/settings';
+import { SnapshotFormat, SnapshotOptions } from '../engine/particleEngine';
+import { CanvasRecording, OfflineRenderOptions, recordCanvas, RecordingOptions, renderOffline } from '../services/recording';
 
 interface ParticleCanvasProps {
   imageSrc: string | null;
+  // Fixed seed makes the generated particle field reproducible
+  seed?: number;
+  // Drawing backend; 'auto' picks WebGL2 when available
+  renderer?: RendererPreference;
+  // Where simulation and rendering run; 'auto' prefers a worker with OffscreenCanvas
+  execution?: ExecutionMode;
+  // How image particles are colored from the source image
+  colorMode?: ColorMode;
+  // Crop, background removal and tone adjustments applied to the main image before sampling
+  preprocess?: PreprocessOptions;
+  // How image pixels are turned into particle positions
+  sampling?: SamplingOptions;
+  // Fit, anchor and clipping of the main image (and defaults for extra logos)
+  layout?: LayoutOptions;
+  // Extra logos placed at their own positions
+  logos?: LogoLayer[];
+  // Morph or reset when the image, layout or sampling changes
+  transition?: TransitionOptions;
+  // Force fields acting on the particles; defaults to repulsion around every pointer
+  fields?: ForceField[];
+  // Physics constants, particle generation and display toggles
+  settings?: Settings;
+  // What the levels given to setAudioLevels drive
+  audioMapping?: AudioMapping;
 }
 
-const ParticleCanvas = forwardRef<ParticleCanvasHandle, ParticleCanvasProps>(({ imageSrc }, ref) => {
+const NO_LOGOS: LogoLayer[] = [];
+
+type LoadedSource = ImageBitmap | VectorSource;
+
+const closeSource = (source: LoadedSource) => {
+  if (!isVectorSource(source)) source.close();
+};
+
+// Slider drags re-run the pipeline on the full image; wait for a pause
+const PREPROCESS_DELAY_MS = 150;
+
+const SNAPSHOT_EXTENSIONS: Record<SnapshotFormat, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+  svg: 'svg',
+};
+
+const ParticleCanvas = forwardRef<ParticleCanvasHandle, ParticleCanvasProps>(({ imageSrc, seed, renderer = 'auto', execution = 'auto', colorMode = DEFAULT_COLOR_MODE, preprocess = DEFAULT_PREPROCESS_OPTIONS, sampling = DEFAULT_SAMPLING_OPTIONS, layout = DEFAULT_LAYOUT, logos = NO_LOGOS, transition = DEFAULT_TRANSITION, fields = DEFAULT_FORCE_FIELDS, settings = DEFAULT_SETTINGS, audioMapping = DEFAULT_AUDIO_MAPPING }: ParticleCanvasProps, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [particles, setParticles] = useState<Particle[]>([]);
-  const animationRef = useRef<number>(0);
-  const imageRef = useRef<HTMLImageElement | null>(null);
-  const resizeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  
-  // Target represents the raw input (mouse or hand)
-  const targetRef = useRef<{x: number | null, y: number | null}>({ x: null, y: null });
-  // Current represents the smoothed position used for rendering
-  const currentRef = useRef<{x: number | null, y: number | null}>({ x: null, y: null });
-  // Interaction radius
-  const radiusRef = useRef<number>(320); 
+  const hostRef = useRef<EngineHost | null>(null);
+  // A canvas handed to a worker can't be reclaimed, so StrictMode's effect re-run
+  // on the same element must pick the existing host back up instead of recreating it
+  const retainedHostRef = useRef<{ canvas: HTMLCanvasElement; host: EngineHost; timeout: ReturnType<typeof setTimeout> } | null>(null);
+  // Decoded images and vector sources as loaded, main image first
+  const sourceImagesRef = useRef<LoadedSource[]>([]);
+  // What the engine was last given: the processed main image, then the logos
+  const imagesRef = useRef<LoadedSource[]>([]);
+  // Bumped per preprocessing run so a slow, outdated one is discarded
+  const preprocessRunRef = useRef(0);
+  // Latest options for loads that finish after a change
+  const preprocessRef = useRef(preprocess);
+  preprocessRef.current = preprocess;
+  const recordingRef = useRef<CanvasRecording | null>(null);
+  // Set once the worker fails; the canvas is remounted and driven from this thread
+  const [workerFailed, setWorkerFailed] = useState(false);
+  const mode: ExecutionMode = workerFailed ? 'main' : execution;
 
   // Expose methods to parent
   useImperativeHandle(ref, () => ({
-    downloadSnapshot: () => {
-      const canvas = canvasRef.current;
-      if (!canvas) return;
-      
-      const link = document.createElement('a');
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      link.download = `particle-universe-${timestamp}.png`;
-      link.href = canvas.toDataURL('image/png');
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+    downloadSnapshot: async (options: Partial<SnapshotOptions> = {}) => {
+      const host = hostRef.current;
+      if (!host) throw new Error('Particle engine is not running');
+      const blob = await host.snapshot(options);
+      if (!blob) throw new Error('The browser could not encode the snapshot');
+      downloadBlob(blob, `particle-universe-${fileTimestamp()}.${SNAPSHOT_EXTENSIONS[options.format ?? 'png']}`);
+    },
+    setPointers: (pointers: Pointer[]) => {
+      hostRef.current?.setPointers(pointers);
+    },
+    triggerShockwave: (x: number, y: number) => {
+      hostRef.current?.pulse(x, y);
     },
     setInteractionPoint: (x: number | null, y: number | null) => {
-      targetRef.current.x = x;
-      targetRef.current.y = y;
-    }
+      hostRef.current?.setPointers(x === null || y === null ? [] : [{ id: 'interaction', x, y }]);
+    },
+    setAudioLevels: (levels) => {
+      hostRef.current?.setAudio(levels);
+    },
+    startRecording: (options?: RecordingOptions) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return Promise.reject(new Error('Canvas is not mounted'));
+      if (recordingRef.current) return Promise.reject(new Error('A recording is already running'));
+      let recording: CanvasRecording;
+      try {
+        recording = recordCanvas(canvas, options);
+      } catch (e) {
+        return Promise.reject(e);
+      }
+      recordingRef.current = recording;
+      return recording.result.finally(() => {
+        if (recordingRef.current === recording) recordingRef.current = null;
+      });
+    },
+    stopRecording: () => recordingRef.current?.stop(),
+    renderOffline: (options: OfflineRenderOptions) => {
+      const host = hostRef.current;
+      if (!host) return Promise.reject(new Error('Particle engine is not running'));
+      return renderOffline(host.capture, options);
+    },
   }));
 
-  // Initialize Particles
-  const initParticles = useCallback((img: HTMLImageElement, width: number, height: number) => {
-    imageRef.current = img;
-    const tempCanvas = document.createElement('canvas');
-    const ctx = tempCanvas.getContext('2d');
-    if (!ctx) return;
-
-    tempCanvas.width = width;
-    tempCanvas.height = height;
-    
-    // Universe Dimensions (Sphere) for particle generation boundaries
-    const centerX = width / 2;
-    const centerY = height / 2;
-    // Radius slightly larger to encompass more view
-    const universeRadius = Math.min(width, height) * 0.45;
-
-    // Draw image centered
-    const aspectRatio = img.width / img.height;
-    // Scale logic: 2.0x for significant magnification
-    let drawWidth = width * 2.0; 
-    let drawHeight = drawWidth / aspectRatio;
-
-    if (drawHeight > height * 2.0) {
-      drawHeight = height * 2.0;
-      drawWidth = drawHeight * aspectRatio;
-    }
+  // Engine is bound to the canvas element, which is remounted when renderer or mode changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
 
-    const startX = (width - drawWidth) / 1.8;
-    const startY = (height - drawHeight) / 2.5;
-
-    ctx.drawImage(img, startX, startY, drawWidth, drawHeight);
-
-    const imageData = ctx.getImageData(0, 0, width, height);
-    const data = imageData.data;
-    const newParticles: Particle[] = [];
-
-    // 1. Generate Ambient "Universe" Particles INSIDE the Sphere
-    const sphereArea = Math.PI * universeRadius * universeRadius;
-    const targetCount = Math.floor(sphereArea / 30); 
-    const ambientCount = Math.min(targetCount, 20000);
-    
-    for (let i = 0; i < ambientCount; i++) {
-        // Random polar coordinates for uniform sphere distribution
-        const angle = Math.random() * Math.PI * 2;
-        const r = Math.sqrt(Math.random()) * universeRadius;
-        
-        const x = centerX + r * Math.cos(angle);
-        const y = centerY + r * Math.sin(angle);
-        
-        // RELATIVE ORIGIN: Store offset from center
-        const originX = x - centerX;
-        const originY = y - centerY;
-        
-        // Logic: 99.5% Dark Matter, 0.5% Stars
-        const isStar = Math.random() < 0.005;
-        let color, size;
-
-        if (isStar) {
-            const val = Math.floor(Math.random() * 100 + 155); 
-            color = `rgb(${val}, ${val}, ${val})`;
-            size = Math.random() * 1.5 + 0.5;
-        } else {
-            const val = Math.floor(Math.random() * 30 + 10); 
-            color = `rgb(${val}, ${val}, ${val})`;
-            size = Math.random() * 2 + 0.5;
+    const retained = retainedHostRef.current;
+    retainedHostRef.current = null;
+    let host: EngineHost;
+    if (retained && retained.canvas === canvas) {
+      clearTimeout(retained.timeout);
+      host = retained.host;
+    } else {
+      host = createEngineHost(
+        canvas,
+        window.innerWidth,
+        window.innerHeight,
+        { seed, renderer, colorMode, sampling, layout, transition, fields, physics: settings.physics, generation: settings.particles, cursorGlow: settings.display.cursorGlow, idle: settings.idle, audio: audioMapping, layers: [{}, ...logos.map((logo) => logo.layout ?? {})] },
+        mode,
+        (message) => {
+          console.error('Particle worker failed, falling back to main thread:', message);
+          setWorkerFailed(true);
         }
-        
-        newParticles.push({
-            x: x,
-            y: y,
-            originX: originX, // Storing relative offset!
-            originY: originY,
-            color: color,
-            size: size,
-            vx: 0,
-            vy: 0,
-            density: Math.random() * 20 + 1,
-        });
+      );
+      if (imagesRef.current.length > 0) host.setImages(imagesRef.current);
     }
+    hostRef.current = host;
 
-    // 2. Generate Image Particles (Pure White)
-    const step = width < 768 ? 3 : 2; // Optimize density for performance with large scale
-
-    for (let y = 0; y < height; y += step) {
-      for (let x = 0; x < width; x += step) {
-        const pX = Math.floor(x);
-        const pY = Math.floor(y);
-        
-        const index = (pY * width + pX) * 4;
-        
-        if (index >= data.length) continue;
-
-        const alpha = data[index + 3];
-
-        if (alpha > 128) {
-          const color = 'rgb(255, 255, 255)';
-          
-          // RELATIVE ORIGIN: Image particles also stored relative to center
-          const originX = pX - centerX;
-          const originY = pY - centerY;
-
-          newParticles.push({
-            x: Math.random() * width, // Start chaotic
-            y: Math.random() * height,
-            originX: originX,
-            originY: originY,
-            color: color,
-            size: Math.random() < 0.3 ? Math.random() * 0.8 + 0.6 : Math.random() * 0.4 + 0.2, 
-            vx: 0,
-            vy: 0,
-            density: Math.random() * 30 + 1,
-          });
-        }
-      }
-    }
+    // Handle Resize (the engine debounces particle regeneration)
+    const handleResize = () => host.resize(window.innerWidth, window.innerHeight);
+    window.addEventListener('resize', handleResize);
 
-    setParticles(newParticles);
-  }, []);
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      hostRef.current = null;
+      const timeout = setTimeout(() => {
+        host.dispose();
+        if (retainedHostRef.current?.host === host) retainedHostRef.current = null;
+      }, 0);
+      retainedHostRef.current = { canvas, host, timeout };
+    };
+    // Options are pushed separately below; recreating the engine for them is unnecessary
+  }, [renderer, mode]);
+
+  // Finish a running video instead of leaving the recorder attached to a dead canvas
+  useEffect(() => () => recordingRef.current?.stop(), []);
 
-  // Handle Image Loading
   useEffect(() => {
-    if (!imageSrc) return;
+    hostRef.current?.setOptions({ seed });
+  }, [seed]);
 
-    const img = new Image();
-    img.crossOrigin = "Anonymous";
-    img.src = imageSrc;
-    
-    img.onload = () => {
-      if (canvasRef.current) {
-        initParticles(img, canvasRef.current.width, canvasRef.current.height);
-      }
-    };
-  }, [imageSrc, initParticles]);
+  useEffect(() => {
+    hostRef.current?.setOptions({ colorMode });
+  }, [colorMode]);
 
-  // Handle Resize with Debounce
   useEffect(() => {
-    const handleResize = () => {
-      if (canvasRef.current) {
-        // Immediate canvas resize to avoid stretching
-        canvasRef.current.width = window.innerWidth;
-        canvasRef.current.height = window.innerHeight;
-
-        // Debounced particle regeneration
-        if (resizeTimeoutRef.current) {
-          clearTimeout(resizeTimeoutRef.current);
-        }
-        
-        resizeTimeoutRef.current = setTimeout(() => {
-          if (imageRef.current && canvasRef.current) {
-             initParticles(imageRef.current, canvasRef.current.width, canvasRef.current.height);
-          }
-        }, 200);
-      }
-    };
+    hostRef.current?.setOptions({ sampling });
+  }, [sampling]);
 
-    window.addEventListener('resize', handleResize);
-    handleResize();
+  useEffect(() => {
+    hostRef.current?.setOptions({ transition });
+  }, [transition]);
 
-    return () => {
-      window.removeEventListener('resize', handleResize);
-      if (resizeTimeoutRef.current) clearTimeout(resizeTimeoutRef.current);
-    };
-  }, [initParticles]);
+  useEffect(() => {
+    hostRef.current?.setOptions({ fields });
+  }, [fields]);
 
-  // Animation Loop
-  const animate = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Dynamic Center Calculation
-    const centerX = canvas.width / 2;
-    const centerY = canvas.height / 2;
-    const universeRadius = Math.min(canvas.width, canvas.height) * 0.45;
-
-    // Linear Interpolation for smoothness
-    const lerp = (start: number, end: number, factor: number) => start + (end - start) * factor;
-    const smoothFactor = 0.15;
-
-    if (targetRef.current.x !== null && targetRef.current.y !== null) {
-        if (currentRef.current.x === null) {
-            currentRef.current.x = targetRef.current.x;
-            currentRef.current.y = targetRef.current.y;
-        } else {
-            currentRef.current.x = lerp(currentRef.current.x, targetRef.current.x, smoothFactor);
-            currentRef.current.y = lerp(currentRef.current.y, targetRef.current.y, smoothFactor);
-        }
-    } else {
-        currentRef.current.x = null;
-        currentRef.current.y = null;
-    }
+  useEffect(() => {
+    hostRef.current?.setOptions({ physics: settings.physics });
+  }, [settings.physics]);
 
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    
-    // --- DRAW SPHERICAL UNIVERSE BACKGROUND ---
-    
-    // Draw the Black Sphere Base
-    ctx.fillStyle = '#000000';
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, universeRadius, 0, Math.PI * 2);
-    ctx.fill();
-
-    // --- PHYSICS & PARTICLES ---
-
-    // Physics Phase
-    for (let i = 0; i < particles.length; i++) {
-      const p = particles[i];
-      
-      const dx = (currentRef.current.x || -1000) - p.x;
-      const dy = (currentRef.current.y || -1000) - p.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-      const forceDirectionX = dx / distance;
-      const forceDirectionY = dy / distance;
-      const maxDistance = radiusRef.current;
-      
-      // Calculate dynamic home position based on relative origin + current center
-      const homeX = centerX + p.originX;
-      const homeY = centerY + p.originY;
-      
-      if (distance < maxDistance) {
-        const force = (maxDistance - distance) / maxDistance;
-        const directionX = forceDirectionX * force * p.density * 2.0; 
-        const directionY = forceDirectionY * force * p.density * 2.0;
-        
-        p.vx -= directionX;
-        p.vy -= directionY;
-      } else {
-        if (p.x !== homeX) {
-          const dxHome = p.x - homeX;
-          p.vx -= dxHome / 25; 
-        }
-        if (p.y !== homeY) {
-          const dyHome = p.y - homeY;
-          p.vy -= dyHome / 25;
-        }
-      }
+  useEffect(() => {
+    hostRef.current?.setOptions({ generation: settings.particles });
+  }, [settings.particles]);
 
-      p.vx *= 0.90; // Friction
-      p.vy *= 0.90;
+  useEffect(() => {
+    hostRef.current?.setOptions({ cursorGlow: settings.display.cursorGlow });
+  }, [settings.display.cursorGlow]);
 
-      p.x += p.vx;
-      p.y += p.vy;
-    }
+  useEffect(() => {
+    hostRef.current?.setOptions({ idle: settings.idle });
+  }, [settings.idle]);
 
-    // Drawing Phase
-    for (let i = 0; i < particles.length; i++) {
-        const p = particles[i];
-        
-        // Render
-        ctx.fillStyle = p.color;
-        if (p.size < 2) {
-            ctx.fillRect(p.x - p.size, p.y - p.size, p.size * 2, p.size * 2);
-        } else {
-            ctx.beginPath();
-            ctx.arc(p.x, p.y, p.size, 0, Math.PI * 2);
-            ctx.fill();
-        }
-    }
+  useEffect(() => {
+    hostRef.current?.setOptions({ audio: audioMapping });
+  }, [audioMapping]);
 
-    // Draw Visual Cursor/Pointer
-    if (currentRef.current.x !== null && currentRef.current.y !== null) {
-        const gradient = ctx.createRadialGradient(
-            currentRef.current.x, currentRef.current.y, 10,
-            currentRef.current.x, currentRef.current.y, 80
-        );
-        gradient.addColorStop(0, 'rgba(255, 255, 255, 0.4)');
-        gradient.addColorStop(0.5, 'rgba(255, 255, 255, 0.1)');
-        gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
-        
-        ctx.globalCompositeOperation = 'lighter';
-        ctx.fillStyle = gradient;
-        ctx.beginPath();
-        ctx.arc(currentRef.current.x, currentRef.current.y, 80, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.globalCompositeOperation = 'source-over';
-    }
-    
-    animationRef.current = requestAnimationFrame(animate);
-  }, [particles]);
+  // Layer 0 is the main image; the rest follow the order of `logos`
+  const logoSources = logos.map((logo) => logo.src).join('\n');
+  const layerLayouts = JSON.stringify(logos.map((logo) => logo.layout ?? {}));
 
   useEffect(() => {
-    if (particles.length > 0) {
-      animationRef.current = requestAnimationFrame(animate);
+    hostRef.current?.setOptions({ layout, layers: [{}, ...JSON.parse(layerLayouts)] });
+  }, [layout, layerLayouts]);
+
+  // Bitmaps no longer loaded nor shown are freed
+  const releaseImages = (sources: LoadedSource[]) => {
+    sources.forEach((source) => {
+      if (!sourceImagesRef.current.includes(source) && !imagesRef.current.includes(source)) closeSource(source);
+    });
+  };
+
+  // Preprocesses the main image and hands everything to the engine
+  const showImages = async (options: PreprocessOptions) => {
+    const [main, ...rest] = sourceImagesRef.current;
+    if (!main) return;
+    const run = ++preprocessRunRef.current;
+    let processed: LoadedSource = main;
+    if (!isIdentityPreprocess(options)) {
+      const canvas = preprocessImage(main, options);
+      if (canvas) processed = await createImageBitmap(canvas);
+    }
+    if (run !== preprocessRunRef.current) {
+      if (processed !== main) closeSource(processed);
+      return;
     }
+    const previous = imagesRef.current;
+    imagesRef.current = [processed, ...rest];
+    hostRef.current?.setImages(imagesRef.current);
+    releaseImages(previous);
+  };
+
+  // Handle Image Loading
+  useEffect(() => {
+    if (!imageSrc) return;
+    let cancelled = false;
+    const sources = [imageSrc, ...(logoSources ? logoSources.split('\n') : [])];
+
+    Promise.all(sources.map(loadLayerSource))
+      .then((loaded) => {
+        if (cancelled) {
+          loaded.forEach(closeSource);
+          return;
+        }
+        const previous = sourceImagesRef.current;
+        sourceImagesRef.current = loaded;
+        return showImages(preprocessRef.current).then(() => releaseImages(previous));
+      })
+      .catch((e) => console.error(e));
+
     return () => {
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
+      cancelled = true;
     };
-  }, [animate, particles]);
+  }, [imageSrc, logoSources]);
 
-  const handleMouseMove = (e: React.MouseEvent) => {
+  useEffect(() => {
+    if (sourceImagesRef.current.length === 0) return;
+    const timeout = setTimeout(() => {
+      showImages(preprocess).catch((e) => console.error('Image preprocessing failed:', e));
+    }, PREPROCESS_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [preprocess]);
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
     const rect = canvasRef.current?.getBoundingClientRect();
-    if (rect) {
-      targetRef.current.x = e.clientX - rect.left;
-      targetRef.current.y = e.clientY - rect.top;
-    }
-  };
-
-  const handleMouseLeave = () => {
-    targetRef.current.x = null;
-    targetRef.current.y = null;
+    if (rect) hostRef.current?.pulse(e.clientX - rect.left, e.clientY - rect.top);
   };
 
   return (
     <canvas
+      key={`${renderer}-${mode}`}
       ref={canvasRef}
-      onMouseMove={handleMouseMove}
-      onMouseLeave={handleMouseLeave}
+      data-input-surface
+      onDoubleClick={handleDoubleClick}
       className="block w-full h-full bg-transparent cursor-crosshair touch-none"
     />
   );
 });
 
-export default ParticleCanvas;
\ No newline at end of file
+export default ParticleCanvas;
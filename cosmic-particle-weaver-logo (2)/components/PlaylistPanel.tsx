@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { PlaylistControls } from '../hooks/usePlaylist';
+import { createPlaylistEntry, labelForSource, PlaylistEntry } from '../services/playlist';
+
+interface PlaylistPanelProps {
+  playlist: PlaylistControls;
+  // Image currently on the canvas, offered for "Add Current"
+  currentImageSrc: string | null;
+}
+
+type EntryTransition = 'default' | 'morph' | 'reset';
+
+const transitionOf = (entry: PlaylistEntry): EntryTransition => entry.transition?.mode ?? 'default';
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const PlaylistPanel: React.FC<PlaylistPanelProps> = ({ playlist, currentImageSrc }) => {
+  const { state, dispatch, next, previous, toggle } = playlist;
+  const [url, setUrl] = useState('');
+
+  const add = (src: string, label?: string) => {
+    dispatch({ type: 'add', entry: createPlaylistEntry(src, label ?? labelForSource(src, state.entries.length + 1)) });
+  };
+
+  const handleAddUrl = () => {
+    const trimmed = url.trim();
+    if (!trimmed) return;
+    add(trimmed);
+    setUrl('');
+  };
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    for (const file of files) {
+      try {
+        add(await readAsDataUrl(file), file.name);
+      } catch (e) {
+        console.error('Failed to read playlist file:', e);
+      }
+    }
+  };
+
+  const setEntryTransition = (entry: PlaylistEntry, value: EntryTransition) => {
+    dispatch({
+      type: 'update',
+      id: entry.id,
+      changes: { transition: value === 'default' ? undefined : { ...entry.transition, mode: value } },
+    });
+  };
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-medium text-neutral-400 mb-2">
+        Playlist
+      </label>
+      <div className="flex gap-1 mb-2">
+        <button
+          onClick={previous}
+          disabled={state.entries.length < 2}
+          className="flex-1 py-1 rounded-md text-xs bg-neutral-800 text-neutral-300 hover:bg-neutral-700 disabled:opacity-40"
+          title="Previous (←)"
+        >
+          ◀◀
+        </button>
+        <button
+          onClick={toggle}
+          disabled={state.entries.length === 0}
+          className={`flex-1 py-1 rounded-md text-xs transition-colors disabled:opacity-40 ${state.playing ? 'bg-purple-900/70 text-purple-200' : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'}`}
+          title="Play / Pause (Space)"
+        >
+          {state.playing ? 'Pause' : 'Play'}
+        </button>
+        <button
+          onClick={next}
+          disabled={state.entries.length < 2}
+          className="flex-1 py-1 rounded-md text-xs bg-neutral-800 text-neutral-300 hover:bg-neutral-700 disabled:opacity-40"
+          title="Next (→)"
+        >
+          ▶▶
+        </button>
+      </div>
+
+      <ul className="space-y-1 max-h-48 overflow-y-auto">
+        {state.entries.map((entry, i) => (
+          <li
+            key={entry.id}
+            className={`flex items-center gap-2 p-1 rounded-md text-xs ${i === state.index ? 'bg-purple-900/40 text-purple-100' : 'bg-black/30 text-neutral-400'}`}
+          >
+            <button onClick={() => dispatch({ type: 'goto', index: i })} className="flex items-center gap-2 flex-1 min-w-0 text-left">
+              <img src={entry.src} alt="" className="w-6 h-6 object-contain bg-black/50 rounded flex-shrink-0" />
+              <span className="truncate">{entry.label}</span>
+            </button>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={Math.round(entry.dwellMs / 1000)}
+              onChange={(e) => dispatch({ type: 'update', id: entry.id, changes: { dwellMs: Math.max(1, Number(e.target.value)) * 1000 } })}
+              className="w-10 bg-black/50 border border-neutral-700 rounded px-1 text-white font-mono"
+              title="Dwell time (seconds)"
+            />
+            <select
+              value={transitionOf(entry)}
+              onChange={(e) => setEntryTransition(entry, e.target.value as EntryTransition)}
+              className="bg-black/50 border border-neutral-700 rounded text-white"
+              title="Transition into this entry"
+            >
+              <option value="default">Default</option>
+              <option value="morph">Morph</option>
+              <option value="reset">Reset</option>
+            </select>
+            <button onClick={() => dispatch({ type: 'move', id: entry.id, offset: -1 })} className="text-neutral-500 hover:text-white" title="Move up">↑</button>
+            <button onClick={() => dispatch({ type: 'remove', id: entry.id })} className="text-neutral-500 hover:text-red-400" title="Remove">✕</button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex gap-1 mt-2">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddUrl()}
+          placeholder="https://example.com/logo.png"
+          className="flex-1 min-w-0 bg-black/50 border border-neutral-700 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-purple-500"
+        />
+        <button onClick={handleAddUrl} className="px-2 py-1 rounded-md text-xs bg-neutral-800 text-neutral-300 hover:bg-neutral-700">
+          Add URL
+        </button>
+      </div>
+      <div className="flex gap-1 mt-1">
+        <button
+          onClick={() => currentImageSrc && add(currentImageSrc)}
+          disabled={!currentImageSrc}
+          className="flex-1 py-1 rounded-md text-xs bg-neutral-800 text-neutral-300 hover:bg-neutral-700 disabled:opacity-40"
+        >
+          Add Current
+        </button>
+        <label className="flex-1 py-1 rounded-md text-xs text-center bg-neutral-800 text-neutral-300 hover:bg-neutral-700 cursor-pointer">
+          Add Files
+          <input type="file" accept="image/*" multiple onChange={handleFiles} className="hidden" />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default PlaylistPanel;
@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BackgroundRemoval, DEFAULT_PREPROCESS_OPTIONS, isIdentityPreprocess, preprocessImage, PreprocessOptions } from '../engine/preprocess';
+import { loadLayerSource } from '../engine/imageLoader';
+import { isVectorSource, VectorSource } from '../engine/vectorSource';
+
+interface PreprocessPanelProps {
+  // Image the preview is built from
+  imageSrc: string | null;
+  options: PreprocessOptions;
+  onChange: (options: PreprocessOptions) => void;
+}
+
+const BACKGROUND_LABELS: Record<BackgroundRemoval, string> = {
+  none: 'Keep Background',
+  colorKey: 'Remove Color',
+  luminance: 'Remove by Brightness',
+};
+
+const PREVIEW_SIZE = 160;
+
+type NumericKey = 'tolerance' | 'softness' | 'blackPoint' | 'whitePoint' | 'gamma' | 'contrast' | 'posterize';
+
+interface SliderSpec {
+  key: NumericKey;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const TONE_SLIDERS: SliderSpec[] = [
+  { key: 'blackPoint', label: 'Black Point', min: 0, max: 254, step: 1 },
+  { key: 'whitePoint', label: 'White Point', min: 1, max: 255, step: 1 },
+  { key: 'gamma', label: 'Gamma', min: 0.2, max: 3, step: 0.05 },
+  { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1 },
+  { key: 'posterize', label: 'Posterize', min: 0, max: 16, step: 1 },
+];
+
+const KEY_SLIDERS: SliderSpec[] = [
+  { key: 'tolerance', label: 'Tolerance', min: 0, max: 255, step: 1 },
+  { key: 'softness', label: 'Softness', min: 0, max: 128, step: 1 },
+];
+
+// Crop edges as insets, in percent of the image
+type CropEdge = 'left' | 'right' | 'top' | 'bottom';
+const CROP_EDGES: CropEdge[] = ['left', 'right', 'top', 'bottom'];
+
+const PreprocessPanel: React.FC<PreprocessPanelProps> = ({ imageSrc, options, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState<ImageBitmap | VectorSource | null>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  // Decoded once per image; each option change only redraws the thumbnail
+  useEffect(() => {
+    if (!isOpen || !imageSrc) return;
+    let cancelled = false;
+    let loaded: ImageBitmap | null = null;
+    loadLayerSource(imageSrc)
+      .then((result) => {
+        if (isVectorSource(result)) {
+          if (!cancelled) setSource(result);
+          return;
+        }
+        if (cancelled) {
+          result.close();
+          return;
+        }
+        loaded = result;
+        setSource(result);
+      })
+      .catch((e) => console.error('Preview image failed to load:', e));
+    return () => {
+      cancelled = true;
+      loaded?.close();
+      setSource(null);
+    };
+  }, [isOpen, imageSrc]);
+
+  useEffect(() => {
+    const preview = previewRef.current;
+    if (!preview || !source) return;
+    const processed = preprocessImage(source, options, PREVIEW_SIZE);
+    if (!processed) return;
+    preview.width = processed.width;
+    preview.height = processed.height;
+    const ctx = preview.getContext('2d');
+    ctx?.clearRect(0, 0, preview.width, preview.height);
+    ctx?.drawImage(processed, 0, 0);
+  }, [source, options]);
+
+  const set = <K extends keyof PreprocessOptions>(key: K, value: PreprocessOptions[K]) => onChange({ ...options, [key]: value });
+
+  const { crop } = options;
+  const insets: Record<CropEdge, number> = {
+    left: crop.x,
+    right: 1 - crop.x - crop.width,
+    top: crop.y,
+    bottom: 1 - crop.y - crop.height,
+  };
+
+  // Opposite insets always leave at least 5% of the image
+  const setInset = (edge: CropEdge, value: number) => {
+    const next = { ...insets, [edge]: value };
+    const opposite: CropEdge = { left: 'right', right: 'left', top: 'bottom', bottom: 'top' }[edge] as CropEdge;
+    next[edge] = Math.min(value, 0.95 - next[opposite]);
+    set('crop', { x: next.left, y: next.top, width: 1 - next.left - next.right, height: 1 - next.top - next.bottom });
+  };
+
+  const renderSlider = ({ key, label, min, max, step }: SliderSpec) => (
+    <div key={key}>
+      <div className="flex justify-between text-xs text-neutral-500 mt-1">
+        <span>{label}</span>
+        <span className="font-mono">{key === 'posterize' && options.posterize < 2 ? 'Off' : step < 1 ? options[key].toFixed(2) : options[key]}</span>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={options[key]}
+        onChange={(e) => set(key, Number(e.target.value))}
+        className="w-full accent-purple-500"
+      />
+    </div>
+  );
+
+  return (
+    <div className="mb-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center justify-between w-full text-sm font-medium text-neutral-400 mb-2 hover:text-white"
+      >
+        <span>Image Preprocessing{isIdentityPreprocess(options) ? '' : ' •'}</span>
+        <span className="text-xs">{isOpen ? '▾' : '▸'}</span>
+      </button>
+
+      {isOpen && (
+        <div>
+          {/* Checkerboard shows what background removal made transparent */}
+          <div
+            className="flex items-center justify-center h-40 rounded-lg border border-neutral-700 mb-2 overflow-hidden"
+            style={{ background: 'repeating-conic-gradient(#262626 0% 25%, #171717 0% 50%) 50% / 16px 16px' }}
+          >
+            {source ? (
+              <canvas ref={previewRef} className="max-w-full max-h-full" />
+            ) : (
+              <span className="text-xs text-neutral-600">{imageSrc ? 'Loading preview...' : 'No image'}</span>
+            )}
+          </div>
+
+          <select
+            value={options.background}
+            onChange={(e) => set('background', e.target.value as BackgroundRemoval)}
+            className="w-full bg-black/50 border border-neutral-700 rounded-lg p-2 text-xs text-white focus:outline-none focus:border-purple-500"
+          >
+            {(Object.keys(BACKGROUND_LABELS) as BackgroundRemoval[]).map((mode) => (
+              <option key={mode} value={mode}>{BACKGROUND_LABELS[mode]}</option>
+            ))}
+          </select>
+          {options.background === 'colorKey' && (
+            <label className="flex items-center justify-between text-xs text-neutral-500 mt-2">
+              <span>Key Color</span>
+              <input
+                type="color"
+                value={options.keyColor}
+                onChange={(e) => set('keyColor', e.target.value)}
+                className="w-8 h-6 bg-transparent border border-neutral-700 rounded cursor-pointer"
+              />
+            </label>
+          )}
+          {options.background !== 'none' && KEY_SLIDERS.map(renderSlider)}
+
+          <div className="text-[10px] uppercase tracking-widest text-neutral-600 mt-3 mb-1">Tone</div>
+          {TONE_SLIDERS.map(renderSlider)}
+
+          <div className="flex gap-4 mt-2">
+            <label className="flex items-center gap-2 text-xs text-neutral-400 cursor-pointer">
+              <input type="checkbox" checked={options.edges} onChange={(e) => set('edges', e.target.checked)} className="accent-purple-500" />
+              Edges
+            </label>
+            <label className="flex items-center gap-2 text-xs text-neutral-400 cursor-pointer">
+              <input type="checkbox" checked={options.invert} onChange={(e) => set('invert', e.target.checked)} className="accent-purple-500" />
+              Invert
+            </label>
+          </div>
+
+          <div className="text-[10px] uppercase tracking-widest text-neutral-600 mt-3 mb-1">Crop</div>
+          <div className="grid grid-cols-2 gap-x-3">
+            {CROP_EDGES.map((edge) => (
+              <div key={edge}>
+                <div className="flex justify-between text-xs text-neutral-500">
+                  <span className="capitalize">{edge}</span>
+                  <span className="font-mono">{Math.round(insets[edge] * 100)}%</span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={0.9}
+                  step={0.01}
+                  value={insets[edge]}
+                  onChange={(e) => setInset(edge, Number(e.target.value))}
+                  className="w-full accent-purple-500"
+                />
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={() => onChange(DEFAULT_PREPROCESS_OPTIONS)}
+            disabled={isIdentityPreprocess(options)}
+            className="w-full mt-3 py-1 rounded-md text-xs bg-neutral-800 text-neutral-300 hover:bg-neutral-700 disabled:opacity-50"
+          >
+            Reset
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PreprocessPanel;
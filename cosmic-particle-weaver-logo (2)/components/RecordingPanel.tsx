@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import { ParticleCanvasHandle } from '../types';
+import { DEFAULT_OFFLINE_FPS, OfflineFormat } from '../services/recording';
+import { downloadBlob, fileTimestamp } from '../services/download';
+
+export type RecordingActions = Pick<ParticleCanvasHandle, 'startRecording' | 'stopRecording' | 'renderOffline'>;
+
+interface RecordingPanelProps {
+  actions: RecordingActions;
+  // Page background, baked into GIF frames
+  background: string;
+}
+
+// 0 records until stopped
+const MAX_DURATIONS = [0, 5, 10, 30];
+const OFFLINE_WIDTHS = [480, 720, 1080, 0];
+
+const FORMAT_LABELS: Record<OfflineFormat, string> = {
+  gif: 'Animated GIF',
+  'png-zip': 'PNG Sequence (zip)',
+};
+
+const FORMAT_EXTENSIONS: Record<OfflineFormat, string> = {
+  gif: 'gif',
+  'png-zip': 'zip',
+};
+
+const selectClass = 'w-full bg-black/50 border border-neutral-700 rounded-lg p-2 text-xs text-white focus:outline-none focus:border-purple-500';
+
+const RecordingPanel: React.FC<RecordingPanelProps> = ({ actions, background }) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [maxDuration, setMaxDuration] = useState(10);
+  const [format, setFormat] = useState<OfflineFormat>('gif');
+  const [seconds, setSeconds] = useState(4);
+  const [width, setWidth] = useState(480);
+  const [restart, setRestart] = useState(true);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleRecord = async () => {
+    if (isRecording) {
+      actions.stopRecording();
+      return;
+    }
+    setError(null);
+    setIsRecording(true);
+    try {
+      const blob = await actions.startRecording({ maxDurationMs: maxDuration > 0 ? maxDuration * 1000 : undefined });
+      downloadBlob(blob, `particle-universe-${fileTimestamp()}.webm`);
+    } catch (e) {
+      console.error('Recording failed:', e);
+      setError(e instanceof Error ? e.message : 'Recording failed');
+    } finally {
+      setIsRecording(false);
+    }
+  };
+
+  const handleRender = async () => {
+    if (abortRef.current) {
+      abortRef.current.abort();
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      const blob = await actions.renderOffline({
+        format,
+        durationMs: seconds * 1000,
+        fps: DEFAULT_OFFLINE_FPS,
+        width: width > 0 ? width : undefined,
+        background: format === 'gif' ? background : undefined,
+        restart,
+        onProgress: (done, total) => setProgress(done / total),
+        signal: controller.signal,
+      });
+      downloadBlob(blob, `particle-universe-${fileTimestamp()}.${FORMAT_EXTENSIONS[format]}`);
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        console.error('Offline render failed:', e);
+        setError(e instanceof Error ? e.message : 'Render failed');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-medium text-neutral-400 mb-2">
+        Recording
+      </label>
+
+      <div className="flex gap-1 mb-3">
+        <select
+          value={maxDuration}
+          onChange={(e) => setMaxDuration(Number(e.target.value))}
+          disabled={isRecording}
+          className={selectClass}
+        >
+          {MAX_DURATIONS.map((value) => (
+            <option key={value} value={value}>{value > 0 ? `Stop after ${value}s` : 'Until stopped'}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleRecord}
+          className={`shrink-0 px-3 rounded-md text-xs ${isRecording ? 'bg-red-600 text-white hover:bg-red-500' : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'}`}
+        >
+          {isRecording ? '■ Stop' : '● WebM'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-1 mb-1">
+        <select value={format} onChange={(e) => setFormat(e.target.value as OfflineFormat)} disabled={progress !== null} className={selectClass}>
+          {(Object.keys(FORMAT_LABELS) as OfflineFormat[]).map((key) => (
+            <option key={key} value={key}>{FORMAT_LABELS[key]}</option>
+          ))}
+        </select>
+        <select value={width} onChange={(e) => setWidth(Number(e.target.value))} disabled={progress !== null} className={selectClass}>
+          {OFFLINE_WIDTHS.map((value) => (
+            <option key={value} value={value}>{value > 0 ? `${value}px wide` : 'Full size'}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex justify-between text-xs text-neutral-500 mt-1">
+        <span>Length</span>
+        <span className="font-mono">{seconds}s @ {DEFAULT_OFFLINE_FPS}fps</span>
+      </div>
+      <input
+        type="range"
+        min={1}
+        max={20}
+        step={1}
+        value={seconds}
+        onChange={(e) => setSeconds(Number(e.target.value))}
+        disabled={progress !== null}
+        className="w-full accent-purple-500"
+      />
+      <label className="flex items-center gap-2 text-xs text-neutral-400 cursor-pointer mb-2">
+        <input type="checkbox" checked={restart} onChange={(e) => setRestart(e.target.checked)} className="accent-purple-500" />
+        Start from a fresh spawn
+      </label>
+      <button
+        onClick={handleRender}
+        className="w-full py-1 rounded-md text-xs bg-neutral-800 text-neutral-300 hover:bg-neutral-700"
+      >
+        {progress === null ? 'Render Offline' : `Cancel (${Math.round(progress * 100)}%)`}
+      </button>
+      {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default RecordingPanel;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { BackgroundStyle, parseScene, Scene, sceneToLink, serializeScene } from '../services/scene';
+import { downloadBlob, fileTimestamp } from '../services/download';
+
+interface ScenePanelProps {
+  scene: Scene;
+  onSceneLoad: (scene: Scene) => void;
+  background: BackgroundStyle;
+  onBackgroundChange: (background: BackgroundStyle) => void;
+}
+
+const ScenePanel: React.FC<ScenePanelProps> = ({ scene, onSceneLoad, background, onBackgroundChange }) => {
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const handleExport = () => {
+    const blob = new Blob([serializeScene(scene)], { type: 'application/json' });
+    downloadBlob(blob, `particle-scene-${fileTimestamp()}.json`);
+  };
+
+  const handleCopyLink = async () => {
+    const { url, imageOmitted } = sceneToLink(scene, window.location.href);
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage({
+        text: imageOmitted ? 'Link copied. The uploaded image is too large for a link; export a file to include it.' : 'Link copied.',
+        error: false,
+      });
+    } catch (e) {
+      console.error('Clipboard write failed:', e);
+      setMessage({ text: 'Could not access the clipboard.', error: true });
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      onSceneLoad(parseScene(await file.text()));
+      setMessage(null);
+    } catch (e) {
+      console.error('Scene import failed:', e);
+      setMessage({ text: e instanceof Error ? e.message : 'Import failed', error: true });
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-medium text-neutral-400 mb-2">
+        Scene
+      </label>
+      <div className="flex items-center gap-3 text-xs text-neutral-400 mb-2">
+        <input
+          type="color"
+          value={background.color}
+          onChange={(e) => onBackgroundChange({ ...background, color: e.target.value })}
+          className="w-8 h-8 rounded border border-neutral-600 bg-transparent cursor-pointer"
+          title="Background color"
+        />
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={background.vignette}
+            onChange={(e) => onBackgroundChange({ ...background, vignette: e.target.checked })}
+            className="accent-purple-500"
+          />
+          Vignette
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={background.grid}
+            onChange={(e) => onBackgroundChange({ ...background, grid: e.target.checked })}
+            className="accent-purple-500"
+          />
+          Grid
+        </label>
+      </div>
+      <div className="flex gap-1">
+        <button onClick={handleExport} className="flex-1 py-1 rounded-md text-xs bg-neutral-800 text-neutral-300 hover:bg-neutral-700">
+          Export
+        </button>
+        <button onClick={handleCopyLink} className="flex-1 py-1 rounded-md text-xs bg-neutral-800 text-neutral-300 hover:bg-neutral-700">
+          Copy Link
+        </button>
+        <label className="flex-1 py-1 rounded-md text-xs text-center bg-neutral-800 text-neutral-300 hover:bg-neutral-700 cursor-pointer">
+          Import
+          <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </label>
+      </div>
+      {message && <p className={`text-xs mt-2 ${message.error ? 'text-red-400' : 'text-neutral-500'}`}>{message.text}</p>}
+    </div>
+  );
+};
+
+export default ScenePanel;
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { SettingsControls } from '../hooks/useSettings';
+import {
+  exportPreset,
+  getSetting,
+  RangeSetting,
+  SETTINGS_GROUP_LABELS,
+  SETTINGS_SCHEMA,
+  SettingsGroup,
+  updateSetting,
+} from '../services/settings';
+import { downloadBlob } from '../services/download';
+
+interface SettingsPanelProps {
+  controls: SettingsControls;
+}
+
+const CUSTOM = '';
+
+// Enough decimals to show the slider step
+const formatValue = (descriptor: RangeSetting, value: number) => {
+  const decimals = descriptor.step >= 1 ? 0 : Math.min(3, Math.ceil(-Math.log10(descriptor.step)));
+  return value.toFixed(decimals);
+};
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ controls }) => {
+  const { settings, setSettings, presetNames, isBuiltInPreset, applyPreset, savePreset, deletePreset, importPresetJson } = controls;
+  const [isOpen, setIsOpen] = useState(false);
+  const [preset, setPreset] = useState(CUSTOM);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const groups = Object.keys(SETTINGS_GROUP_LABELS) as SettingsGroup[];
+
+  const handlePresetChange = (name: string) => {
+    setPreset(name);
+    if (name !== CUSTOM) applyPreset(name);
+  };
+
+  const handleSave = () => {
+    const name = window.prompt('Preset name', preset && !isBuiltInPreset(preset) ? preset : '')?.trim();
+    if (!name) return;
+    if (isBuiltInPreset(name)) {
+      alert(`"${name}" is a built-in preset. Choose another name.`);
+      return;
+    }
+    savePreset(name);
+    setPreset(name);
+  };
+
+  const handleExport = () => {
+    const name = preset || 'custom';
+    downloadBlob(new Blob([exportPreset(name, settings)], { type: 'application/json' }), `particle-preset-${name}.json`);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const name = importPresetJson(await file.text(), file.name.replace(/\.json$/i, ''));
+      setPreset(name);
+      setImportError(null);
+    } catch (e) {
+      console.error('Preset import failed:', e);
+      setImportError(e instanceof Error ? e.message : 'Import failed');
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center justify-between w-full text-sm font-medium text-neutral-400 mb-2 hover:text-white"
+      >
+        <span>Settings</span>
+        <span className="text-xs">{isOpen ? '▾' : '▸'}</span>
+      </button>
+
+      <div className="flex gap-1">
+        <select
+          value={preset}
+          onChange={(e) => handlePresetChange(e.target.value)}
+          className="flex-1 min-w-0 bg-black/50 border border-neutral-700 rounded-lg p-2 text-xs text-white focus:outline-none focus:border-purple-500"
+        >
+          <option value={CUSTOM}>Custom</option>
+          {presetNames.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <button onClick={handleSave} className="px-2 rounded-md text-xs bg-neutral-800 text-neutral-300 hover:bg-neutral-700">
+          Save
+        </button>
+        {preset !== CUSTOM && !isBuiltInPreset(preset) && (
+          <button
+            onClick={() => {
+              deletePreset(preset);
+              setPreset(CUSTOM);
+            }}
+            className="px-2 rounded-md text-xs bg-neutral-800 text-neutral-400 hover:text-red-400"
+            title="Delete preset"
+          >
+            ✕
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="mt-3">
+          {groups.map((group) => (
+            <div key={group} className="mb-3">
+              <div className="text-[10px] uppercase tracking-widest text-neutral-600 mb-1">{SETTINGS_GROUP_LABELS[group]}</div>
+              {SETTINGS_SCHEMA.filter((descriptor) => descriptor.group === group).map((descriptor) => {
+                const value = getSetting(settings, descriptor);
+                const change = (next: number | boolean) => {
+                  setPreset(CUSTOM);
+                  setSettings(updateSetting(settings, descriptor, next));
+                };
+                if (descriptor.type === 'toggle') {
+                  return (
+                    <label key={descriptor.key} className="flex items-center gap-2 text-xs text-neutral-400 cursor-pointer mb-1">
+                      <input
+                        type="checkbox"
+                        checked={value as boolean}
+                        onChange={(e) => change(e.target.checked)}
+                        className="accent-purple-500"
+                      />
+                      {descriptor.label}
+                    </label>
+                  );
+                }
+                return (
+                  <div key={descriptor.key}>
+                    <div className="flex justify-between text-xs text-neutral-500 mt-1">
+                      <span>{descriptor.label}</span>
+                      <span className="font-mono">{formatValue(descriptor, value as number)}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min={descriptor.min}
+                      max={descriptor.max}
+                      step={descriptor.step}
+                      value={value as number}
+                      onChange={(e) => change(Number(e.target.value))}
+                      className="w-full accent-purple-500"
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+
+          <div className="flex gap-1">
+            <button onClick={handleExport} className="flex-1 py-1 rounded-md text-xs bg-neutral-800 text-neutral-300 hover:bg-neutral-700">
+              Export JSON
+            </button>
+            <label className="flex-1 py-1 rounded-md text-xs text-center bg-neutral-800 text-neutral-300 hover:bg-neutral-700 cursor-pointer">
+              Import JSON
+              <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+            </label>
+          </div>
+          {importError && <p className="text-red-400 text-xs mt-2">{importError}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { SnapshotFormat, SnapshotOptions } from '../engine/particleEngine';
+import { BackgroundStyle } from '../services/scene';
+
+interface SnapshotPanelProps {
+  onSnapshot: (options: Partial<SnapshotOptions>) => Promise<void>;
+  // Painted behind the particles when the background is composited
+  background: BackgroundStyle;
+}
+
+const FORMAT_LABELS: Record<SnapshotFormat, string> = {
+  png: 'PNG',
+  jpeg: 'JPEG',
+  webp: 'WebP',
+  svg: 'SVG',
+};
+
+const SCALE_PRESETS = [1, 2, 4];
+
+const SnapshotPanel: React.FC<SnapshotPanelProps> = ({ onSnapshot, background }) => {
+  const [format, setFormat] = useState<SnapshotFormat>('png');
+  // The engine canvas always fills the window
+  const [width, setWidth] = useState(() => window.innerWidth);
+  const [composited, setComposited] = useState(true);
+  const [sphere, setSphere] = useState(true);
+  const [quality, setQuality] = useState(0.92);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const scale = width / window.innerWidth;
+  const lossy = format === 'jpeg' || format === 'webp';
+
+  const handleSnapshot = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onSnapshot({
+        format,
+        scale,
+        backdrop: composited ? background : undefined,
+        sphere,
+        quality: lossy ? quality : undefined,
+      });
+    } catch (e) {
+      console.error('Snapshot failed:', e);
+      setError(e instanceof Error ? e.message : 'Snapshot failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <button
+        onClick={handleSnapshot}
+        disabled={busy}
+        className="w-full flex items-center justify-center gap-2 py-2 px-4 bg-neutral-800 hover:bg-neutral-700 border border-neutral-600 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M23 19a2 2 0 0 1-2 2H3a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h4l2-3h6l2 3h4a2 2 0 0 1 2 2z"></path><circle cx="12" cy="13" r="4"></circle></svg>
+        {busy ? 'Rendering...' : 'Take Snapshot'}
+      </button>
+
+      <div className="grid grid-cols-4 gap-1 mt-2">
+        {(Object.keys(FORMAT_LABELS) as SnapshotFormat[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setFormat(key)}
+            className={`py-1 rounded-md text-xs ${format === key ? 'bg-purple-600 text-white' : 'bg-neutral-800 text-neutral-400 hover:bg-neutral-700'}`}
+          >
+            {FORMAT_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-1 mt-2">
+        <input
+          type="number"
+          min={1}
+          max={16384}
+          value={width}
+          onChange={(e) => setWidth(Math.max(1, Number(e.target.value) || 1))}
+          className="w-20 bg-black/50 border border-neutral-700 rounded-lg p-1 text-xs text-white focus:outline-none focus:border-purple-500"
+          title="Output width in pixels"
+        />
+        <span className="text-xs text-neutral-500 font-mono">× {Math.round(window.innerHeight * scale)}</span>
+        <div className="flex gap-1 ml-auto">
+          {SCALE_PRESETS.map((preset) => (
+            <button
+              key={preset}
+              onClick={() => setWidth(window.innerWidth * preset)}
+              className={`px-2 py-1 rounded-md text-xs ${width === window.innerWidth * preset ? 'bg-purple-600 text-white' : 'bg-neutral-800 text-neutral-400 hover:bg-neutral-700'}`}
+            >
+              {preset}x
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-3 mt-2 text-xs text-neutral-400">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={composited} onChange={(e) => setComposited(e.target.checked)} className="accent-purple-500" />
+          Background
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input type="checkbox" checked={sphere} onChange={(e) => setSphere(e.target.checked)} className="accent-purple-500" />
+          Universe sphere
+        </label>
+      </div>
+      {!composited && format === 'jpeg' && (
+        <p className="text-xs text-neutral-500 mt-1">JPEG has no transparency; the background comes out black.</p>
+      )}
+
+      {lossy && (
+        <>
+          <div className="flex justify-between text-xs text-neutral-500 mt-2">
+            <span>Quality</span>
+            <span className="font-mono">{Math.round(quality * 100)}%</span>
+          </div>
+          <input
+            type="range"
+            min={0.1}
+            max={1}
+            step={0.01}
+            value={quality}
+            onChange={(e) => setQuality(Number(e.target.value))}
+            className="w-full accent-purple-500"
+          />
+        </>
+      )}
+      {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default SnapshotPanel;
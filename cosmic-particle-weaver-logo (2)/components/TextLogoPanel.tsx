@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { DEFAULT_TEXT_LOGO, FONT_FAMILIES, FONT_WEIGHTS, TextLogoOptions } from '../services/textLogo';
+
+interface TextLogoPanelProps {
+  // Text logo currently on screen, if any
+  value: TextLogoOptions | null;
+  onApply: (options: TextLogoOptions) => void;
+}
+
+const selectClass = 'flex-1 min-w-0 bg-black/50 border border-neutral-700 rounded-lg p-2 text-xs text-white focus:outline-none focus:border-purple-500';
+
+const TextLogoPanel: React.FC<TextLogoPanelProps> = ({ value, onApply }) => {
+  const [draft, setDraft] = useState<TextLogoOptions>(value ?? DEFAULT_TEXT_LOGO);
+
+  // A loaded scene replaces what is being edited
+  useEffect(() => {
+    if (value) setDraft(value);
+  }, [value]);
+
+  const set = <K extends keyof TextLogoOptions>(key: K, next: TextLogoOptions[K]) => setDraft({ ...draft, [key]: next });
+
+  const apply = () => {
+    if (draft.text.trim()) onApply(draft);
+  };
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-medium text-neutral-400 mb-2">
+        Text Logo
+      </label>
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={draft.text}
+          onChange={(e) => set('text', e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && apply()}
+          className="flex-1 min-w-0 bg-black/50 border border-neutral-700 rounded-lg p-2 text-sm text-white focus:outline-none focus:border-purple-500"
+          placeholder="Type a name or slogan"
+        />
+        <input
+          type="color"
+          value={draft.color}
+          onChange={(e) => set('color', e.target.value)}
+          className="w-9 h-auto bg-transparent border border-neutral-700 rounded cursor-pointer"
+          title="Text color"
+        />
+      </div>
+      <div className="flex gap-1 mt-2">
+        <select value={draft.fontFamily} onChange={(e) => set('fontFamily', e.target.value)} className={selectClass} title="Font">
+          {FONT_FAMILIES.map((font) => (
+            <option key={font.css} value={font.css}>{font.label}</option>
+          ))}
+        </select>
+        <select value={draft.fontWeight} onChange={(e) => set('fontWeight', Number(e.target.value))} className={selectClass} title="Weight">
+          {FONT_WEIGHTS.map((weight) => (
+            <option key={weight} value={weight}>{weight}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex justify-between text-xs text-neutral-500 mt-3 mb-1">
+        <span>Letter Spacing</span>
+        <span className="font-mono">{draft.letterSpacing.toFixed(2)}em</span>
+      </div>
+      <input
+        type="range"
+        min={-0.1}
+        max={1}
+        step={0.01}
+        value={draft.letterSpacing}
+        onChange={(e) => set('letterSpacing', Number(e.target.value))}
+        className="w-full accent-purple-500"
+      />
+      <div className="flex justify-between text-xs text-neutral-500 mt-1 mb-1">
+        <span>Curve</span>
+        <span className="font-mono">{draft.curve === 0 ? 'Straight' : draft.curve > 0 ? `Smile ${Math.round(draft.curve * 180)}°` : `Arch ${Math.round(-draft.curve * 180)}°`}</span>
+      </div>
+      <input
+        type="range"
+        min={-1}
+        max={1}
+        step={0.05}
+        value={draft.curve}
+        onChange={(e) => set('curve', Number(e.target.value))}
+        className="w-full accent-purple-500"
+      />
+      <button
+        onClick={apply}
+        disabled={!draft.text.trim()}
+        className="w-full mt-2 py-2 rounded-lg text-xs font-medium bg-neutral-800 hover:bg-neutral-700 border border-neutral-600 transition-colors disabled:opacity-50"
+      >
+        Weave Text
+      </button>
+    </div>
+  );
+};
+
+export default TextLogoPanel;
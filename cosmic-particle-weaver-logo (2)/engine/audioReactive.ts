@@ -0,0 +1,63 @@
+import { packRgba, ParticleKind, ParticleStore, unpackRgba } from './particleStore';
+
+export type AudioFeature = 'volume' | 'bass' | 'mid' | 'treble';
+
+// One analysis frame; every level is 0..1
+export interface AudioLevels {
+  volume: number;
+  bass: number;
+  mid: number;
+  treble: number;
+  // Set on the frame a beat onset was detected
+  beat: boolean;
+}
+
+export const SILENT_AUDIO: AudioLevels = { volume: 0, bass: 0, mid: 0, treble: 0, beat: false };
+
+export const AUDIO_FEATURE_LABELS: Record<AudioFeature, string> = {
+  volume: 'Volume',
+  bass: 'Bass',
+  mid: 'Mid',
+  treble: 'Treble',
+};
+
+// Which level drives a parameter, and how far it moves it at full level; 0 turns it off
+export interface AudioBinding {
+  feature: AudioFeature;
+  amount: number;
+}
+
+export interface AudioMapping {
+  // Extra scale of every particle's home around the center
+  displacement: AudioBinding;
+  // Stars dim by `amount` in silence and brighten by as much at full level
+  starBrightness: AudioBinding;
+  // Extra share of the interaction radius
+  interactionRadius: AudioBinding;
+  // Strength of the shockwave fired from the center on each beat; 0 turns it off
+  beatShockwave: number;
+}
+
+export const DEFAULT_AUDIO_MAPPING: AudioMapping = {
+  displacement: { feature: 'bass', amount: 0.15 },
+  starBrightness: { feature: 'treble', amount: 0.8 },
+  interactionRadius: { feature: 'volume', amount: 0.5 },
+  beatShockwave: 3,
+};
+
+export const audioLevel = (levels: AudioLevels, binding: AudioBinding) => levels[binding.feature] * binding.amount;
+
+// Rescales star colors from their generated color; 1 restores them
+export const applyStarBrightness = (store: ParticleStore, brightness: number) => {
+  const { kind, color, sourceColor } = store;
+  for (let i = 0; i < store.count; i++) {
+    if (kind[i] !== ParticleKind.STAR) continue;
+    const [r, g, b, a] = unpackRgba(sourceColor[i]);
+    color[i] = packRgba(
+      Math.min(255, Math.round(r * brightness)),
+      Math.min(255, Math.round(g * brightness)),
+      Math.min(255, Math.round(b * brightness)),
+      a
+    );
+  }
+};
@@ -0,0 +1,86 @@
+import { ScratchContext } from './canvasUtils';
+
+// Page decoration behind the canvas. On screen these are CSS layers in App.tsx;
+// exports paint the same thing so the image matches what's on screen.
+export interface Backdrop {
+  // Page color behind the universe sphere
+  color: string;
+  // Radial light falloff towards the edges
+  vignette: boolean;
+  // Faint dot grid
+  grid: boolean;
+}
+
+// radial-gradient(circle at center, #1a1a1a, #000) at 80% opacity
+const VIGNETTE_INNER = '#1a1a1a';
+const VIGNETTE_OUTER = '#000000';
+const VIGNETTE_OPACITY = 0.8;
+
+// Two tiled dot layers (50px at 0,0 and 20px at 25,25), white at 5% opacity
+const GRID_LAYERS = [
+  { spacing: 50, offset: 25 },
+  { spacing: 20, offset: 15 },
+];
+const GRID_OPACITY = 0.05;
+const GRID_DOT_RADIUS = 1;
+
+// CSS circles default to reaching the farthest corner
+const vignetteRadius = (width: number, height: number) => Math.hypot(width / 2, height / 2);
+
+// Dot centers of every grid layer, in layout pixels
+const gridDots = (width: number, height: number) => {
+  const dots: [number, number][] = [];
+  GRID_LAYERS.forEach(({ spacing, offset }) => {
+    for (let y = offset; y < height; y += spacing) {
+      for (let x = offset; x < width; x += spacing) dots.push([x, y]);
+    }
+  });
+  return dots;
+};
+
+// `width` and `height` are layout pixels; the context is expected to be scaled already
+export const drawBackdrop = (ctx: ScratchContext, width: number, height: number, backdrop: Backdrop) => {
+  ctx.fillStyle = backdrop.color;
+  ctx.fillRect(0, 0, width, height);
+
+  if (backdrop.vignette) {
+    const gradient = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, vignetteRadius(width, height));
+    gradient.addColorStop(0, VIGNETTE_INNER);
+    gradient.addColorStop(1, VIGNETTE_OUTER);
+    ctx.globalAlpha = VIGNETTE_OPACITY;
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  if (backdrop.grid) {
+    ctx.globalAlpha = GRID_OPACITY;
+    ctx.fillStyle = '#ffffff';
+    ctx.beginPath();
+    gridDots(width, height).forEach(([x, y]) => {
+      ctx.moveTo(x + GRID_DOT_RADIUS, y);
+      ctx.arc(x, y, GRID_DOT_RADIUS, 0, Math.PI * 2);
+    });
+    ctx.fill();
+  }
+  ctx.globalAlpha = 1;
+};
+
+// The color comes from user-editable scene files
+const escapeAttribute = (value: string) => value.replace(/[&<>"]/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// SVG elements for the same layers, in layout pixels
+export const backdropToSvg = (width: number, height: number, backdrop: Backdrop): string => {
+  const parts = [`<rect width="${width}" height="${height}" fill="${escapeAttribute(backdrop.color)}"/>`];
+  if (backdrop.vignette) {
+    parts.push(
+      `<defs><radialGradient id="vignette" gradientUnits="userSpaceOnUse" cx="${width / 2}" cy="${height / 2}" r="${vignetteRadius(width, height)}">` +
+        `<stop offset="0" stop-color="${VIGNETTE_INNER}"/><stop offset="1" stop-color="${VIGNETTE_OUTER}"/></radialGradient></defs>`,
+      `<rect width="${width}" height="${height}" fill="url(#vignette)" opacity="${VIGNETTE_OPACITY}"/>`
+    );
+  }
+  if (backdrop.grid) {
+    const dots = gridDots(width, height).map(([x, y]) => `<circle cx="${x}" cy="${y}" r="${GRID_DOT_RADIUS}"/>`);
+    parts.push(`<g fill="#ffffff" opacity="${GRID_OPACITY}">${dots.join('')}</g>`);
+  }
+  return parts.join('\n');
+};
@@ -0,0 +1,26 @@
+export type ScratchCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type ScratchContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Anything the engine can draw from, on either thread
+export type EngineImage = ImageBitmap | HTMLImageElement | HTMLCanvasElement | OffscreenCanvas;
+
+// Off-DOM canvas that works both on the main thread and inside a worker
+export const createScratchCanvas = (width: number, height: number): ScratchCanvas => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+export const getScratchContext = (canvas: ScratchCanvas) =>
+  canvas.getContext('2d', { willReadFrequently: true }) as ScratchContext | null;
+
+export const canvasToBlob = (canvas: ScratchCanvas, type = 'image/png', quality?: number): Promise<Blob | null> => {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality }).catch(() => null);
+  }
+  return new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+};
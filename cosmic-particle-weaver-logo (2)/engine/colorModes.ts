@@ -0,0 +1,64 @@
+import { packRgba, parseCssColor, unpackRgba } from './particleStore';
+
+// How image particles are colored from the pixel they were sampled from
+export type ColorMode =
+  // The sampled pixel color itself
+  | { kind: 'source' }
+  // Every image particle in one flat color
+  | { kind: 'mono'; tint: string }
+  // Luminance mapped onto evenly spaced color stops, darkest first
+  | { kind: 'gradient'; stops: string[] }
+  // Luminance blended between a shadow and a highlight color
+  | { kind: 'duotone'; shadow: string; highlight: string };
+
+export type ColorModeKind = ColorMode['kind'];
+
+export const DEFAULT_COLOR_MODE: ColorMode = { kind: 'source' };
+
+// Starting values used when switching kinds in the UI
+export const COLOR_MODE_PRESETS: Record<ColorModeKind, ColorMode> = {
+  source: { kind: 'source' },
+  mono: { kind: 'mono', tint: '#ffffff' },
+  gradient: { kind: 'gradient', stops: ['#1e1b4b', '#7c3aed', '#f472b6', '#fde68a'] },
+  duotone: { kind: 'duotone', shadow: '#0f172a', highlight: '#22d3ee' },
+};
+
+export type ColorMapper = (r: number, g: number, b: number) => number;
+
+const luminance = (r: number, g: number, b: number) => (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+
+const mix = (from: number[], to: number[], t: number) =>
+  packRgba(
+    Math.round(from[0] + (to[0] - from[0]) * t),
+    Math.round(from[1] + (to[1] - from[1]) * t),
+    Math.round(from[2] + (to[2] - from[2]) * t)
+  );
+
+export const createColorMapper = (mode: ColorMode): ColorMapper => {
+  switch (mode.kind) {
+    case 'mono': {
+      const tint = parseCssColor(mode.tint);
+      return () => tint;
+    }
+    case 'gradient': {
+      const stops = (mode.stops.length > 0 ? mode.stops : ['#ffffff']).map((stop) => unpackRgba(parseCssColor(stop)));
+      if (stops.length === 1) {
+        const only = packRgba(stops[0][0], stops[0][1], stops[0][2]);
+        return () => only;
+      }
+      return (r, g, b) => {
+        const position = luminance(r, g, b) * (stops.length - 1);
+        const index = Math.min(Math.floor(position), stops.length - 2);
+        return mix(stops[index], stops[index + 1], position - index);
+      };
+    }
+    case 'duotone': {
+      const shadow = unpackRgba(parseCssColor(mode.shadow));
+      const highlight = unpackRgba(parseCssColor(mode.highlight));
+      return (r, g, b) => mix(shadow, highlight, luminance(r, g, b));
+    }
+    case 'source':
+    default:
+      return (r, g, b) => packRgba(r, g, b);
+  }
+};
@@ -0,0 +1,28 @@
+export type EasingName =
+  | 'linear'
+  | 'easeInQuad'
+  | 'easeOutQuad'
+  | 'easeInOutQuad'
+  | 'easeInOutCubic'
+  | 'easeInOutSine'
+  | 'easeOutBack';
+
+export type EasingFunction = (t: number) => number;
+
+export const EASINGS: Record<EasingName, EasingFunction> = {
+  linear: (t) => t,
+  easeInQuad: (t) => t * t,
+  easeOutQuad: (t) => t * (2 - t),
+  easeInOutQuad: (t) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+  easeInOutCubic: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeInOutSine: (t) => -(Math.cos(Math.PI * t) - 1) / 2,
+  // Overshoots slightly before settling
+  easeOutBack: (t) => {
+    const c1 = 1.70158;
+    const c3 = c1 + 1;
+    return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+  },
+};
+
+export const ease = (name: EasingName, t: number) =>
+  (EASINGS[name] ?? EASINGS.linear)(Math.min(1, Math.max(0, t)));
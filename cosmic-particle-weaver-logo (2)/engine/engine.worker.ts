@@ -0,0 +1,80 @@
+import { createParticleEngine, ParticleEngine } from './particleEngine';
+import { EngineRequest, EngineResponse } from './messages';
+
+let engine: ParticleEngine | null = null;
+// Resolvers for frames waiting on the main thread, by capture id
+const captureAcks = new Map<number, (proceed: boolean) => void>();
+
+const reply = (message: EngineResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+// Errors cross to the host as text
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+self.onmessage = async (event: MessageEvent<EngineRequest>) => {
+  const message = event.data;
+  try {
+    if (message.type === 'init') {
+      engine = createParticleEngine(message.canvas, message.width, message.height, message.options);
+      reply({ type: 'ready', renderer: engine.rendererKind });
+      return;
+    }
+    if (!engine) return;
+
+    switch (message.type) {
+      case 'resize':
+        engine.resize(message.width, message.height);
+        break;
+      case 'images':
+        engine.setImages(message.images);
+        break;
+      case 'pointers':
+        engine.setPointers(message.pointers);
+        break;
+      case 'pulse':
+        engine.pulse(message.x, message.y, message.options);
+        break;
+      case 'audio':
+        engine.setAudio(message.levels);
+        break;
+      case 'options':
+        engine.setOptions(message.options);
+        break;
+      case 'snapshot':
+        // Answered here rather than by the catch below, which would take the worker for broken
+        try {
+          reply({ type: 'snapshot', id: message.id, blob: await engine.snapshot(message.options) });
+        } catch (e) {
+          reply({ type: 'snapshot', id: message.id, blob: null, error: errorMessage(e) });
+        }
+        break;
+      case 'capture': {
+        const { id } = message;
+        // Not awaited, so acks and other messages keep flowing while it runs
+        engine
+          .capture(message.options, (frame) => new Promise<boolean>((resolve) => {
+            captureAcks.set(id, resolve);
+            reply({ type: 'captureFrame', id, frame }, frame.format === 'rgba' ? [frame.data.buffer] : []);
+          }))
+          .then(
+            () => reply({ type: 'captureDone', id }),
+            (e: unknown) => reply({ type: 'captureDone', id, error: errorMessage(e) })
+          );
+        break;
+      }
+      case 'captureAck':
+        captureAcks.get(message.id)?.(message.proceed);
+        captureAcks.delete(message.id);
+        break;
+      case 'dispose':
+        captureAcks.forEach((resolve) => resolve(false));
+        captureAcks.clear();
+        engine.dispose();
+        engine = null;
+        self.close();
+        break;
+    }
+  } catch (e) {
+    console.error('Particle engine worker error:', e);
+    reply({ type: 'error', message: errorMessage(e) });
+  }
+};
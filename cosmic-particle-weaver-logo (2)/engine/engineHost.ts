@@ -0,0 +1,151 @@
+import { CaptureFrameHandler, CaptureOptions, createParticleEngine, EngineOptions, SnapshotOptions } from './particleEngine';
+import { EngineRequest, EngineResponse } from './messages';
+import { Pointer } from './simulation';
+import { ShockwaveOptions } from './forces';
+import { LayerSource } from './vectorSource';
+import { AudioLevels } from './audioReactive';
+
+export type ExecutionMode = 'auto' | 'worker' | 'main';
+
+// Same surface whether the engine runs in a worker or on this thread
+export interface EngineHost {
+  readonly mode: Exclude<ExecutionMode, 'auto'>;
+  setImages: (images: LayerSource[]) => void;
+  resize: (width: number, height: number) => void;
+  setPointers: (pointers: Pointer[]) => void;
+  pulse: (x: number, y: number, options?: Partial<ShockwaveOptions>) => void;
+  setAudio: (levels: AudioLevels | null) => void;
+  setOptions: (options: Partial<EngineOptions>) => void;
+  snapshot: (options?: Partial<SnapshotOptions>) => Promise<Blob | null>;
+  capture: (options: CaptureOptions, onFrame: CaptureFrameHandler) => Promise<void>;
+  dispose: () => void;
+}
+
+export const canUseWorker = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+const createMainThreadHost = (canvas: HTMLCanvasElement, width: number, height: number, options: Partial<EngineOptions>): EngineHost => {
+  const engine = createParticleEngine(canvas, width, height, options);
+  return {
+    mode: 'main',
+    setImages: engine.setImages,
+    resize: engine.resize,
+    setPointers: engine.setPointers,
+    pulse: engine.pulse,
+    setAudio: engine.setAudio,
+    setOptions: engine.setOptions,
+    snapshot: engine.snapshot,
+    capture: engine.capture,
+    dispose: engine.dispose,
+  };
+};
+
+const createWorkerHost = (
+  canvas: HTMLCanvasElement,
+  width: number,
+  height: number,
+  options: Partial<EngineOptions>,
+  onError: (message: string) => void
+): EngineHost => {
+  const worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+  const pendingSnapshots = new Map<number, { resolve: (blob: Blob | null) => void; reject: (error: Error) => void }>();
+  let nextSnapshotId = 0;
+  const pendingCaptures = new Map<number, {
+    onFrame: CaptureFrameHandler;
+    resolve: () => void;
+    reject: (error: Error) => void;
+    // First error thrown by onFrame, reported once the worker stops
+    error?: Error;
+  }>();
+  let nextCaptureId = 0;
+
+  const send = (message: EngineRequest, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+
+  worker.onmessage = (event: MessageEvent<EngineResponse>) => {
+    const message = event.data;
+    if (message.type === 'snapshot') {
+      const pending = pendingSnapshots.get(message.id);
+      pendingSnapshots.delete(message.id);
+      if (message.error) pending?.reject(new Error(message.error));
+      else pending?.resolve(message.blob);
+    } else if (message.type === 'captureFrame') {
+      const capture = pendingCaptures.get(message.id);
+      if (!capture) return;
+      Promise.resolve()
+        .then(() => capture.onFrame(message.frame))
+        .then(
+          (result) => send({ type: 'captureAck', id: message.id, proceed: result !== false }),
+          (e) => {
+            capture.error ??= e instanceof Error ? e : new Error(String(e));
+            send({ type: 'captureAck', id: message.id, proceed: false });
+          }
+        );
+    } else if (message.type === 'captureDone') {
+      const capture = pendingCaptures.get(message.id);
+      pendingCaptures.delete(message.id);
+      const error = capture?.error ?? (message.error ? new Error(message.error) : null);
+      if (error) capture?.reject(error);
+      else capture?.resolve();
+    } else if (message.type === 'error') {
+      onError(message.message);
+    }
+  };
+  worker.onerror = (event) => onError(event.message || 'Particle engine worker failed');
+
+  const offscreen = canvas.transferControlToOffscreen();
+  send({ type: 'init', canvas: offscreen, width, height, options }, [offscreen]);
+
+  return {
+    mode: 'worker',
+    // ImageBitmaps are cloned, not transferred, so the caller can resend them;
+    // vector sources are plain data
+    setImages: (images) => send({ type: 'images', images }),
+    resize: (w, h) => send({ type: 'resize', width: w, height: h }),
+    setPointers: (pointers) => send({ type: 'pointers', pointers }),
+    pulse: (x, y, pulseOptions) => send({ type: 'pulse', x, y, options: pulseOptions }),
+    setAudio: (levels) => send({ type: 'audio', levels }),
+    setOptions: (next) => send({ type: 'options', options: next }),
+    snapshot: (snapshotOptions) => new Promise((resolve, reject) => {
+      const id = nextSnapshotId++;
+      pendingSnapshots.set(id, { resolve, reject });
+      send({ type: 'snapshot', id, options: snapshotOptions });
+    }),
+    capture: (captureOptions, onFrame) => new Promise((resolve, reject) => {
+      const id = nextCaptureId++;
+      pendingCaptures.set(id, { onFrame, resolve, reject });
+      send({ type: 'capture', id, options: captureOptions });
+    }),
+    dispose: () => {
+      send({ type: 'dispose' });
+      pendingSnapshots.forEach(({ resolve }) => resolve(null));
+      pendingSnapshots.clear();
+      pendingCaptures.forEach(({ reject }) => reject(new Error('Particle engine was disposed')));
+      pendingCaptures.clear();
+      // Give the worker a moment to release GPU resources before forcing it down
+      setTimeout(() => worker.terminate(), 1000);
+    },
+  };
+};
+
+// A canvas handed to a worker cannot be reclaimed, so on worker failure the
+// caller must remount the canvas and ask again with mode 'main'.
+export const createEngineHost = (
+  canvas: HTMLCanvasElement,
+  width: number,
+  height: number,
+  options: Partial<EngineOptions>,
+  mode: ExecutionMode,
+  onWorkerError: (message: string) => void
+): EngineHost => {
+  const useWorker = mode === 'worker' || (mode === 'auto' && canUseWorker());
+  if (useWorker && canUseWorker()) {
+    try {
+      return createWorkerHost(canvas, width, height, options, onWorkerError);
+    } catch (e) {
+      console.warn('Particle worker unavailable, running on the main thread:', e);
+    }
+  }
+  return createMainThreadHost(canvas, width, height, options);
+};
@@ -0,0 +1,387 @@
+import { ParticleStore } from './particleStore';
+
+export type FieldKind = 'repel' | 'attract' | 'vortex' | 'turbulence' | 'gravityWell' | 'shockwave';
+
+// Strength multiplier over normalized distance t = distance / radius (0 at the anchor, 1 at the edge)
+export type Falloff =
+  // 1 - t, the original repulsion profile
+  | 'linear'
+  // Smoothstep down to zero, soft at both ends
+  | 'smooth'
+  // Steep near the anchor, long faint tail
+  | 'inverseSquare'
+  | 'gaussian'
+  // Full strength up to the edge
+  | 'constant';
+
+export type PointerSource = 'mouse' | 'touch' | 'pen' | 'gamepad' | 'hand';
+
+// What a field is centered on
+export type FieldBinding =
+  // Every matching pointer gets its own copy of the field
+  | { kind: 'pointers'; sources?: PointerSource[] }
+  // A point in viewport fractions (0..1)
+  | { kind: 'fixed'; x: number; y: number }
+  // Acts everywhere; radius and falloff are ignored
+  | { kind: 'global' };
+
+interface FieldBase {
+  binding: FieldBinding;
+  // Pixels; defaults to the simulation's interactionRadius. A pointer's own radius wins.
+  radius?: number;
+  // Defaults to the simulation's repulsionStrength
+  strength?: number;
+  falloff: Falloff;
+}
+
+export type ForceField =
+  | (FieldBase & { kind: 'repel' })
+  | (FieldBase & { kind: 'attract' })
+  // Pushes particles around the anchor
+  | (FieldBase & { kind: 'vortex'; clockwise: boolean })
+  // Divergence-free noise flow; scale is noise cells per pixel, speed is cells per second
+  | (FieldBase & { kind: 'turbulence'; scale: number; speed: number })
+  // Pull that grows towards the anchor; softening (px) keeps the core finite
+  | (FieldBase & { kind: 'gravityWell'; softening: number })
+  // Expanding rings emitted every `period` ms; radius is how far a ring travels
+  | (FieldBase & { kind: 'shockwave'; speed: number; width: number; period: number });
+
+export interface ShockwaveOptions {
+  // Ring speed in pixels per second
+  speed: number;
+  // Ring thickness in pixels
+  width: number;
+  strength: number;
+  // Distance at which the ring has faded out
+  radius: number;
+  falloff: Falloff;
+}
+
+export const DEFAULT_SHOCKWAVE: ShockwaveOptions = {
+  speed: 900,
+  width: 80,
+  strength: 4,
+  radius: 700,
+  falloff: 'linear',
+};
+
+// Plain repulsion around every pointer, as before fields existed
+export const DEFAULT_FORCE_FIELDS: ForceField[] = [
+  { kind: 'repel', binding: { kind: 'pointers' }, falloff: 'linear' },
+];
+
+// Starting values used when switching the pointer field in the UI
+export const POINTER_FIELD_PRESETS: Record<Exclude<FieldKind, 'turbulence'>, ForceField> = {
+  repel: { kind: 'repel', binding: { kind: 'pointers' }, falloff: 'linear' },
+  attract: { kind: 'attract', binding: { kind: 'pointers' }, falloff: 'smooth', strength: 1 },
+  vortex: { kind: 'vortex', binding: { kind: 'pointers' }, falloff: 'smooth', strength: 1.5, clockwise: true },
+  gravityWell: { kind: 'gravityWell', binding: { kind: 'pointers' }, falloff: 'constant', strength: 3, softening: 60, radius: 500 },
+  shockwave: { kind: 'shockwave', binding: { kind: 'pointers' }, falloff: 'linear', strength: 3, radius: 500, speed: 800, width: 60, period: 600 },
+};
+
+export const AMBIENT_TURBULENCE: ForceField = {
+  kind: 'turbulence',
+  binding: { kind: 'global' },
+  falloff: 'constant',
+  strength: 0.05,
+  scale: 0.004,
+  speed: 0.15,
+};
+
+// Particles inside these fields stop being pulled home, like the original repulsion.
+// Turbulence and shockwaves only nudge, so the spring keeps working under them.
+const SUSPENDS_SPRING: Record<FieldKind, boolean> = {
+  repel: true,
+  attract: true,
+  vortex: true,
+  gravityWell: true,
+  turbulence: false,
+  shockwave: false,
+};
+
+export const applyFalloff = (falloff: Falloff, t: number) => {
+  if (t >= 1) return 0;
+  switch (falloff) {
+    case 'smooth':
+      return 1 - t * t * (3 - 2 * t);
+    case 'inverseSquare':
+      // Rescaled so it reaches exactly zero at the edge
+      return (1 / (1 + 16 * t * t) - 1 / 17) / (1 - 1 / 17);
+    case 'gaussian':
+      return Math.exp(-4 * t * t) * (1 - t);
+    case 'constant':
+      return 1;
+    case 'linear':
+    default:
+      return 1 - t;
+  }
+};
+
+// Integer lattice hash in 0..1
+const hash3 = (x: number, y: number, z: number) => {
+  let h = Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(z, 1274126177);
+  h = Math.imul(h ^ (h >>> 13), 1103515245);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+};
+
+const smooth = (t: number) => t * t * (3 - 2 * t);
+const smoothDerivative = (t: number) => 6 * t * (1 - t);
+
+// Spatial gradient (d/dx, d/dy) of smoothly interpolated value noise,
+// computed analytically from the 8 surrounding lattice values
+const noiseGradient = (x: number, y: number, z: number, out: Float64Array) => {
+  const x0 = Math.floor(x), y0 = Math.floor(y), z0 = Math.floor(z);
+  const fx = x - x0, fy = y - y0;
+  const tx = smooth(fx), ty = smooth(fy), tz = smooth(z - z0);
+  const dtx = smoothDerivative(fx), dty = smoothDerivative(fy);
+  let gx = 0;
+  let gy = 0;
+  for (let layer = 0; layer < 2; layer++) {
+    const zi = z0 + layer;
+    const a = hash3(x0, y0, zi), b = hash3(x0 + 1, y0, zi);
+    const c = hash3(x0, y0 + 1, zi), d = hash3(x0 + 1, y0 + 1, zi);
+    const cross = a - b - c + d;
+    const weight = layer === 0 ? 1 - tz : tz;
+    gx += weight * dtx * (b - a + cross * ty);
+    gy += weight * dty * (c - a + cross * tx);
+  }
+  out[0] = gx;
+  out[1] = gy;
+};
+
+// Resolved center of one field instance for this step
+export interface FieldAnchor {
+  x: number;
+  y: number;
+  radius: number;
+  // Pointer force: its sign flips the field, its magnitude scales it
+  sign: number;
+}
+
+export interface AnchorPointer {
+  id: string;
+  x: number;
+  y: number;
+  radius?: number;
+  force: number;
+}
+
+// Pointer ids start with their source ("mouse-1", "touch-3", "hand-Left");
+// replayed ones carry it after a "replay-" prefix
+const REPLAY_PREFIX = 'replay-';
+
+const matchesSource = (id: string, sources?: PointerSource[]) => {
+  const live = id.startsWith(REPLAY_PREFIX) ? id.slice(REPLAY_PREFIX.length) : id;
+  return !sources || sources.some((source) => live.startsWith(source));
+};
+
+export const resolveAnchors = (
+  field: ForceField,
+  pointers: readonly AnchorPointer[],
+  width: number,
+  height: number,
+  defaultRadius: number
+): FieldAnchor[] => {
+  const radius = field.radius ?? defaultRadius;
+  switch (field.binding.kind) {
+    case 'pointers': {
+      const { sources } = field.binding;
+      return pointers
+        .filter((pointer) => matchesSource(pointer.id, sources))
+        .map((pointer) => ({ x: pointer.x, y: pointer.y, radius: pointer.radius ?? radius, sign: pointer.force }));
+    }
+    case 'fixed':
+      return [{ x: field.binding.x * width, y: field.binding.y * height, radius, sign: 1 }];
+    case 'global':
+    default:
+      return [{ x: width / 2, y: height / 2, radius: Infinity, sign: 1 }];
+  }
+};
+
+interface Pulse extends ShockwaveOptions {
+  x: number;
+  y: number;
+  // Seconds since emission
+  age: number;
+}
+
+export interface ForceContext {
+  pointers: readonly AnchorPointer[];
+  width: number;
+  height: number;
+  // Fallbacks for fields without their own radius / strength
+  defaultRadius: number;
+  defaultStrength: number;
+  // Reference frames advanced by this step (<= 1) and the same step in seconds
+  k: number;
+  dt: number;
+  // Seconds since the simulation started
+  time: number;
+}
+
+export interface ForceSystem {
+  setFields: (fields: ForceField[]) => void;
+  // One-off expanding ring
+  pulse: (x: number, y: number, options?: Partial<ShockwaveOptions>) => void;
+  // Adds field impulses to the store's velocities. held[i] is set for particles
+  // whose home spring should be skipped this step.
+  apply: (store: ParticleStore, held: Uint8Array, context: ForceContext) => void;
+  // Drops rings in flight and periodic emission times
+  reset: () => void;
+}
+
+const MAX_PULSES = 32;
+
+// Scratch output of noiseGradient
+const gradient = new Float64Array(2);
+
+export const createForceSystem = (initial: ForceField[] = DEFAULT_FORCE_FIELDS): ForceSystem => {
+  let fields = initial;
+  // Last emission time of each periodic shockwave field, by field index
+  let lastEmit: number[] = [];
+  let pulses: Pulse[] = [];
+
+  const addPulse = (pulse: Pulse) => {
+    pulses.push(pulse);
+    if (pulses.length > MAX_PULSES) pulses.shift();
+  };
+
+  // Radial and tangential fields share the distance/falloff bookkeeping
+  const applyRadial = (store: ParticleStore, held: Uint8Array, field: ForceField, anchor: FieldAnchor, strength: number, k: number) => {
+    const { x, y, vx, vy, density } = store;
+    const { radius } = anchor;
+    const scale = strength * anchor.sign * k;
+    const suspends = SUSPENDS_SPRING[field.kind];
+    const radiusSq = radius * radius;
+
+    for (let i = 0; i < store.count; i++) {
+      const dx = anchor.x - x[i];
+      const dy = anchor.y - y[i];
+      const distSq = dx * dx + dy * dy;
+      if (distSq >= radiusSq || distSq === 0) continue;
+      const distance = Math.sqrt(distSq);
+      const nx = dx / distance;
+      const ny = dy / distance;
+      const f = applyFalloff(field.falloff, distance / radius) * density[i] * scale;
+
+      switch (field.kind) {
+        case 'repel':
+          vx[i] -= nx * f;
+          vy[i] -= ny * f;
+          break;
+        case 'attract':
+          vx[i] += nx * f;
+          vy[i] += ny * f;
+          break;
+        case 'vortex': {
+          const spin = field.clockwise ? 1 : -1;
+          vx[i] += -ny * f * spin;
+          vy[i] += nx * f * spin;
+          break;
+        }
+        case 'gravityWell': {
+          const soft = field.softening * field.softening;
+          const g = soft / (distSq + soft);
+          vx[i] += nx * f * g;
+          vy[i] += ny * f * g;
+          break;
+        }
+      }
+      if (suspends) held[i] = 1;
+    }
+  };
+
+  const applyTurbulence = (store: ParticleStore, field: Extract<ForceField, { kind: 'turbulence' }>, anchor: FieldAnchor, strength: number, context: ForceContext) => {
+    const { x, y, vx, vy, density } = store;
+    const global = field.binding.kind === 'global';
+    const radiusSq = anchor.radius * anchor.radius;
+    const z = context.time * field.speed;
+    const scale = strength * anchor.sign * context.k;
+
+    for (let i = 0; i < store.count; i++) {
+      let weight = 1;
+      if (!global) {
+        const dx = anchor.x - x[i];
+        const dy = anchor.y - y[i];
+        const distSq = dx * dx + dy * dy;
+        if (distSq >= radiusSq) continue;
+        weight = applyFalloff(field.falloff, Math.sqrt(distSq) / anchor.radius);
+      }
+      // Curl of a scalar noise potential: (dψ/dy, -dψ/dx)
+      noiseGradient(x[i] * field.scale, y[i] * field.scale, z, gradient);
+      const f = weight * density[i] * scale;
+      vx[i] += gradient[1] * f;
+      vy[i] -= gradient[0] * f;
+    }
+  };
+
+  const applyPulse = (store: ParticleStore, pulse: Pulse, k: number) => {
+    const { x, y, vx, vy, density } = store;
+    const ring = pulse.speed * pulse.age;
+    const fade = applyFalloff(pulse.falloff, ring / pulse.radius) * pulse.strength * k;
+    if (fade <= 0) return;
+    const inner = Math.max(0, ring - pulse.width);
+    const outer = ring + pulse.width;
+    const innerSq = inner * inner;
+    const outerSq = outer * outer;
+
+    for (let i = 0; i < store.count; i++) {
+      const dx = x[i] - pulse.x;
+      const dy = y[i] - pulse.y;
+      const distSq = dx * dx + dy * dy;
+      if (distSq < innerSq || distSq > outerSq || distSq === 0) continue;
+      const distance = Math.sqrt(distSq);
+      const f = (1 - Math.abs(distance - ring) / pulse.width) * fade * density[i];
+      vx[i] += (dx / distance) * f;
+      vy[i] += (dy / distance) * f;
+    }
+  };
+
+  return {
+    setFields: (next) => {
+      fields = next;
+      lastEmit = [];
+    },
+    pulse: (x, y, options = {}) => addPulse({ ...DEFAULT_SHOCKWAVE, ...options, x, y, age: 0 }),
+    apply: (store, held, context) => {
+      const { pointers, width, height, defaultRadius, defaultStrength, k, dt, time } = context;
+
+      fields.forEach((field, index) => {
+        const strength = field.strength ?? defaultStrength;
+        const anchors = resolveAnchors(field, pointers, width, height, defaultRadius);
+        if (field.kind === 'shockwave') {
+          if (anchors.length === 0) return;
+          // Periodic emission from every anchor; the first ring goes out immediately
+          if (lastEmit[index] === undefined || (time - lastEmit[index]) * 1000 >= field.period) {
+            lastEmit[index] = time;
+            anchors.forEach((anchor) => addPulse({
+              x: anchor.x,
+              y: anchor.y,
+              age: 0,
+              speed: field.speed,
+              width: field.width,
+              strength: strength * anchor.sign,
+              radius: anchor.radius,
+              falloff: field.falloff,
+            }));
+          }
+          return;
+        }
+        anchors.forEach((anchor) => {
+          if (field.kind === 'turbulence') applyTurbulence(store, field, anchor, strength, context);
+          else applyRadial(store, held, field, anchor, strength, k);
+        });
+      });
+
+      pulses.forEach((pulse) => {
+        applyPulse(store, pulse, k);
+        pulse.age += dt;
+      });
+      pulses = pulses.filter((pulse) => pulse.speed * pulse.age < pulse.radius + pulse.width);
+    },
+    reset: () => {
+      lastEmit = [];
+      pulses = [];
+    },
+  };
+};
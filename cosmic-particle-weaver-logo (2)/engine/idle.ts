@@ -0,0 +1,149 @@
+import { ease } from './easing';
+import { ShockwaveOptions } from './forces';
+import { getUniverseRadius } from './particles';
+import { HomeTransform, IDENTITY_HOME, Pointer } from './simulation';
+
+// Attract mode: scripted motion that starts after a stretch without pointer
+// input and hands the particles back as soon as someone interacts
+export interface IdleOptions {
+  enabled: boolean;
+  // Seconds without pointer input before idle mode starts
+  timeout: number;
+  // A virtual cursor drifting across the logo
+  wander: boolean;
+  // Universe-sized shockwaves the springs then pull back into shape
+  explode: boolean;
+  // Slow pulsing of the logo's scale
+  breathe: boolean;
+  // Ambient particles turning around the center
+  rotate: boolean;
+  // Relative speed of the virtual cursor
+  wanderSpeed: number;
+  // Seconds between explosions
+  explodeInterval: number;
+  // Largest change in logo scale while breathing (0.1 = ±10%)
+  breatheAmount: number;
+  // Degrees per second
+  rotationSpeed: number;
+}
+
+export const DEFAULT_IDLE_OPTIONS: IdleOptions = {
+  enabled: true,
+  timeout: 30,
+  wander: true,
+  explode: true,
+  breathe: true,
+  rotate: true,
+  wanderSpeed: 1,
+  explodeInterval: 12,
+  breatheAmount: 0.06,
+  rotationSpeed: 4,
+};
+
+// Idle mode eases in gently but gets out of the way quickly
+const FADE_IN_S = 2;
+const HAND_OFF_S = 0.6;
+const BREATHE_PERIOD_S = 5;
+// The wandering cursor stays this far from the center, relative to the universe radius
+const WANDER_REACH = 0.7;
+// Below this the wandering cursor is dropped rather than left as a dead pointer
+const MIN_WANDER_LEVEL = 0.02;
+// Long gaps (hidden tab) count as idle time but don't jump the choreography
+const MAX_DT = 0.25;
+
+const EXPLOSION: Omit<ShockwaveOptions, 'radius'> = {
+  speed: 600,
+  width: 160,
+  strength: 8,
+  falloff: 'linear',
+};
+
+export interface IdleFrame {
+  // Virtual pointers to add to the real ones
+  pointers: Pointer[];
+  home: HomeTransform;
+  // One-off shockwave to emit this frame
+  burst: { x: number; y: number; options: Partial<ShockwaveOptions> } | null;
+}
+
+export interface IdleDirector {
+  // Real pointer input: idle mode hands off and the timeout starts over
+  input: () => void;
+  update: (dt: number, options: IdleOptions, width: number, height: number, interactionRadius: number) => IdleFrame;
+  // Back to fully interactive, without fading
+  reset: () => void;
+}
+
+// Wraps an angle to (-PI, PI] so handing off turns the shortest way back
+const wrapAngle = (angle: number) => angle - Math.PI * 2 * Math.round(angle / (Math.PI * 2));
+
+export const createIdleDirector = (): IdleDirector => {
+  let idleFor = 0;
+  // 0 when interactive, 1 when fully idle
+  let level = 0;
+  // Choreography clock, only running while idle mode shows
+  let time = 0;
+  let rotation = 0;
+  let nextExplosion = 0;
+
+  const reset = () => {
+    idleFor = 0;
+    level = 0;
+    time = 0;
+    rotation = 0;
+  };
+
+  return {
+    input: () => {
+      idleFor = 0;
+    },
+    update: (dt, options, width, height, interactionRadius) => {
+      idleFor += dt;
+      const step = Math.min(dt, MAX_DT);
+      const active = options.enabled && idleFor >= options.timeout;
+      if (active && level === 0) nextExplosion = Math.min(options.explodeInterval / 2, 4);
+      level = active ? Math.min(1, level + step / FADE_IN_S) : Math.max(0, level - step / HAND_OFF_S);
+      if (level === 0) {
+        time = 0;
+        rotation = 0;
+        return { pointers: [], home: IDENTITY_HOME, burst: null };
+      }
+
+      time += step;
+      const amount = ease('easeInOutSine', level);
+      const centerX = width / 2;
+      const centerY = height / 2;
+      const universeRadius = getUniverseRadius(width, height);
+
+      const pointers: Pointer[] = [];
+      if (options.wander && amount > MIN_WANDER_LEVEL) {
+        // Lissajous path with incommensurate frequencies, so it never quite repeats
+        const t = time * options.wanderSpeed;
+        const reach = universeRadius * WANDER_REACH;
+        pointers.push({
+          id: 'idle-wander',
+          x: centerX + Math.sin(t * 0.31) * Math.cos(t * 0.083) * reach,
+          y: centerY + Math.sin(t * 0.23 + 1.2) * reach,
+          // Shrinking the radius as well as the force releases held particles to their springs
+          radius: interactionRadius * amount,
+          force: amount,
+          smoothed: true,
+        });
+      }
+
+      let burst: IdleFrame['burst'] = null;
+      if (options.explode && active) {
+        nextExplosion -= step;
+        if (nextExplosion <= 0) {
+          nextExplosion = options.explodeInterval;
+          burst = { x: centerX, y: centerY, options: { ...EXPLOSION, radius: universeRadius * 1.3 } };
+        }
+      }
+
+      if (options.rotate && active) rotation = wrapAngle(rotation + (options.rotationSpeed * Math.PI / 180) * step);
+      const scale = options.breathe ? 1 + options.breatheAmount * amount * Math.sin((time / BREATHE_PERIOD_S) * Math.PI * 2) : 1;
+      return { pointers, home: { scale, rotation: rotation * amount }, burst };
+    },
+    reset,
+  };
+};
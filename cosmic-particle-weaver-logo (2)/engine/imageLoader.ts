@@ -0,0 +1,54 @@
+import { parseSvgToVector } from './svgVector';
+import { VectorSource } from './vectorSource';
+
+// SVGs that can't be converted to vectors are rasterized at this size on
+// their longest side so they stay crisp after layout magnification
+const VECTOR_RASTER_SIZE = 2048;
+
+const isVectorSource = (src: string) =>
+  src.startsWith('data:image/svg+xml') || /\.svg(\?|#|$)/i.test(src);
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "Anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load image: ${src.slice(0, 64)}`));
+    img.src = src;
+  });
+
+// Decodes an image source into an ImageBitmap the engine can use on any thread
+export const loadImageBitmap = async (src: string): Promise<ImageBitmap> => {
+  const img = await loadImage(src);
+  const width = img.width || VECTOR_RASTER_SIZE;
+  const height = img.height || VECTOR_RASTER_SIZE;
+
+  if (!isVectorSource(src)) {
+    return createImageBitmap(img);
+  }
+
+  // Some browsers refuse createImageBitmap on SVG images; go through a canvas
+  const scale = VECTOR_RASTER_SIZE / Math.max(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return createImageBitmap(canvas);
+};
+
+// SVGs become vector sources that are drawn at sampling size; anything the
+// vector conversion can't represent, and every raster format, is decoded
+export const loadLayerSource = async (src: string): Promise<ImageBitmap | VectorSource> => {
+  if (isVectorSource(src)) {
+    try {
+      const response = await fetch(src);
+      if (response.ok) {
+        const vector = parseSvgToVector(await response.text());
+        if (vector) return vector;
+      }
+    } catch (e) {
+      console.warn('SVG could not be read as vectors, rasterizing instead:', e);
+    }
+  }
+  return loadImageBitmap(src);
+};
@@ -0,0 +1,109 @@
+import { getUniverseRadius } from './particles';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type FitMode =
+  // Whole logo visible inside the frame
+  | 'contain'
+  // Frame completely filled, overflow cropped
+  | 'cover'
+  // Fixed pixels-per-image-pixel, ignoring the frame size
+  | 'scale';
+
+// Region a logo is fitted into: the universe sphere's bounding square, the
+// whole viewport, or a rectangle in viewport fractions (0..1)
+export type LayoutFrame = 'universe' | 'viewport' | Rect;
+
+export interface LayoutOptions {
+  fit: FitMode;
+  // Multiplier on the fitted size; the absolute scale for 'scale'
+  scale: number;
+  // Where the logo sits inside the frame (0 = left/top, 0.5 = centered, 1 = right/bottom)
+  anchorX: number;
+  anchorY: number;
+  // Pixels kept clear inside the frame
+  padding: number;
+  frame: LayoutFrame;
+  // Drop particles that fall outside the universe sphere
+  clipToUniverse: boolean;
+  // Fit the visible content's bounding box rather than the full image canvas
+  trim: boolean;
+}
+
+export const DEFAULT_LAYOUT: LayoutOptions = {
+  fit: 'contain',
+  scale: 1,
+  anchorX: 0.5,
+  anchorY: 0.5,
+  padding: 24,
+  frame: 'universe',
+  clipToUniverse: true,
+  trim: true,
+};
+
+export interface Placement {
+  // Frame after padding, in viewport pixels
+  frame: Rect;
+  // Where the (trimmed) image content lands, in viewport pixels
+  dest: Rect;
+  // Part of dest that survives frame, viewport and sphere cropping
+  visible: Rect;
+}
+
+export const intersectRects = (a: Rect, b: Rect): Rect => {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+  return { x, y, width: Math.max(0, right - x), height: Math.max(0, bottom - y) };
+};
+
+export const resolveFrame = (frame: LayoutFrame, width: number, height: number): Rect => {
+  if (frame === 'viewport') return { x: 0, y: 0, width, height };
+  if (frame === 'universe') {
+    const r = getUniverseRadius(width, height);
+    return { x: width / 2 - r, y: height / 2 - r, width: r * 2, height: r * 2 };
+  }
+  return { x: frame.x * width, y: frame.y * height, width: frame.width * width, height: frame.height * height };
+};
+
+// Pure geometry: where content of the given size goes for a viewport size
+export const computePlacement = (layout: LayoutOptions, content: Rect, width: number, height: number): Placement => {
+  const outer = resolveFrame(layout.frame, width, height);
+  const pad = Math.min(layout.padding, outer.width / 2, outer.height / 2);
+  const frame = { x: outer.x + pad, y: outer.y + pad, width: outer.width - pad * 2, height: outer.height - pad * 2 };
+
+  const sx = frame.width / Math.max(content.width, 1);
+  const sy = frame.height / Math.max(content.height, 1);
+  const scale = layout.fit === 'scale'
+    ? layout.scale
+    : (layout.fit === 'cover' ? Math.max(sx, sy) : Math.min(sx, sy)) * layout.scale;
+
+  const destWidth = content.width * scale;
+  const destHeight = content.height * scale;
+  const dest = {
+    x: frame.x + (frame.width - destWidth) * layout.anchorX,
+    y: frame.y + (frame.height - destHeight) * layout.anchorY,
+    width: destWidth,
+    height: destHeight,
+  };
+
+  let visible = intersectRects(dest, { x: 0, y: 0, width, height });
+  // Cover overflows its frame by design; crop it back
+  if (layout.fit === 'cover') visible = intersectRects(visible, frame);
+  if (layout.clipToUniverse) visible = intersectRects(visible, resolveFrame('universe', width, height));
+
+  return { frame, dest, visible };
+};
+
+export const isInsideUniverse = (x: number, y: number, width: number, height: number) => {
+  const r = getUniverseRadius(width, height);
+  const dx = x - width / 2;
+  const dy = y - height / 2;
+  return dx * dx + dy * dy <= r * r;
+};
@@ -0,0 +1,29 @@
+import { CapturedFrame, CaptureOptions, EngineOptions, SnapshotOptions } from './particleEngine';
+import { RendererKind } from './renderers';
+import { Pointer } from './simulation';
+import { ShockwaveOptions } from './forces';
+import { LayerSource } from './vectorSource';
+import { AudioLevels } from './audioReactive';
+
+// Main thread -> engine worker
+export type EngineRequest =
+  | { type: 'init'; canvas: OffscreenCanvas; width: number; height: number; options: Partial<EngineOptions> }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'images'; images: LayerSource[] }
+  | { type: 'pointers'; pointers: Pointer[] }
+  | { type: 'pulse'; x: number; y: number; options?: Partial<ShockwaveOptions> }
+  | { type: 'audio'; levels: AudioLevels | null }
+  | { type: 'options'; options: Partial<EngineOptions> }
+  | { type: 'snapshot'; id: number; options?: Partial<SnapshotOptions> }
+  | { type: 'capture'; id: number; options: CaptureOptions }
+  // Sent after each captured frame is handled; the worker waits for it
+  | { type: 'captureAck'; id: number; proceed: boolean }
+  | { type: 'dispose' };
+
+// Engine worker -> main thread
+export type EngineResponse =
+  | { type: 'ready'; renderer: RendererKind }
+  | { type: 'snapshot'; id: number; blob: Blob | null; error?: string }
+  | { type: 'captureFrame'; id: number; frame: CapturedFrame }
+  | { type: 'captureDone'; id: number; error?: string }
+  | { type: 'error'; message: string };
@@ -0,0 +1,320 @@
+import { RandomSource } from './random';
+import { compactStore, ParticleKind, ParticleStore, sortByColor, withAlpha } from './particleStore';
+import { ColorMapper } from './colorModes';
+import { ease, EasingName } from './easing';
+import { SamplePoints } from './sampling';
+import { randomImageParticleSize } from './particles';
+
+export type MatchingStrategy =
+  // Each target takes the closest free particle (greedy, grid accelerated)
+  | 'nearest'
+  // Particles and targets sorted by angle around the center and paired by rank
+  | 'angle';
+
+export interface TransitionOptions {
+  // 'reset' respawns image particles at random positions; 'morph' moves the existing ones
+  mode: 'reset' | 'morph';
+  matching: MatchingStrategy;
+  // Milliseconds
+  duration: number;
+  easing: EasingName;
+}
+
+export const DEFAULT_TRANSITION: TransitionOptions = {
+  mode: 'morph',
+  matching: 'nearest',
+  duration: 1500,
+  easing: 'easeInOutCubic',
+};
+
+export interface Morph {
+  // Advances by dt milliseconds; returns true once finished
+  update: (dtMs: number) => boolean;
+  // Jumps straight to the end state
+  finish: () => void;
+}
+
+// Pairs up to min(|from|, |to|) points. Returns, for each "from" point, the index
+// of its "to" point or -1. Iterates the smaller side so every member of it is matched.
+const matchNearest = (
+  fromX: Float32Array, fromY: Float32Array,
+  toX: Float32Array, toY: Float32Array,
+  random: RandomSource
+): Int32Array => {
+  const swap = fromX.length > toX.length;
+  const [qx, qy, px, py] = swap ? [toX, toY, fromX, fromY] : [fromX, fromY, toX, toY];
+  const queryCount = qx.length;
+  const poolCount = px.length;
+  const pairs = new Int32Array(fromX.length).fill(-1);
+  if (queryCount === 0) return pairs;
+
+  // Bounding box and grid over the larger ("pool") side
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let i = 0; i < poolCount; i++) {
+    minX = Math.min(minX, px[i]); maxX = Math.max(maxX, px[i]);
+    minY = Math.min(minY, py[i]); maxY = Math.max(maxY, py[i]);
+  }
+  const area = Math.max(1, (maxX - minX) * (maxY - minY));
+  const cellSize = Math.max(1, Math.sqrt((area / poolCount) * 4));
+  const cols = Math.floor((maxX - minX) / cellSize) + 1;
+  const rows = Math.floor((maxY - minY) / cellSize) + 1;
+  const cellOf = (x: number, y: number) => {
+    const cx = Math.min(cols - 1, Math.max(0, Math.floor((x - minX) / cellSize)));
+    const cy = Math.min(rows - 1, Math.max(0, Math.floor((y - minY) / cellSize)));
+    return [cx, cy];
+  };
+
+  // Compressed cell lists
+  const cellStart = new Uint32Array(cols * rows + 1);
+  for (let i = 0; i < poolCount; i++) {
+    const [cx, cy] = cellOf(px[i], py[i]);
+    cellStart[cy * cols + cx + 1]++;
+  }
+  for (let c = 0; c < cols * rows; c++) cellStart[c + 1] += cellStart[c];
+  const fill = cellStart.slice(0, cols * rows);
+  const cellItems = new Uint32Array(poolCount);
+  for (let i = 0; i < poolCount; i++) {
+    const [cx, cy] = cellOf(px[i], py[i]);
+    cellItems[fill[cy * cols + cx]++] = i;
+  }
+  const taken = new Uint8Array(poolCount);
+  const remaining = new Uint32Array(cols * rows);
+  for (let c = 0; c < cols * rows; c++) remaining[c] = cellStart[c + 1] - cellStart[c];
+
+  // Random query order so no region systematically gets first pick
+  const order = new Uint32Array(queryCount);
+  for (let i = 0; i < queryCount; i++) order[i] = i;
+  for (let i = queryCount - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const t = order[i]; order[i] = order[j]; order[j] = t;
+  }
+
+  const maxRing = Math.max(cols, rows);
+  const unmatched: number[] = [];
+  for (const q of order) {
+    const [cx, cy] = cellOf(qx[q], qy[q]);
+    let best = -1;
+    let bestDist = Infinity;
+    for (let ring = 0; ring <= maxRing; ring++) {
+      // Once a candidate is closer than anything this ring could hold, stop
+      if (best !== -1 && (ring - 1) * cellSize > Math.sqrt(bestDist)) break;
+      for (let gy = cy - ring; gy <= cy + ring; gy++) {
+        if (gy < 0 || gy >= rows) continue;
+        const edgeRow = gy === cy - ring || gy === cy + ring;
+        for (let gx = cx - ring; gx <= cx + ring; gx += edgeRow ? 1 : ring * 2 || 1) {
+          if (gx < 0 || gx >= cols) continue;
+          const cell = gy * cols + gx;
+          if (remaining[cell] === 0) continue;
+          for (let k = cellStart[cell]; k < cellStart[cell + 1]; k++) {
+            const p = cellItems[k];
+            if (taken[p]) continue;
+            const dx = px[p] - qx[q];
+            const dy = py[p] - qy[q];
+            const d = dx * dx + dy * dy;
+            if (d < bestDist) {
+              bestDist = d;
+              best = p;
+            }
+          }
+        }
+      }
+      // Give up on very sparse searches; leftovers are paired by rank below
+      if (ring > 24 && best === -1) break;
+    }
+    if (best === -1) {
+      unmatched.push(q);
+      continue;
+    }
+    taken[best] = 1;
+    const [bx, by] = cellOf(px[best], py[best]);
+    remaining[by * cols + bx]--;
+    if (swap) pairs[best] = q;
+    else pairs[q] = best;
+  }
+
+  // Leftovers take whatever is still free, in index order
+  let free = 0;
+  for (const q of unmatched) {
+    while (free < poolCount && taken[free]) free++;
+    if (free >= poolCount) break;
+    taken[free] = 1;
+    if (swap) pairs[free] = q;
+    else pairs[q] = free;
+  }
+  return pairs;
+};
+
+const angleOrder = (xs: Float32Array, ys: Float32Array): Uint32Array => {
+  const angles = new Float32Array(xs.length);
+  for (let i = 0; i < xs.length; i++) angles[i] = Math.atan2(ys[i], xs[i]);
+  const order = new Uint32Array(xs.length);
+  for (let i = 0; i < order.length; i++) order[i] = i;
+  return order.sort((a, b) => angles[a] - angles[b]);
+};
+
+// Sorted by angle around the center on both sides, paired by relative rank
+const matchByAngle = (fromX: Float32Array, fromY: Float32Array, toX: Float32Array, toY: Float32Array): Int32Array => {
+  const pairs = new Int32Array(fromX.length).fill(-1);
+  const fromOrder = angleOrder(fromX, fromY);
+  const toOrder = angleOrder(toX, toY);
+  if (fromOrder.length === 0 || toOrder.length === 0) return pairs;
+
+  if (fromOrder.length <= toOrder.length) {
+    const ratio = toOrder.length / fromOrder.length;
+    for (let k = 0; k < fromOrder.length; k++) pairs[fromOrder[k]] = toOrder[Math.floor(k * ratio)];
+  } else {
+    const ratio = fromOrder.length / toOrder.length;
+    for (let k = 0; k < toOrder.length; k++) pairs[fromOrder[Math.floor(k * ratio)]] = toOrder[k];
+  }
+  return pairs;
+};
+
+// Alpha is quantized so fades don't generate a distinct CSS color every frame
+const quantizeAlpha = (alpha: number) => Math.round(alpha * 32) / 32;
+
+const mixColor = (from: number, to: number, t: number) => {
+  const channel = (shift: number) => {
+    const a = (from >>> shift) & 255;
+    const b = (to >>> shift) & 255;
+    return Math.round(a + (b - a) * t) & 255;
+  };
+  return ((channel(24) << 24) | (channel(16) << 16) | (channel(8) << 8) | 255) >>> 0;
+};
+
+// Moves the store's image particles onto new target points. Origins are
+// relative to the viewport center, like everywhere else in the store.
+export const createMorph = (
+  store: ParticleStore,
+  targets: SamplePoints,
+  width: number,
+  height: number,
+  options: TransitionOptions,
+  random: RandomSource,
+  mapColor: ColorMapper,
+  sizeScale = 1
+): Morph => {
+  const centerX = width / 2;
+  const centerY = height / 2;
+
+  // Current image particles
+  const existing: number[] = [];
+  for (let i = 0; i < store.count; i++) {
+    if (store.kind[i] === ParticleKind.IMAGE) existing.push(i);
+  }
+  const fromX = new Float32Array(existing.length);
+  const fromY = new Float32Array(existing.length);
+  existing.forEach((index, k) => {
+    fromX[k] = store.originX[index];
+    fromY[k] = store.originY[index];
+  });
+  const toX = new Float32Array(targets.count);
+  const toY = new Float32Array(targets.count);
+  for (let t = 0; t < targets.count; t++) {
+    toX[t] = targets.x[t] - centerX;
+    toY[t] = targets.y[t] - centerY;
+  }
+
+  const pairs = options.matching === 'angle'
+    ? matchByAngle(fromX, fromY, toX, toY)
+    : matchNearest(fromX, fromY, toX, toY, random);
+
+  // Matched particles glide between origins and colors
+  const moving: number[] = [];
+  const movingTarget: number[] = [];
+  const fadingOut: number[] = [];
+  const targetUsed = new Uint8Array(targets.count);
+  existing.forEach((index, k) => {
+    if (pairs[k] === -1) {
+      fadingOut.push(index);
+    } else {
+      moving.push(index);
+      movingTarget.push(pairs[k]);
+      targetUsed[pairs[k]] = 1;
+    }
+  });
+
+  const startX = new Float32Array(moving.length);
+  const startY = new Float32Array(moving.length);
+  const startColor = new Uint32Array(moving.length);
+  const endColor = new Uint32Array(moving.length);
+  moving.forEach((index, k) => {
+    const t = movingTarget[k];
+    startX[k] = store.originX[index];
+    startY[k] = store.originY[index];
+    startColor[k] = store.color[index];
+    const source = targets.color[t];
+    endColor[k] = mapColor((source >>> 24) & 255, (source >>> 16) & 255, (source >>> 8) & 255);
+    store.sourceColor[index] = source;
+  });
+
+  const fadeOutColor = fadingOut.map((index) => store.color[index]);
+
+  // Surplus targets get fresh particles that fade in where they belong
+  const fadingIn: number[] = [];
+  const fadeInColor: number[] = [];
+  for (let t = 0; t < targets.count; t++) {
+    if (targetUsed[t]) continue;
+    const source = targets.color[t];
+    const color = mapColor((source >>> 24) & 255, (source >>> 16) & 255, (source >>> 8) & 255);
+    const index = store.push({
+      x: targets.x[t] + (random() - 0.5) * 20,
+      y: targets.y[t] + (random() - 0.5) * 20,
+      originX: toX[t],
+      originY: toY[t],
+      color: withAlpha(color, 0),
+      sourceColor: source,
+      size: randomImageParticleSize(random, sizeScale),
+      density: random() * 30 + 1,
+      kind: ParticleKind.IMAGE,
+    });
+    fadingIn.push(index);
+    fadeInColor.push(color);
+  }
+
+  const duration = Math.max(1, options.duration);
+  let elapsed = 0;
+  let done = false;
+
+  const apply = (progress: number) => {
+    const t = ease(options.easing, progress);
+    const alpha = quantizeAlpha(Math.min(1, Math.max(0, progress)));
+    moving.forEach((index, k) => {
+      const target = movingTarget[k];
+      store.originX[index] = startX[k] + (toX[target] - startX[k]) * t;
+      store.originY[index] = startY[k] + (toY[target] - startY[k]) * t;
+      store.color[index] = mixColor(startColor[k], endColor[k], quantizeAlpha(Math.min(1, Math.max(0, t))));
+    });
+    fadingOut.forEach((index, k) => {
+      store.color[index] = withAlpha(fadeOutColor[k], 1 - alpha);
+    });
+    fadingIn.forEach((index, k) => {
+      store.color[index] = withAlpha(fadeInColor[k], alpha);
+    });
+  };
+
+  const finish = () => {
+    if (done) return;
+    done = true;
+    apply(1);
+    const keep = new Uint8Array(store.count).fill(1);
+    fadingOut.forEach((index) => {
+      keep[index] = 0;
+    });
+    compactStore(store, keep);
+    sortByColor(store);
+  };
+
+  return {
+    update: (dtMs) => {
+      if (done) return true;
+      elapsed += dtMs;
+      if (elapsed >= duration) {
+        finish();
+        return true;
+      }
+      apply(elapsed / duration);
+      return false;
+    },
+    finish,
+  };
+};
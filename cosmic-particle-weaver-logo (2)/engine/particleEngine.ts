@@ -0,0 +1,418 @@
+import { createRandom, randomSeed } from './random';
+import { DEFAULT_GENERATION_OPTIONS, GenerationOptions, generateParticles, getUniverseRadius, recolorImageParticles } from './particles';
+import { ColorMode, createColorMapper, DEFAULT_COLOR_MODE } from './colorModes';
+import { DEFAULT_SAMPLING_OPTIONS, SamplingOptions } from './sampling';
+import { DEFAULT_LAYOUT, LayoutOptions } from './layout';
+import { buildTargets } from './targets';
+import { createMorph, DEFAULT_TRANSITION, Morph, TransitionOptions } from './morph';
+import { createSimulation, DEFAULT_SIMULATION_PARAMS, IDENTITY_HOME, Pointer, SimulationParams } from './simulation';
+import { DEFAULT_FORCE_FIELDS, ForceField, ShockwaveOptions } from './forces';
+import { createRenderer, FrameState, ParticleRenderer, RendererKind, RendererPreference, RenderTarget } from './renderers';
+import { canvasToBlob, createScratchCanvas, getScratchContext } from './canvasUtils';
+import { LayerSource } from './vectorSource';
+import { Backdrop, drawBackdrop } from './backdrop';
+import { particlesToSvg } from './svgExport';
+import { createIdleDirector, DEFAULT_IDLE_OPTIONS, IdleOptions } from './idle';
+import { applyStarBrightness, audioLevel, AudioLevels, AudioMapping, DEFAULT_AUDIO_MAPPING } from './audioReactive';
+
+export interface EngineOptions {
+  // Fixed seed makes the generated particle field reproducible
+  seed?: number;
+  // Only read at creation; a canvas cannot switch context types
+  renderer: RendererPreference;
+  colorMode: ColorMode;
+  sampling: SamplingOptions;
+  // Layout shared by every logo
+  layout: LayoutOptions;
+  // Per-logo overrides, by index into the images given to setImages
+  layers: Partial<LayoutOptions>[];
+  // How the particles get from one image (or layout) to the next
+  transition: TransitionOptions;
+  // Force fields around pointers and fixed points, composed in order
+  fields: ForceField[];
+  physics: SimulationParams;
+  // Ambient particle counts, star share and particle sizes
+  generation: GenerationOptions;
+  // Soft glow under each pointer
+  cursorGlow: boolean;
+  // Attract mode while nobody interacts
+  idle: IdleOptions;
+  // What the levels given to setAudio drive
+  audio: AudioMapping;
+}
+
+export const DEFAULT_ENGINE_OPTIONS: EngineOptions = {
+  renderer: 'auto',
+  colorMode: DEFAULT_COLOR_MODE,
+  sampling: DEFAULT_SAMPLING_OPTIONS,
+  layout: DEFAULT_LAYOUT,
+  layers: [],
+  transition: DEFAULT_TRANSITION,
+  fields: DEFAULT_FORCE_FIELDS,
+  physics: DEFAULT_SIMULATION_PARAMS,
+  generation: DEFAULT_GENERATION_OPTIONS,
+  cursorGlow: true,
+  idle: DEFAULT_IDLE_OPTIONS,
+  audio: DEFAULT_AUDIO_MAPPING,
+};
+
+export type SnapshotFormat = 'png' | 'jpeg' | 'webp' | 'svg';
+
+export const SNAPSHOT_MIME_TYPES: Record<SnapshotFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+export interface SnapshotOptions {
+  format: SnapshotFormat;
+  // Output pixels per canvas pixel; the particles are re-rendered at that size, not upscaled
+  scale: number;
+  // Page decoration painted behind the particles; transparent when omitted
+  backdrop?: Backdrop;
+  // The black universe disc
+  sphere: boolean;
+  // JPEG and WebP only, 0-1
+  quality?: number;
+}
+
+export const DEFAULT_SNAPSHOT_OPTIONS: SnapshotOptions = {
+  format: 'png',
+  scale: 1,
+  sphere: true,
+};
+
+// Browsers refuse canvases much larger than this
+const MAX_SNAPSHOT_SIDE = 16384;
+
+export interface CaptureOptions {
+  // Frames to render, each advancing the simulation by exactly 1 / fps seconds
+  frames: number;
+  fps: number;
+  // Output size; the canvas is scaled to fit. A missing side follows the canvas aspect.
+  width?: number;
+  height?: number;
+  // Fill behind the particles; transparent when omitted
+  background?: string;
+  // Raw pixels for encoders, or one PNG per frame
+  format: 'rgba' | 'png';
+  // Respawn the particle field and rewind field time first; with a fixed seed
+  // every render is identical. Rejected until an image is loaded.
+  restart?: boolean;
+}
+
+export type CapturedFrame =
+  | { index: number; format: 'rgba'; width: number; height: number; data: Uint8ClampedArray }
+  | { index: number; format: 'png'; blob: Blob };
+
+// Returning false stops the capture after this frame
+export type CaptureFrameHandler = (frame: CapturedFrame) => boolean | void | Promise<boolean | void>;
+
+// Thread-agnostic core: owns simulation, renderer and frame loop.
+// Runs unchanged on the main thread or inside the engine worker.
+export interface ParticleEngine {
+  readonly rendererKind: RendererKind;
+  // One or more logos; each is placed by its own layout
+  setImages: (images: LayerSource[]) => void;
+  resize: (width: number, height: number) => void;
+  // Every active mouse, touch and hand pointer; an empty set releases all.
+  // Any pointer also hands idle mode back and restarts its timeout.
+  setPointers: (pointers: Pointer[]) => void;
+  // One-off shockwave ring from (x, y)
+  pulse: (x: number, y: number, options?: Partial<ShockwaveOptions>) => void;
+  // Latest audio analysis, applied through options.audio; null ends its effects
+  setAudio: (levels: AudioLevels | null) => void;
+  setOptions: (options: Partial<EngineOptions>) => void;
+  // Re-rendered still without cursor glows; see SnapshotOptions
+  snapshot: (options?: Partial<SnapshotOptions>) => Promise<Blob | null>;
+  // Offline render at a fixed time step; the real-time loop and pointers are
+  // suspended until it finishes, so the result doesn't depend on frame rate
+  capture: (options: CaptureOptions, onFrame: CaptureFrameHandler) => Promise<void>;
+  dispose: () => void;
+}
+
+// Particles are regenerated this long after the last resize
+const REGENERATE_DELAY_MS = 200;
+
+type FrameScheduler = {
+  request: (callback: (time: number) => void) => number;
+  cancel: (handle: number) => void;
+};
+
+// Workers only have requestAnimationFrame in some browsers
+const getScheduler = (): FrameScheduler => {
+  if (typeof requestAnimationFrame === 'function') {
+    return { request: (cb) => requestAnimationFrame(cb), cancel: (h) => cancelAnimationFrame(h) };
+  }
+  return {
+    request: (cb) => setTimeout(() => cb(performance.now()), 1000 / 60) as unknown as number,
+    cancel: (h) => clearTimeout(h),
+  };
+};
+
+export const createParticleEngine = (
+  canvas: RenderTarget,
+  width: number,
+  height: number,
+  initialOptions: Partial<EngineOptions> = {}
+): ParticleEngine => {
+  let options: EngineOptions = { ...DEFAULT_ENGINE_OPTIONS, ...initialOptions };
+  canvas.width = width;
+  canvas.height = height;
+
+  const renderer: ParticleRenderer = createRenderer(canvas, options.renderer);
+  const simulation = createSimulation(width, height, options.physics, options.fields);
+  const scheduler = getScheduler();
+
+  let images: LayerSource[] = [];
+  let morph: Morph | null = null;
+  let frameHandle = 0;
+  let lastFrame: number | null = null;
+  let regenerateTimeout: ReturnType<typeof setTimeout> | null = null;
+  let disposed = false;
+  let capturing = false;
+  // Latest pointers from the host, held back while capturing
+  let pointers: Pointer[] = [];
+  const idle = createIdleDirector();
+  // Virtual pointers idle mode added on the last frame
+  let idlePointers: Pointer[] = [];
+  let audio: AudioLevels | null = null;
+
+  const finishMorph = () => {
+    morph?.finish();
+    morph = null;
+  };
+
+  // Initialize Particles. With `transition` set and morphing enabled, the
+  // current particles travel to the new targets instead of respawning.
+  const regenerate = (transition = false) => {
+    if (images.length === 0) return;
+    finishMorph();
+    const w = canvas.width;
+    const h = canvas.height;
+    const random = createRandom(options.seed ?? randomSeed());
+    const layers = images.map((image, i) => ({ image, layout: { ...options.layout, ...options.layers[i] } }));
+    const targets = buildTargets(layers, w, h, options.sampling, random);
+    const mapColor = createColorMapper(options.colorMode);
+    const store = simulation.getStore();
+
+    simulation.setBounds(w, h);
+    if (transition && options.transition.mode === 'morph' && store.count > 0) {
+      morph = createMorph(store, targets, w, h, options.transition, random, mapColor, options.generation.sizeScale);
+      return;
+    }
+    simulation.setStore(generateParticles(targets, w, h, random, mapColor, options.generation));
+    lastFrame = null;
+  };
+
+  const frameState = (): FrameState => ({
+    width: canvas.width,
+    height: canvas.height,
+    // Dynamic Center Calculation
+    centerX: canvas.width / 2,
+    centerY: canvas.height / 2,
+    universeRadius: getUniverseRadius(canvas.width, canvas.height),
+    pointers: options.cursorGlow ? simulation.getPointers() : [],
+  });
+
+  const advance = (dt: number) => {
+    if (morph && morph.update(dt * 1000)) morph = null;
+
+    const store = simulation.getStore();
+    if (store.count > 0) {
+      simulation.step(dt);
+      renderer.render(store, frameState());
+    }
+  };
+
+  // Back to the configured radius and the generated star colors
+  const clearAudioEffects = () => {
+    simulation.setParams({ interactionRadius: options.physics.interactionRadius });
+    applyStarBrightness(simulation.getStore(), 1);
+  };
+
+  // Idle choreography and audio run in real time only, so captures stay deterministic
+  const updateLive = (dt: number) => {
+    const next = idle.update(dt, options.idle, canvas.width, canvas.height, options.physics.interactionRadius);
+    if (next.pointers.length > 0 || idlePointers.length > 0) {
+      idlePointers = next.pointers;
+      simulation.setPointers(idlePointers.length > 0 ? [...pointers, ...idlePointers] : pointers);
+    }
+    if (next.burst) simulation.pulse(next.burst.x, next.burst.y, next.burst.options);
+    if (!audio) {
+      simulation.setHomeTransform(next.home);
+      return;
+    }
+
+    const mapping = options.audio;
+    simulation.setHomeTransform({ ...next.home, scale: next.home.scale * (1 + audioLevel(audio, mapping.displacement)) });
+    simulation.setParams({ interactionRadius: options.physics.interactionRadius * (1 + audioLevel(audio, mapping.interactionRadius)) });
+    // Dim in silence, bright at full level
+    const { starBrightness } = mapping;
+    applyStarBrightness(simulation.getStore(), 1 + starBrightness.amount * (2 * audio[starBrightness.feature] - 1));
+  };
+
+  // Animation Loop
+  const frame = (time: number) => {
+    if (disposed) return;
+    // A running capture steps the simulation itself
+    if (!capturing) {
+      const dt = lastFrame === null ? 0 : (time - lastFrame) / 1000;
+      lastFrame = time;
+      updateLive(dt);
+      advance(dt);
+    }
+    frameHandle = scheduler.request(frame);
+  };
+
+  const snapshot = async (snapshotOptions: Partial<SnapshotOptions> = {}) => {
+    const { format, scale, backdrop, sphere, quality } = { ...DEFAULT_SNAPSHOT_OPTIONS, ...snapshotOptions };
+    const store = simulation.getStore();
+    const still: FrameState = { ...frameState(), pointers: [], scale, sphere };
+    if (format === 'svg') {
+      return new Blob([particlesToSvg(store, still, backdrop)], { type: SNAPSHOT_MIME_TYPES.svg });
+    }
+
+    const width = Math.round(canvas.width * scale);
+    const height = Math.round(canvas.height * scale);
+    if (!(width >= 1 && height >= 1 && width <= MAX_SNAPSHOT_SIDE && height <= MAX_SNAPSHOT_SIDE)) {
+      throw new Error(`Snapshot size ${width}x${height} must be between 1 and ${MAX_SNAPSHOT_SIDE} pixels per side`);
+    }
+    // A separate Canvas2D pass, so the size isn't tied to the live canvas or its context type
+    const layer = createScratchCanvas(width, height);
+    const layerRenderer = createRenderer(layer, 'canvas2d');
+    layerRenderer.render(store, still);
+    layerRenderer.dispose();
+    if (!backdrop) return canvasToBlob(layer, SNAPSHOT_MIME_TYPES[format], quality);
+
+    const output = createScratchCanvas(width, height);
+    const ctx = getScratchContext(output);
+    if (!ctx) throw new Error('Could not create a snapshot canvas');
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    drawBackdrop(ctx, canvas.width, canvas.height, backdrop);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.drawImage(layer, 0, 0);
+    return canvasToBlob(output, SNAPSHOT_MIME_TYPES[format], quality);
+  };
+
+  const capture = async (captureOptions: CaptureOptions, onFrame: CaptureFrameHandler) => {
+    if (capturing) throw new Error('A capture is already running');
+    const { frames, fps, background, format, restart } = captureOptions;
+    if (!(fps > 0) || !(frames > 0)) throw new Error('Capture needs a positive frame count and fps');
+    // Restarting without an image would capture whatever happens to be on screen
+    if (restart && images.length === 0) throw new Error('Cannot restart the capture before an image is loaded');
+
+    const aspect = canvas.width / canvas.height;
+    const outWidth = Math.max(1, Math.round(captureOptions.width ?? (captureOptions.height ? captureOptions.height * aspect : canvas.width)));
+    const outHeight = Math.max(1, Math.round(captureOptions.height ?? outWidth / aspect));
+    const output = createScratchCanvas(outWidth, outHeight);
+    const ctx = getScratchContext(output);
+    if (!ctx) throw new Error('Could not create a capture canvas');
+    // Letterboxed, so a different output aspect doesn't stretch the particles
+    const scale = Math.min(outWidth / canvas.width, outHeight / canvas.height);
+    const drawWidth = canvas.width * scale;
+    const drawHeight = canvas.height * scale;
+
+    capturing = true;
+    idle.reset();
+    idlePointers = [];
+    simulation.setHomeTransform(IDENTITY_HOME);
+    clearAudioEffects();
+    simulation.setPointers([]);
+    try {
+      if (restart) {
+        if (regenerateTimeout) clearTimeout(regenerateTimeout);
+        regenerate();
+        simulation.reset();
+      }
+      for (let index = 0; index < Math.floor(frames) && !disposed; index++) {
+        advance(1 / fps);
+        ctx.clearRect(0, 0, outWidth, outHeight);
+        if (background) {
+          ctx.fillStyle = background;
+          ctx.fillRect(0, 0, outWidth, outHeight);
+        }
+        ctx.drawImage(canvas, (outWidth - drawWidth) / 2, (outHeight - drawHeight) / 2, drawWidth, drawHeight);
+
+        let captured: CapturedFrame;
+        if (format === 'png') {
+          const blob = await canvasToBlob(output, 'image/png');
+          if (!blob) throw new Error(`Could not encode frame ${index}`);
+          captured = { index, format, blob };
+        } else {
+          captured = { index, format, width: outWidth, height: outHeight, data: ctx.getImageData(0, 0, outWidth, outHeight).data };
+        }
+        if ((await onFrame(captured)) === false) break;
+      }
+    } finally {
+      capturing = false;
+      lastFrame = null;
+      simulation.setPointers(pointers);
+    }
+  };
+  frameHandle = scheduler.request(frame);
+
+  return {
+    rendererKind: renderer.kind,
+    setImages: (next) => {
+      images = next;
+      regenerate(true);
+    },
+    resize: (w, h) => {
+      if (w === canvas.width && h === canvas.height) return;
+      // Immediate canvas resize to avoid stretching, debounced particle regeneration
+      canvas.width = w;
+      canvas.height = h;
+      simulation.setBounds(w, h);
+      if (regenerateTimeout) clearTimeout(regenerateTimeout);
+      regenerateTimeout = setTimeout(() => regenerate(), REGENERATE_DELAY_MS);
+    },
+    setPointers: (next) => {
+      pointers = next;
+      if (next.length > 0) idle.input();
+      if (!capturing) simulation.setPointers(idlePointers.length > 0 ? [...next, ...idlePointers] : next);
+    },
+    pulse: (x, y, pulseOptions) => simulation.pulse(x, y, pulseOptions),
+    setAudio: (levels) => {
+      if (!levels && audio) clearAudioEffects();
+      audio = levels;
+      const strength = options.audio.beatShockwave;
+      if (levels?.beat && strength > 0 && !capturing) {
+        simulation.pulse(canvas.width / 2, canvas.height / 2, {
+          strength,
+          radius: getUniverseRadius(canvas.width, canvas.height) * 1.2,
+        });
+      }
+    },
+    setOptions: (next) => {
+      // New ambient counts or sizes need a fresh particle field
+      const resetNeeded =
+        ('seed' in next && next.seed !== options.seed) ||
+        (next.generation !== undefined && next.generation !== options.generation);
+      const targetsChanged =
+        (next.sampling !== undefined && next.sampling !== options.sampling) ||
+        (next.layout !== undefined && next.layout !== options.layout) ||
+        (next.layers !== undefined && next.layers !== options.layers);
+      const colorChanged = next.colorMode !== undefined && next.colorMode !== options.colorMode;
+      if (next.fields !== undefined && next.fields !== options.fields) simulation.setFields(next.fields);
+      if (next.physics !== undefined && next.physics !== options.physics) simulation.setParams(next.physics);
+      options = { ...options, ...next };
+      if (resetNeeded || targetsChanged) {
+        regenerate(!resetNeeded);
+      } else if (colorChanged) {
+        // Recolor in place so a color change doesn't scatter the logo
+        finishMorph();
+        recolorImageParticles(simulation.getStore(), createColorMapper(options.colorMode));
+      }
+    },
+    snapshot,
+    capture,
+    dispose: () => {
+      disposed = true;
+      scheduler.cancel(frameHandle);
+      if (regenerateTimeout) clearTimeout(regenerateTimeout);
+      renderer.dispose();
+    },
+  };
+};
@@ -0,0 +1,235 @@
+import { Particle } from '../types';
+
+// Particle categories, stored per particle in `kind`
+export enum ParticleKind {
+  AMBIENT = 0,
+  STAR = 1,
+  IMAGE = 2,
+}
+
+export interface ParticleInit {
+  x: number;
+  y: number;
+  originX: number;
+  originY: number;
+  // Packed 0xRRGGBBAA
+  color: number;
+  // Pixel color the particle was sampled from; defaults to `color`
+  sourceColor?: number;
+  size: number;
+  density: number;
+  kind: ParticleKind;
+}
+
+// Structure-of-arrays storage: one typed array per attribute, `count` live entries.
+// Arrays are reallocated when capacity grows, so never hold on to them across push().
+export interface ParticleStore {
+  count: number;
+  capacity: number;
+  x: Float32Array;
+  y: Float32Array;
+  originX: Float32Array;
+  originY: Float32Array;
+  vx: Float32Array;
+  vy: Float32Array;
+  size: Float32Array;
+  density: Float32Array;
+  color: Uint32Array;
+  sourceColor: Uint32Array;
+  kind: Uint8Array;
+  push: (particle: ParticleInit) => number;
+  reserve: (capacity: number) => void;
+  clear: () => void;
+}
+
+const MIN_CAPACITY = 1024;
+
+const grow = <T extends Float32Array | Uint32Array | Uint8Array>(array: T, capacity: number, count: number): T => {
+  const next = new (array.constructor as { new (length: number): T })(capacity);
+  next.set(array.subarray(0, count));
+  return next;
+};
+
+export const createParticleStore = (initialCapacity = MIN_CAPACITY): ParticleStore => {
+  const capacity = Math.max(initialCapacity, 1);
+  const store: ParticleStore = {
+    count: 0,
+    capacity,
+    x: new Float32Array(capacity),
+    y: new Float32Array(capacity),
+    originX: new Float32Array(capacity),
+    originY: new Float32Array(capacity),
+    vx: new Float32Array(capacity),
+    vy: new Float32Array(capacity),
+    size: new Float32Array(capacity),
+    density: new Float32Array(capacity),
+    color: new Uint32Array(capacity),
+    sourceColor: new Uint32Array(capacity),
+    kind: new Uint8Array(capacity),
+    reserve: (required) => {
+      if (required <= store.capacity) return;
+      let next = store.capacity;
+      while (next < required) next *= 2;
+      const n = store.count;
+      store.x = grow(store.x, next, n);
+      store.y = grow(store.y, next, n);
+      store.originX = grow(store.originX, next, n);
+      store.originY = grow(store.originY, next, n);
+      store.vx = grow(store.vx, next, n);
+      store.vy = grow(store.vy, next, n);
+      store.size = grow(store.size, next, n);
+      store.density = grow(store.density, next, n);
+      store.color = grow(store.color, next, n);
+      store.sourceColor = grow(store.sourceColor, next, n);
+      store.kind = grow(store.kind, next, n);
+      store.capacity = next;
+    },
+    push: (p) => {
+      store.reserve(store.count + 1);
+      const i = store.count++;
+      store.x[i] = p.x;
+      store.y[i] = p.y;
+      store.originX[i] = p.originX;
+      store.originY[i] = p.originY;
+      store.vx[i] = 0;
+      store.vy[i] = 0;
+      store.size[i] = p.size;
+      store.density[i] = p.density;
+      store.color[i] = p.color;
+      store.sourceColor[i] = p.sourceColor ?? p.color;
+      store.kind[i] = p.kind;
+      return i;
+    },
+    clear: () => {
+      store.count = 0;
+    },
+  };
+  return store;
+};
+
+const permute = <T extends Float32Array | Uint32Array | Uint8Array>(array: T, order: Uint32Array): T => {
+  const next = new (array.constructor as { new (length: number): T })(array.length);
+  for (let i = 0; i < order.length; i++) next[i] = array[order[i]];
+  return next;
+};
+
+// Drops every particle whose keep flag is 0, preserving order
+export const compactStore = (store: ParticleStore, keep: Uint8Array) => {
+  let next = 0;
+  for (let i = 0; i < store.count; i++) {
+    if (!keep[i]) continue;
+    if (next !== i) {
+      store.x[next] = store.x[i];
+      store.y[next] = store.y[i];
+      store.originX[next] = store.originX[i];
+      store.originY[next] = store.originY[i];
+      store.vx[next] = store.vx[i];
+      store.vy[next] = store.vy[i];
+      store.size[next] = store.size[i];
+      store.density[next] = store.density[i];
+      store.color[next] = store.color[i];
+      store.sourceColor[next] = store.sourceColor[i];
+      store.kind[next] = store.kind[i];
+    }
+    next++;
+  }
+  store.count = next;
+};
+
+// Groups equal colors together so renderers switch fill style as rarely as possible
+export const sortByColor = (store: ParticleStore) => {
+  const order = new Uint32Array(store.count);
+  for (let i = 0; i < order.length; i++) order[i] = i;
+  order.sort((a, b) => store.color[a] - store.color[b] || a - b);
+
+  store.x = permute(store.x, order);
+  store.y = permute(store.y, order);
+  store.originX = permute(store.originX, order);
+  store.originY = permute(store.originY, order);
+  store.vx = permute(store.vx, order);
+  store.vy = permute(store.vy, order);
+  store.size = permute(store.size, order);
+  store.density = permute(store.density, order);
+  store.color = permute(store.color, order);
+  store.sourceColor = permute(store.sourceColor, order);
+  store.kind = permute(store.kind, order);
+};
+
+// --- Colors ---
+
+export const packRgba = (r: number, g: number, b: number, a = 255): number =>
+  (((r & 255) << 24) | ((g & 255) << 16) | ((b & 255) << 8) | (a & 255)) >>> 0;
+
+export const withAlpha = (color: number, alpha: number): number =>
+  ((color & 0xffffff00) | (Math.round(Math.min(1, Math.max(0, alpha)) * 255) & 255)) >>> 0;
+
+export const unpackRgba = (color: number): [number, number, number, number] => [
+  (color >>> 24) & 255,
+  (color >>> 16) & 255,
+  (color >>> 8) & 255,
+  color & 255,
+];
+
+const cssCache = new Map<number, string>();
+// Fades produce many short-lived alpha variants; don't let them pile up
+const CSS_CACHE_LIMIT = 65536;
+
+// Cached so the render loop never builds strings per particle
+export const rgbaToCss = (color: number): string => {
+  let css = cssCache.get(color);
+  if (css === undefined) {
+    const [r, g, b, a] = unpackRgba(color);
+    css = a === 255 ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, ${+(a / 255).toFixed(3)})`;
+    if (cssCache.size >= CSS_CACHE_LIMIT) cssCache.clear();
+    cssCache.set(color, css);
+  }
+  return css;
+};
+
+// Accepts the formats the app produces: #rgb, #rrggbb, rgb() and rgba()
+export const parseCssColor = (css: string): number => {
+  const value = css.trim();
+  if (value.startsWith('#')) {
+    const hex = value.length === 4
+      ? value.slice(1).split('').map((c) => c + c).join('')
+      : value.slice(1, 7);
+    const n = parseInt(hex, 16);
+    return packRgba((n >> 16) & 255, (n >> 8) & 255, n & 255);
+  }
+  const match = value.match(/rgba?\(([^)]+)\)/i);
+  if (match) {
+    const [r, g, b, a] = match[1].split(',').map((part) => parseFloat(part));
+    return packRgba(r, g, b, a === undefined || isNaN(a) ? 255 : Math.round(a * 255));
+  }
+  return packRgba(255, 255, 255);
+};
+
+// --- Adapters for the object-based Particle shape ---
+
+export const storeFromParticles = (particles: Particle[], kind = ParticleKind.AMBIENT): ParticleStore => {
+  const store = createParticleStore(particles.length);
+  for (const p of particles) {
+    const i = store.push({ ...p, color: parseCssColor(p.color), kind });
+    store.vx[i] = p.vx;
+    store.vy[i] = p.vy;
+  }
+  return store;
+};
+
+export const storeToParticles = (store: ParticleStore): Particle[] => {
+  const particles: Particle[] = [];
+  for (let i = 0; i < store.count; i++) {
+    particles.push({
+      x: store.x[i],
+      y: store.y[i],
+      originX: store.originX[i],
+      originY: store.originY[i],
+      color: rgbaToCss(store.color[i]),
+      size: store.size[i],
+      vx: store.vx[i],
+      vy: store.vy[i],
+      density: store.density[i],
+    });
+  }
+  return particles;
+};
@@ -0,0 +1,142 @@
+import { RandomSource } from './random';
+import { createParticleStore, packRgba, ParticleKind, ParticleStore, sortByColor } from './particleStore';
+import { ColorMapper, createColorMapper, DEFAULT_COLOR_MODE } from './colorModes';
+import { SamplePoints } from './sampling';
+
+// Universe sphere radius relative to the smaller viewport side
+export const UNIVERSE_RADIUS_RATIO = 0.45;
+
+export const getUniverseRadius = (width: number, height: number) =>
+  Math.min(width, height) * UNIVERSE_RADIUS_RATIO;
+
+export interface GenerationOptions {
+  // Sphere area in square pixels per ambient particle
+  ambientSpacing: number;
+  // Upper bound on ambient particles, whatever the viewport size
+  ambientCap: number;
+  // Share of ambient particles drawn as bright stars (0..1)
+  starRatio: number;
+  // Multiplier on every particle's size
+  sizeScale: number;
+}
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  ambientSpacing: 30,
+  ambientCap: 20000,
+  starRatio: 0.005,
+  sizeScale: 1,
+};
+
+// Mostly fine dust with some larger grains
+export const randomImageParticleSize = (random: RandomSource, sizeScale = 1) =>
+  (random() < 0.3 ? random() * 0.8 + 0.6 : random() * 0.4 + 0.2) * sizeScale;
+
+// Ambient "universe" particles scattered uniformly INSIDE the sphere
+export const generateAmbientParticles = (
+  store: ParticleStore,
+  width: number,
+  height: number,
+  random: RandomSource,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS
+) => {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const universeRadius = getUniverseRadius(width, height);
+
+  const sphereArea = Math.PI * universeRadius * universeRadius;
+  const targetCount = Math.floor(sphereArea / Math.max(1, options.ambientSpacing));
+  const ambientCount = Math.max(0, Math.min(targetCount, Math.floor(options.ambientCap)));
+  store.reserve(store.count + ambientCount);
+
+  for (let i = 0; i < ambientCount; i++) {
+    // Random polar coordinates for uniform sphere distribution
+    const angle = random() * Math.PI * 2;
+    const r = Math.sqrt(random()) * universeRadius;
+
+    const x = centerX + r * Math.cos(angle);
+    const y = centerY + r * Math.sin(angle);
+
+    // Logic: mostly Dark Matter, starRatio Stars
+    const isStar = random() < options.starRatio;
+    let color, size;
+
+    if (isStar) {
+      const val = Math.floor(random() * 100 + 155);
+      color = packRgba(val, val, val);
+      size = random() * 1.5 + 0.5;
+    } else {
+      const val = Math.floor(random() * 30 + 10);
+      color = packRgba(val, val, val);
+      size = random() * 2 + 0.5;
+    }
+    size *= options.sizeScale;
+
+    store.push({
+      x,
+      y,
+      // RELATIVE ORIGIN: Store offset from center
+      originX: x - centerX,
+      originY: y - centerY,
+      color,
+      size,
+      density: random() * 20 + 1,
+      kind: isStar ? ParticleKind.STAR : ParticleKind.AMBIENT,
+    });
+  }
+};
+
+// Image particles homed on sampled target points (viewport pixels)
+export const generateImageParticles = (
+  store: ParticleStore,
+  points: SamplePoints,
+  width: number,
+  height: number,
+  random: RandomSource,
+  mapColor: ColorMapper,
+  sizeScale = 1
+) => {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  store.reserve(store.count + points.count);
+
+  for (let i = 0; i < points.count; i++) {
+    const source = points.color[i];
+    store.push({
+      x: random() * width, // Start chaotic
+      y: random() * height,
+      // RELATIVE ORIGIN: Image particles also stored relative to center
+      originX: points.x[i] - centerX,
+      originY: points.y[i] - centerY,
+      color: mapColor((source >>> 24) & 255, (source >>> 16) & 255, (source >>> 8) & 255),
+      sourceColor: source,
+      size: randomImageParticleSize(random, sizeScale),
+      density: random() * 30 + 1,
+      kind: ParticleKind.IMAGE,
+    });
+  }
+};
+
+// Re-maps image particle colors from their sampled source color, keeping positions
+export const recolorImageParticles = (store: ParticleStore, mapColor: ColorMapper) => {
+  for (let i = 0; i < store.count; i++) {
+    if (store.kind[i] !== ParticleKind.IMAGE) continue;
+    const source = store.sourceColor[i];
+    store.color[i] = mapColor((source >>> 24) & 255, (source >>> 16) & 255, (source >>> 8) & 255);
+  }
+  sortByColor(store);
+};
+
+export const generateParticles = (
+  points: SamplePoints,
+  width: number,
+  height: number,
+  random: RandomSource,
+  mapColor: ColorMapper = createColorMapper(DEFAULT_COLOR_MODE),
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS
+): ParticleStore => {
+  const store = createParticleStore();
+  generateAmbientParticles(store, width, height, random, options);
+  generateImageParticles(store, points, width, height, random, mapColor, options.sizeScale);
+  sortByColor(store);
+  return store;
+};
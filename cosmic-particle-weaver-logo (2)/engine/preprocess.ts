@@ -0,0 +1,161 @@
+import { createScratchCanvas, getScratchContext, ScratchCanvas } from './canvasUtils';
+import { drawLayerSource, isVectorSource, LayerSource } from './vectorSource';
+import { detectBackgroundLuminance, edgeMagnitude, luma, PixelSource } from './sampling';
+import { parseCssColor, unpackRgba } from './particleStore';
+import { Rect } from './layout';
+
+export type BackgroundRemoval =
+  | 'none'
+  // Pixels close to `keyColor` become transparent
+  | 'colorKey'
+  // Pixels close in brightness to the auto-detected background become transparent
+  | 'luminance';
+
+export interface PreprocessOptions {
+  // Normalized 0-1 part of the image that is kept
+  crop: Rect;
+  background: BackgroundRemoval;
+  keyColor: string;
+  // 0-255 distance from the key color (or background brightness) that is removed
+  tolerance: number;
+  // 0-255 band past the tolerance that fades out instead of cutting hard
+  softness: number;
+  // Input levels: 0-255 black and white points, then gamma
+  blackPoint: number;
+  whitePoint: number;
+  gamma: number;
+  // -100..100
+  contrast: number;
+  // Levels per channel; 0 disables
+  posterize: number;
+  // Keeps only outlines, in their original colors
+  edges: boolean;
+  invert: boolean;
+}
+
+export const FULL_CROP: Rect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  crop: FULL_CROP,
+  background: 'none',
+  keyColor: '#000000',
+  tolerance: 40,
+  softness: 20,
+  blackPoint: 0,
+  whitePoint: 255,
+  gamma: 1,
+  contrast: 0,
+  posterize: 0,
+  edges: false,
+  invert: false,
+};
+
+// Photos are reduced to this on their longest side; more detail than the
+// sampler can use just slows every adjustment down
+export const MAX_PREPROCESS_SIDE = 2048;
+
+const isFullCrop = ({ x, y, width, height }: Rect) => x <= 0 && y <= 0 && width >= 1 && height >= 1;
+
+const toneIsIdentity = (options: PreprocessOptions) =>
+  options.blackPoint === 0 && options.whitePoint === 255 && options.gamma === 1 &&
+  options.contrast === 0 && options.posterize < 2 && !options.invert;
+
+// True when the pipeline would hand back the image unchanged
+export const isIdentityPreprocess = (options: PreprocessOptions) =>
+  isFullCrop(options.crop) && options.background === 'none' && !options.edges && toneIsIdentity(options);
+
+// Levels, contrast, posterize and invert folded into one per-channel table
+const buildToneTable = (options: PreprocessOptions): Uint8ClampedArray => {
+  const table = new Uint8ClampedArray(256);
+  const range = Math.max(1, options.whitePoint - options.blackPoint);
+  const gamma = Math.max(0.01, options.gamma);
+  const c = Math.max(-100, Math.min(100, options.contrast)) * 2.55;
+  const contrastFactor = (259 * (c + 255)) / (255 * (259 - c));
+  const levels = Math.round(options.posterize);
+
+  for (let v = 0; v < 256; v++) {
+    let t = Math.min(1, Math.max(0, (v - options.blackPoint) / range));
+    t = Math.pow(t, 1 / gamma);
+    t = Math.min(1, Math.max(0, contrastFactor * (t - 0.5) + 0.5));
+    if (levels >= 2) t = Math.round(t * (levels - 1)) / (levels - 1);
+    if (options.invert) t = 1 - t;
+    table[v] = t * 255;
+  }
+  return table;
+};
+
+// Alpha multiplier for a pixel `distance` away from the removed background
+const keepFactor = (distance: number, tolerance: number, softness: number) => {
+  if (distance <= tolerance) return 0;
+  if (softness <= 0 || distance >= tolerance + softness) return 1;
+  return (distance - tolerance) / softness;
+};
+
+const removeBackground = (pixels: PixelSource, options: PreprocessOptions) => {
+  const { data } = pixels;
+  const { tolerance, softness } = options;
+  if (options.background === 'colorKey') {
+    const [kr, kg, kb] = unpackRgba(parseCssColor(options.keyColor));
+    for (let i = 0; i < data.length; i += 4) {
+      // Euclidean RGB distance scaled back onto 0-255
+      const dr = data[i] - kr, dg = data[i + 1] - kg, db = data[i + 2] - kb;
+      const distance = Math.sqrt(dr * dr + dg * dg + db * db) / Math.sqrt(3);
+      data[i + 3] *= keepFactor(distance, tolerance, softness);
+    }
+  } else if (options.background === 'luminance') {
+    const background = detectBackgroundLuminance(pixels);
+    for (let i = 0; i < data.length; i += 4) {
+      data[i + 3] *= keepFactor(Math.abs(luma(data, i) - background), tolerance, softness);
+    }
+  }
+};
+
+// Runs the pixel stages in place: background removal on the original colors,
+// then tone adjustments, then edge detection on the adjusted result
+export const preprocessPixels = (pixels: PixelSource, options: PreprocessOptions) => {
+  const { data } = pixels;
+  if (options.background !== 'none') removeBackground(pixels, options);
+
+  if (!toneIsIdentity(options)) {
+    const table = buildToneTable(options);
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = table[data[i]];
+      data[i + 1] = table[data[i + 1]];
+      data[i + 2] = table[data[i + 2]];
+    }
+  }
+
+  if (options.edges) {
+    const magnitude = edgeMagnitude(pixels);
+    for (let p = 0; p < magnitude.length; p++) {
+      data[p * 4 + 3] = Math.min(data[p * 4 + 3], magnitude[p] * 2);
+    }
+  }
+};
+
+// Crops and scales the image onto a scratch canvas, then processes its pixels.
+// `maxSide` bounds the output, so previews can ask for a thumbnail. Vector
+// sources are rasterized here, so they lose their sharpness only when a
+// pipeline stage is actually enabled.
+export const preprocessImage = (
+  image: LayerSource,
+  options: PreprocessOptions,
+  maxSide = MAX_PREPROCESS_SIDE
+): ScratchCanvas | null => {
+  const crop = options.crop;
+  const sx = Math.max(0, Math.min(1, crop.x)) * image.width;
+  const sy = Math.max(0, Math.min(1, crop.y)) * image.height;
+  const sw = Math.max(1, Math.min(image.width - sx, crop.width * image.width));
+  const sh = Math.max(1, Math.min(image.height - sy, crop.height * image.height));
+  // Vectors have no native resolution, so they are drawn at the full size
+  const scale = isVectorSource(image) ? maxSide / Math.max(sw, sh) : Math.min(1, maxSide / Math.max(sw, sh));
+
+  const canvas = createScratchCanvas(Math.max(1, Math.round(sw * scale)), Math.max(1, Math.round(sh * scale)));
+  const ctx = getScratchContext(canvas);
+  if (!ctx) return null;
+  drawLayerSource(ctx, image, { x: sx, y: sy, width: sw, height: sh }, canvas.width, canvas.height);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  preprocessPixels(pixels, options);
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+};
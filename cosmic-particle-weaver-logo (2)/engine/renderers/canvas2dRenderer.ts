@@ -0,0 +1,71 @@
+import { ParticleStore, rgbaToCss } from '../particleStore';
+import { CURSOR_GLOW_INNER, CURSOR_GLOW_OUTER, FrameState, ParticleRenderer, RenderTarget } from './types';
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export const createCanvas2DRenderer = (canvas: RenderTarget): ParticleRenderer | null => {
+  const ctx = canvas.getContext('2d') as Context2D | null;
+  if (!ctx) return null;
+
+  const render = (store: ParticleStore, frame: FrameState) => {
+    const { centerX, centerY, universeRadius, pointers, scale = 1, sphere = true } = frame;
+
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    ctx.clearRect(0, 0, frame.width, frame.height);
+
+    // --- DRAW SPHERICAL UNIVERSE BACKGROUND ---
+
+    // Draw the Black Sphere Base
+    if (sphere) {
+      ctx.fillStyle = '#000000';
+      ctx.beginPath();
+      ctx.arc(centerX, centerY, universeRadius, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    // --- PARTICLES ---
+
+    const { x, y, size, color } = store;
+    let lastColor = -1;
+    for (let i = 0; i < store.count; i++) {
+      // Colors are packed ints; only touch fillStyle when it actually changes
+      if (color[i] !== lastColor) {
+        lastColor = color[i];
+        ctx.fillStyle = rgbaToCss(lastColor);
+      }
+
+      const s = size[i];
+      if (s < 2) {
+        ctx.fillRect(x[i] - s, y[i] - s, s * 2, s * 2);
+      } else {
+        ctx.beginPath();
+        ctx.arc(x[i], y[i], s, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+
+    // Draw Visual Cursor/Pointer
+    for (const pointer of pointers) {
+      const gradient = ctx.createRadialGradient(
+        pointer.x, pointer.y, CURSOR_GLOW_INNER,
+        pointer.x, pointer.y, CURSOR_GLOW_OUTER
+      );
+      gradient.addColorStop(0, 'rgba(255, 255, 255, 0.4)');
+      gradient.addColorStop(0.5, 'rgba(255, 255, 255, 0.1)');
+      gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+
+      ctx.globalCompositeOperation = 'lighter';
+      ctx.fillStyle = gradient;
+      ctx.beginPath();
+      ctx.arc(pointer.x, pointer.y, CURSOR_GLOW_OUTER, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.globalCompositeOperation = 'source-over';
+    }
+  };
+
+  return {
+    kind: 'canvas2d',
+    render,
+    dispose: () => {},
+  };
+};
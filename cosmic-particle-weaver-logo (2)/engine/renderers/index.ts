@@ -0,0 +1,23 @@
+import { createCanvas2DRenderer } from './canvas2dRenderer';
+import { createWebGL2Renderer, isWebGL2Supported } from './webgl2Renderer';
+import { ParticleRenderer, RendererPreference, RenderTarget } from './types';
+
+export * from './types';
+
+// 'auto' prefers WebGL2 and silently falls back; an explicit 'webgl2' still
+// falls back rather than leaving the screen blank, but says so.
+export const createRenderer = (canvas: RenderTarget, preference: RendererPreference = 'auto'): ParticleRenderer => {
+  if (preference !== 'canvas2d') {
+    const renderer = isWebGL2Supported() ? createWebGL2Renderer(canvas) : null;
+    if (renderer) return renderer;
+    if (preference === 'webgl2') {
+      console.warn('WebGL2 renderer unavailable, falling back to Canvas2D');
+    }
+  }
+
+  const renderer = createCanvas2DRenderer(canvas);
+  if (!renderer) {
+    throw new Error('Could not acquire a rendering context for the particle canvas');
+  }
+  return renderer;
+};
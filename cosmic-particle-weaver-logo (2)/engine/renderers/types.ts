@@ -0,0 +1,31 @@
+import { ParticleStore } from '../particleStore';
+import { PointerState } from '../simulation';
+
+export type RendererKind = 'webgl2' | 'canvas2d';
+export type RendererPreference = 'auto' | RendererKind;
+
+export type RenderTarget = HTMLCanvasElement | OffscreenCanvas;
+
+// Everything a backend needs besides the particles themselves
+export interface FrameState {
+  width: number;
+  height: number;
+  centerX: number;
+  centerY: number;
+  universeRadius: number;
+  pointers: readonly PointerState[];
+  // Output pixels per layout pixel, for exports larger than the canvas
+  scale?: number;
+  // Draw the black universe disc (default true)
+  sphere?: boolean;
+}
+
+export interface ParticleRenderer {
+  readonly kind: RendererKind;
+  render: (store: ParticleStore, frame: FrameState) => void;
+  dispose: () => void;
+}
+
+// Soft glow drawn under each smoothed pointer
+export const CURSOR_GLOW_INNER = 10;
+export const CURSOR_GLOW_OUTER = 80;
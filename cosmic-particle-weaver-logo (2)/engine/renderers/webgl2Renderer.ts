@@ -0,0 +1,215 @@
+import { ParticleStore } from '../particleStore';
+import { CURSOR_GLOW_INNER, CURSOR_GLOW_OUTER, FrameState, ParticleRenderer, RenderTarget } from './types';
+
+// One unit quad, instanced once per particle. Squares below size 2 and discs
+// above it, matching what the Canvas2D path draws with fillRect / arc.
+const VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in float a_x;
+layout(location = 2) in float a_y;
+layout(location = 3) in float a_size;
+layout(location = 4) in vec4 a_color;
+
+uniform vec2 u_resolution;
+
+out vec2 v_unit;
+out float v_radius;
+out vec4 v_color;
+
+void main() {
+  vec2 px = vec2(a_x, a_y) + a_corner * a_size;
+  vec2 clip = px / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_unit = a_corner;
+  v_radius = a_size;
+  // Packed 0xRRGGBBAA arrives as little-endian bytes (A, B, G, R)
+  v_color = a_color.wzyx;
+}`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+
+in vec2 v_unit;
+in float v_radius;
+in vec4 v_color;
+
+uniform bool u_glow;
+uniform vec2 u_glowRange;
+
+out vec4 outColor;
+
+void main() {
+  float r = length(v_unit);
+  if (u_glow) {
+    // Same stops as the Canvas2D radial gradient: 0.4 -> 0.1 -> 0
+    float t = clamp((r * v_radius - u_glowRange.x) / (u_glowRange.y - u_glowRange.x), 0.0, 1.0);
+    float a = t < 0.5 ? mix(0.4, 0.1, t * 2.0) : mix(0.1, 0.0, (t - 0.5) * 2.0);
+    outColor = vec4(vec3(a), a);
+    return;
+  }
+  if (v_radius >= 2.0 && r > 1.0) discard;
+  outColor = vec4(v_color.rgb * v_color.a, v_color.a);
+}`;
+
+const ATTR_CORNER = 0;
+const ATTR_X = 1;
+const ATTR_Y = 2;
+const ATTR_SIZE = 3;
+const ATTR_COLOR = 4;
+
+const compileShader = (gl: WebGL2RenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type);
+  if (!shader) return null;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    console.error('Particle shader compile failed:', gl.getShaderInfoLog(shader));
+    gl.deleteShader(shader);
+    return null;
+  }
+  return shader;
+};
+
+const createProgram = (gl: WebGL2RenderingContext) => {
+  const vs = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fs = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  if (!vs || !fs) return null;
+
+  const program = gl.createProgram();
+  if (!program) return null;
+  gl.attachShader(program, vs);
+  gl.attachShader(program, fs);
+  gl.linkProgram(program);
+  gl.deleteShader(vs);
+  gl.deleteShader(fs);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    console.error('Particle program link failed:', gl.getProgramInfoLog(program));
+    gl.deleteProgram(program);
+    return null;
+  }
+  return program;
+};
+
+const getContext = (canvas: RenderTarget) =>
+  canvas.getContext('webgl2', {
+    alpha: true,
+    antialias: false,
+    premultipliedAlpha: true,
+    // Keeps the last frame readable for toDataURL / convertToBlob snapshots
+    preserveDrawingBuffer: true,
+  }) as WebGL2RenderingContext | null;
+
+// A canvas is locked to the first context type requested from it, so support
+// is probed on a scratch canvas before touching the real one.
+export const isWebGL2Supported = (): boolean => {
+  try {
+    const probe = typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(1, 1)
+      : document.createElement('canvas');
+    const gl = getContext(probe);
+    if (!gl) return false;
+    const program = createProgram(gl);
+    if (program) gl.deleteProgram(program);
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+    return program !== null;
+  } catch {
+    return false;
+  }
+};
+
+export const createWebGL2Renderer = (canvas: RenderTarget): ParticleRenderer | null => {
+  const gl = getContext(canvas);
+  if (!gl) return null;
+  const program = createProgram(gl);
+  if (!program) return null;
+
+  const uResolution = gl.getUniformLocation(program, 'u_resolution');
+  const uGlow = gl.getUniformLocation(program, 'u_glow');
+  const uGlowRange = gl.getUniformLocation(program, 'u_glowRange');
+
+  const vao = gl.createVertexArray();
+  gl.bindVertexArray(vao);
+
+  const cornerBuffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, cornerBuffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+  gl.enableVertexAttribArray(ATTR_CORNER);
+  gl.vertexAttribPointer(ATTR_CORNER, 2, gl.FLOAT, false, 0, 0);
+
+  const instanceBuffer = (location: number, size: number, type: number, normalized: boolean) => {
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.vertexAttribPointer(location, size, type, normalized, 0, 0);
+    gl.vertexAttribDivisor(location, 1);
+    return buffer;
+  };
+  const xBuffer = instanceBuffer(ATTR_X, 1, gl.FLOAT, false);
+  const yBuffer = instanceBuffer(ATTR_Y, 1, gl.FLOAT, false);
+  const sizeBuffer = instanceBuffer(ATTR_SIZE, 1, gl.FLOAT, false);
+  const colorBuffer = instanceBuffer(ATTR_COLOR, 4, gl.UNSIGNED_BYTE, true);
+  const instanceAttributes = [ATTR_X, ATTR_Y, ATTR_SIZE, ATTR_COLOR];
+
+  const upload = (buffer: WebGLBuffer | null, data: ArrayBufferView) => {
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, data, gl.STREAM_DRAW);
+  };
+
+  // Single quad with constant attributes, used for the sphere and the cursor glow
+  const drawSingle = (x: number, y: number, size: number, rgba: [number, number, number, number]) => {
+    instanceAttributes.forEach((location) => gl.disableVertexAttribArray(location));
+    gl.vertexAttrib1f(ATTR_X, x);
+    gl.vertexAttrib1f(ATTR_Y, y);
+    gl.vertexAttrib1f(ATTR_SIZE, size);
+    const [r, g, b, a] = rgba;
+    gl.vertexAttrib4f(ATTR_COLOR, a, b, g, r);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, 1);
+  };
+
+  const render = (store: ParticleStore, frame: FrameState) => {
+    const { width, height, centerX, centerY, universeRadius, pointers, scale = 1, sphere = true } = frame;
+
+    // Positions stay in layout pixels; the viewport does the scaling
+    gl.viewport(0, 0, Math.round(width * scale), Math.round(height * scale));
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    gl.useProgram(program);
+    gl.bindVertexArray(vao);
+    gl.uniform2f(uResolution, width, height);
+    gl.uniform1i(uGlow, 0);
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+
+    // Black Sphere Base
+    if (sphere) drawSingle(centerX, centerY, universeRadius, [0, 0, 0, 1]);
+
+    // Particles
+    const count = store.count;
+    if (count > 0) {
+      upload(xBuffer, store.x.subarray(0, count));
+      upload(yBuffer, store.y.subarray(0, count));
+      upload(sizeBuffer, store.size.subarray(0, count));
+      upload(colorBuffer, store.color.subarray(0, count));
+      instanceAttributes.forEach((location) => gl.enableVertexAttribArray(location));
+      gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, count);
+    }
+
+    // Cursor glow, additive like the 'lighter' composite operation
+    if (pointers.length > 0) {
+      gl.blendFunc(gl.ONE, gl.ONE);
+      gl.uniform1i(uGlow, 1);
+      gl.uniform2f(uGlowRange, CURSOR_GLOW_INNER, CURSOR_GLOW_OUTER);
+      pointers.forEach((pointer) => drawSingle(pointer.x, pointer.y, CURSOR_GLOW_OUTER, [1, 1, 1, 1]));
+    }
+  };
+
+  return {
+    kind: 'webgl2',
+    render,
+    dispose: () => {
+      [cornerBuffer, xBuffer, yBuffer, sizeBuffer, colorBuffer].forEach((buffer) => gl.deleteBuffer(buffer));
+      gl.deleteVertexArray(vao);
+      gl.deleteProgram(program);
+    },
+  };
+};
@@ -0,0 +1,305 @@
+import { RandomSource } from './random';
+import { packRgba } from './particleStore';
+
+export interface PixelSource {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export type SamplingStrategy =
+  // Alpha for images with transparency, luminance otherwise
+  | 'auto'
+  // Opaque pixels (PNG / SVG logos)
+  | 'alpha'
+  // Pixels that differ in brightness from the auto-detected background (JPEGs)
+  | 'luminance'
+  // Sobel edge magnitude, outlines only
+  | 'edges'
+  // Blue-noise placement over the foreground
+  | 'poisson'
+  // Random placement weighted by brightness contrast against the background
+  | 'density';
+
+export interface SamplingOptions {
+  strategy: SamplingStrategy;
+  // 0-255 cut-off; undefined uses the strategy's own default
+  threshold?: number;
+  // Target image particle count, independent of resolution. 0 keeps the
+  // legacy fixed grid (step 3 below 768px wide, 2 above).
+  budget: number;
+}
+
+export const DEFAULT_SAMPLING_OPTIONS: SamplingOptions = {
+  strategy: 'auto',
+  budget: 0,
+};
+
+const DEFAULT_THRESHOLDS: Record<Exclude<SamplingStrategy, 'auto'>, number> = {
+  alpha: 128,
+  luminance: 40,
+  edges: 64,
+  poisson: 40,
+  density: 16,
+};
+
+export interface SamplePoints {
+  count: number;
+  x: Float32Array;
+  y: Float32Array;
+  // Packed source color of each sample
+  color: Uint32Array;
+}
+
+export const luma = (data: Uint8ClampedArray, i: number) => 0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+
+// True when a meaningful share of pixels is see-through
+const hasTransparency = ({ data }: PixelSource) => {
+  let transparent = 0;
+  const total = data.length / 4;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 250) transparent++;
+  }
+  return transparent / total > 0.01;
+};
+
+// Background brightness estimated from the image border
+export const detectBackgroundLuminance = (pixels: PixelSource): number => {
+  const { data, width, height } = pixels;
+  let sum = 0;
+  let n = 0;
+  const visit = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    if (data[i + 3] > 128) {
+      sum += luma(data, i);
+      n++;
+    }
+  };
+  for (let x = 0; x < width; x++) {
+    visit(x, 0);
+    visit(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    visit(0, y);
+    visit(width - 1, y);
+  }
+  return n > 0 ? sum / n : 0;
+};
+
+export const resolveStrategy = (pixels: PixelSource, strategy: SamplingStrategy): Exclude<SamplingStrategy, 'auto'> =>
+  strategy !== 'auto' ? strategy : hasTransparency(pixels) ? 'alpha' : 'luminance';
+
+// Sobel on luminance premultiplied by alpha so transparent logos get outlines
+// too; 0-255, zero along the image border
+export const edgeMagnitude = ({ data, width, height }: PixelSource): Float32Array => {
+  const lum = new Float32Array(width * height);
+  for (let p = 0; p < lum.length; p++) {
+    lum[p] = luma(data, p * 4) * (data[p * 4 + 3] / 255);
+  }
+  const magnitude = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const tl = lum[p - width - 1], t = lum[p - width], tr = lum[p - width + 1];
+      const l = lum[p - 1], r = lum[p + 1];
+      const bl = lum[p + width - 1], b = lum[p + width], br = lum[p + width + 1];
+      const gx = tr + 2 * r + br - tl - 2 * l - bl;
+      const gy = bl + 2 * b + br - tl - 2 * t - tr;
+      magnitude[p] = Math.sqrt(gx * gx + gy * gy) / 4;
+    }
+  }
+  return magnitude;
+};
+
+// Per-pixel foreground weight in 0..1; zero means never sampled
+export const computeWeights = (
+  pixels: PixelSource,
+  strategy: Exclude<SamplingStrategy, 'auto'>,
+  threshold = DEFAULT_THRESHOLDS[strategy]
+): Float32Array => {
+  const { data, width, height } = pixels;
+  const weights = new Float32Array(width * height);
+  // Transparent images are measured by coverage, opaque ones against their background
+  const transparent = hasTransparency(pixels);
+  const background = transparent ? 0 : detectBackgroundLuminance(pixels);
+  const contrast = (i: number) => (transparent ? data[i + 3] : Math.abs(luma(data, i) - background) * (data[i + 3] / 255));
+
+  switch (strategy) {
+    case 'alpha':
+      for (let p = 0; p < weights.length; p++) {
+        weights[p] = data[p * 4 + 3] > threshold ? 1 : 0;
+      }
+      break;
+    case 'luminance':
+    case 'poisson':
+      for (let p = 0; p < weights.length; p++) {
+        weights[p] = contrast(p * 4) > threshold ? 1 : 0;
+      }
+      break;
+    case 'density':
+      for (let p = 0; p < weights.length; p++) {
+        const c = contrast(p * 4);
+        weights[p] = c > threshold ? c / 255 : 0;
+      }
+      break;
+    case 'edges': {
+      const magnitude = edgeMagnitude(pixels);
+      for (let p = 0; p < weights.length; p++) {
+        weights[p] = magnitude[p] > threshold ? 1 : 0;
+      }
+      break;
+    }
+  }
+
+  return weights;
+};
+
+export const legacyGridStep = (viewportWidth: number) => (viewportWidth < 768 ? 3 : 2);
+
+export const createPoints = (capacity: number): SamplePoints => ({
+  count: 0,
+  x: new Float32Array(capacity),
+  y: new Float32Array(capacity),
+  color: new Uint32Array(capacity),
+});
+
+export const pushPoint = (points: SamplePoints, x: number, y: number, color: number) => {
+  if (points.count >= points.x.length) {
+    const grown = createPoints(Math.max(16, points.x.length * 2));
+    grown.x.set(points.x);
+    grown.y.set(points.y);
+    grown.color.set(points.color);
+    points.x = grown.x;
+    points.y = grown.y;
+    points.color = grown.color;
+  }
+  const n = points.count++;
+  points.x[n] = x;
+  points.y[n] = y;
+  points.color[n] = color;
+};
+
+const addPoint = (points: SamplePoints, pixels: PixelSource, x: number, y: number) => {
+  const i = (y * pixels.width + x) * 4;
+  pushPoint(points, x, y, packRgba(pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]));
+};
+
+const countForeground = (weights: Float32Array) => {
+  let n = 0;
+  for (let p = 0; p < weights.length; p++) if (weights[p] > 0) n++;
+  return n;
+};
+
+// Regular grid; the step is derived from the budget so coverage stays constant
+const sampleGrid = (pixels: PixelSource, weights: Float32Array, budget: number, gridStep: number): SamplePoints => {
+  const { width, height } = pixels;
+  const step = budget > 0 ? Math.max(1, Math.sqrt(countForeground(weights) / budget)) : gridStep;
+  const points = createPoints(budget > 0 ? budget : 1024);
+
+  for (let fy = 0; fy < height; fy += step) {
+    const y = Math.floor(fy);
+    for (let fx = 0; fx < width; fx += step) {
+      const x = Math.floor(fx);
+      if (weights[y * width + x] > 0) addPoint(points, pixels, x, y);
+    }
+  }
+  return points;
+};
+
+// Dart throwing against a background grid: every accepted point keeps at least
+// `radius` from all others, which gives the even "blue noise" look
+const samplePoisson = (pixels: PixelSource, weights: Float32Array, budget: number, gridStep: number, random: RandomSource): SamplePoints => {
+  const { width, height } = pixels;
+  const foreground = new Uint32Array(countForeground(weights));
+  for (let p = 0, n = 0; p < weights.length; p++) if (weights[p] > 0) foreground[n++] = p;
+  if (foreground.length === 0) return createPoints(0);
+
+  // Dart throwing saturates at roughly 0.7 * area / radius² points
+  const radius = budget > 0
+    ? Math.max(1, Math.sqrt((foreground.length * 0.7) / budget))
+    : gridStep * 1.2;
+  const cellSize = radius / Math.SQRT2;
+  const cols = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+  const grid = new Int32Array(cols * rows).fill(-1);
+  const points = createPoints(budget > 0 ? budget : 1024);
+  const radiusSq = radius * radius;
+  const attempts = foreground.length * 2;
+
+  for (let a = 0; a < attempts; a++) {
+    const p = foreground[Math.floor(random() * foreground.length)];
+    const x = p % width;
+    const y = (p - x) / width;
+    const cx = Math.floor(x / cellSize);
+    const cy = Math.floor(y / cellSize);
+    if (grid[cy * cols + cx] !== -1) continue;
+
+    let free = true;
+    for (let gy = Math.max(0, cy - 2); free && gy <= Math.min(rows - 1, cy + 2); gy++) {
+      for (let gx = Math.max(0, cx - 2); gx <= Math.min(cols - 1, cx + 2); gx++) {
+        const other = grid[gy * cols + gx];
+        if (other === -1) continue;
+        const dx = points.x[other] - x;
+        const dy = points.y[other] - y;
+        if (dx * dx + dy * dy < radiusSq) {
+          free = false;
+          break;
+        }
+      }
+    }
+    if (!free) continue;
+
+    grid[cy * cols + cx] = points.count;
+    addPoint(points, pixels, x, y);
+  }
+  return points;
+};
+
+// Each pixel is kept with probability proportional to its weight
+const sampleDensity = (pixels: PixelSource, weights: Float32Array, budget: number, gridStep: number, random: RandomSource): SamplePoints => {
+  const { width } = pixels;
+  let total = 0;
+  for (let p = 0; p < weights.length; p++) total += weights[p];
+  if (total === 0) return createPoints(0);
+
+  const target = budget > 0 ? budget : countForeground(weights) / (gridStep * gridStep);
+  const scale = target / total;
+  const points = createPoints(Math.ceil(target));
+
+  for (let p = 0; p < weights.length; p++) {
+    if (weights[p] > 0 && random() < weights[p] * scale) {
+      const x = p % width;
+      addPoint(points, pixels, x, (p - x) / width);
+    }
+  }
+  return points;
+};
+
+// gridStep is the spacing used when no budget is set. Pixels failing `include`
+// are never picked, so the whole budget goes to the ones that pass.
+export const samplePixels = (
+  pixels: PixelSource,
+  options: SamplingOptions,
+  random: RandomSource,
+  gridStep = legacyGridStep(pixels.width),
+  include?: (x: number, y: number) => boolean
+): SamplePoints => {
+  const strategy = resolveStrategy(pixels, options.strategy);
+  const weights = computeWeights(pixels, strategy, options.threshold);
+  if (include) {
+    for (let p = 0; p < weights.length; p++) {
+      const x = p % pixels.width;
+      if (weights[p] > 0 && !include(x, (p - x) / pixels.width)) weights[p] = 0;
+    }
+  }
+  const budget = Math.max(0, Math.floor(options.budget));
+
+  switch (strategy) {
+    case 'poisson':
+      return samplePoisson(pixels, weights, budget, gridStep, random);
+    case 'density':
+      return sampleDensity(pixels, weights, budget, gridStep, random);
+    default:
+      return sampleGrid(pixels, weights, budget, gridStep);
+  }
+};
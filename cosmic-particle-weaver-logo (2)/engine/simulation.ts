@@ -0,0 +1,232 @@
+import { createParticleStore, ParticleKind, ParticleStore } from './particleStore';
+import { createForceSystem, DEFAULT_FORCE_FIELDS, ForceField, ShockwaveOptions } from './forces';
+
+export interface SimulationParams {
+  // Radius in pixels of fields that don't set their own
+  interactionRadius: number;
+  // Fraction of the remaining distance the smoothed pointer covers per 60 Hz frame
+  smoothing: number;
+  // Velocity kept per 60 Hz frame
+  friction: number;
+  // Spring pulls 1/springDivisor of the offset from home per 60 Hz frame
+  springDivisor: number;
+  // Strength of fields that don't set their own (multiplied by particle density)
+  repulsionStrength: number;
+}
+
+export const DEFAULT_SIMULATION_PARAMS: SimulationParams = {
+  interactionRadius: 320,
+  smoothing: 0.15,
+  friction: 0.9,
+  springDivisor: 25,
+  repulsionStrength: 2.0,
+};
+
+// All tuning constants were authored against 60 fps requestAnimationFrame ticks
+export const REFERENCE_FPS = 60;
+const REFERENCE_DT = 1 / REFERENCE_FPS;
+// Longer gaps (tab switches, debugger pauses) are clamped to avoid explosions
+const MAX_STEP_DT = 0.25;
+
+// One interaction point: the mouse, a touch or a tracked hand
+export interface Pointer {
+  // Stable across updates so each pointer keeps its own smoothing
+  id: string;
+  x: number;
+  y: number;
+  // Interaction radius in pixels; defaults to the radius of each field bound to it
+  radius?: number;
+  // Positive keeps the bound fields as they are, negative inverts them
+  // (a repel field attracts); the magnitude scales their strength
+  force?: number;
+  // Already filtered by its source (hands go through a One Euro filter), so
+  // followed directly instead of lagging behind a second smoothing pass
+  smoothed?: boolean;
+}
+
+// Smoothed pointer used by physics and rendering
+export interface PointerState {
+  id: string;
+  x: number;
+  y: number;
+  radius?: number;
+  force: number;
+}
+
+// Applied to every particle's home on top of its origin: scale about the
+// center, and a rotation of the ambient field (the logo stays upright)
+export interface HomeTransform {
+  scale: number;
+  // Radians
+  rotation: number;
+}
+
+export const IDENTITY_HOME: HomeTransform = { scale: 1, rotation: 0 };
+
+export interface Simulation {
+  readonly params: SimulationParams;
+  getStore: () => ParticleStore;
+  setStore: (store: ParticleStore) => void;
+  setBounds: (width: number, height: number) => void;
+  setParams: (params: Partial<SimulationParams>) => void;
+  // Raw pointer input; pointers missing from the set are released
+  setPointers: (pointers: Pointer[]) => void;
+  getPointers: () => readonly PointerState[];
+  // Force fields acting on the particles, composed in order
+  setFields: (fields: ForceField[]) => void;
+  // One-off expanding ring at (x, y)
+  pulse: (x: number, y: number, options?: Partial<ShockwaveOptions>) => void;
+  setHomeTransform: (transform: HomeTransform) => void;
+  // Advance the simulation by dt seconds
+  step: (dt: number) => void;
+  // Back to time zero with no rings in flight, so time-varying fields replay identically
+  reset: () => void;
+}
+
+export const createSimulation = (
+  width: number,
+  height: number,
+  params: Partial<SimulationParams> = {},
+  fields: ForceField[] = DEFAULT_FORCE_FIELDS
+): Simulation => {
+  const state = {
+    store: createParticleStore(),
+    width,
+    height,
+    params: { ...DEFAULT_SIMULATION_PARAMS, ...params },
+    // Seconds of simulated time, drives time-varying fields
+    time: 0,
+  };
+  const forces = createForceSystem(fields);
+  // Particles a field holds away from their home spring this step
+  let held = new Uint8Array(0);
+  const targets = new Map<string, Pointer>();
+  const smoothed = new Map<string, PointerState>();
+  let pointerList: PointerState[] = [];
+  let home = IDENTITY_HOME;
+
+  // Exponential smoothing per pointer, expressed per reference frame
+  const smoothPointers = (k: number) => {
+    const p = state.params;
+    const factor = 1 - Math.pow(1 - p.smoothing, k);
+    let added = false;
+    targets.forEach((target, id) => {
+      const radius = target.radius;
+      const force = target.force ?? 1;
+      const current = smoothed.get(id);
+      if (!current) {
+        smoothed.set(id, { id, x: target.x, y: target.y, radius, force });
+        added = true;
+        return;
+      }
+      const f = target.smoothed ? 1 : factor;
+      current.x += (target.x - current.x) * f;
+      current.y += (target.y - current.y) * f;
+      current.radius = radius;
+      current.force = force;
+    });
+    if (added) pointerList = Array.from(smoothed.values());
+  };
+
+  // Advance by k reference frames (k <= 1)
+  const integrate = (k: number) => {
+    const { store, params: p } = state;
+    const { x, y, vx, vy, originX, originY, kind } = store;
+    const centerX = state.width / 2;
+    const centerY = state.height / 2;
+    const { scale } = home;
+    const cos = Math.cos(home.rotation) * scale;
+    const sin = Math.sin(home.rotation) * scale;
+
+    smoothPointers(k);
+    const damping = Math.pow(p.friction, k);
+    const spring = k / p.springDivisor;
+
+    if (held.length < store.capacity) held = new Uint8Array(store.capacity);
+    held.fill(0, 0, store.count);
+    forces.apply(store, held, {
+      pointers: pointerList,
+      width: state.width,
+      height: state.height,
+      defaultRadius: p.interactionRadius,
+      defaultStrength: p.repulsionStrength,
+      k,
+      dt: k * REFERENCE_DT,
+      time: state.time,
+    });
+    state.time += k * REFERENCE_DT;
+
+    for (let i = 0; i < store.count; i++) {
+      if (!held[i]) {
+        // Dynamic home position based on relative origin + current center
+        let homeX: number;
+        let homeY: number;
+        if (kind[i] === ParticleKind.IMAGE) {
+          homeX = originX[i] * scale;
+          homeY = originY[i] * scale;
+        } else {
+          homeX = originX[i] * cos - originY[i] * sin;
+          homeY = originX[i] * sin + originY[i] * cos;
+        }
+        vx[i] -= (x[i] - (centerX + homeX)) * spring;
+        vy[i] -= (y[i] - (centerY + homeY)) * spring;
+      }
+
+      vx[i] *= damping;
+      vy[i] *= damping;
+
+      x[i] += vx[i] * k;
+      y[i] += vy[i] * k;
+    }
+  };
+
+  return {
+    get params() {
+      return state.params;
+    },
+    getStore: () => state.store,
+    setStore: (store) => {
+      state.store = store;
+    },
+    setBounds: (w, h) => {
+      state.width = w;
+      state.height = h;
+    },
+    setParams: (params) => {
+      state.params = { ...state.params, ...params };
+    },
+    setPointers: (pointers) => {
+      targets.clear();
+      pointers.forEach((pointer) => targets.set(pointer.id, pointer));
+      // Released pointers stop acting immediately
+      let removed = false;
+      smoothed.forEach((_, id) => {
+        if (!targets.has(id)) {
+          smoothed.delete(id);
+          removed = true;
+        }
+      });
+      if (removed) pointerList = Array.from(smoothed.values());
+    },
+    getPointers: () => pointerList,
+    setFields: forces.setFields,
+    pulse: forces.pulse,
+    setHomeTransform: (transform) => {
+      home = transform;
+    },
+    reset: () => {
+      state.time = 0;
+      forces.reset();
+    },
+    step: (dt) => {
+      // Fixed sub-steps of at most one reference frame keep the result
+      // independent of display refresh rate
+      let remaining = Math.min(Math.max(dt, 0), MAX_STEP_DT) / REFERENCE_DT;
+      while (remaining > 1e-6) {
+        const k = Math.min(remaining, 1);
+        integrate(k);
+        remaining -= k;
+      }
+    },
+  };
+};
@@ -0,0 +1,39 @@
+import { ParticleStore, unpackRgba } from './particleStore';
+import { FrameState } from './renderers';
+import { Backdrop, backdropToSvg } from './backdrop';
+
+// Two decimals are far below a pixel and keep the file small
+const num = (value: number) => +value.toFixed(2);
+
+const hex = (r: number, g: number, b: number) => `#${((1 << 24) | (r << 16) | (g << 8) | b).toString(16).slice(1)}`;
+
+const fillAttributes = (color: number) => {
+  const [r, g, b, a] = unpackRgba(color);
+  return a === 255 ? `fill="${hex(r, g, b)}"` : `fill="${hex(r, g, b)}" fill-opacity="${num(a / 255)}"`;
+};
+
+// Every particle as a circle, in draw order. Consecutive particles of one color
+// share a group, which matters after the store has been sorted by color.
+export const particlesToSvg = (store: ParticleStore, frame: FrameState, backdrop?: Backdrop): string => {
+  const { width, height, centerX, centerY, universeRadius, scale = 1, sphere = true } = frame;
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.round(width * scale)}" height="${Math.round(height * scale)}" viewBox="0 0 ${width} ${height}">`,
+  ];
+  if (backdrop) parts.push(backdropToSvg(width, height, backdrop));
+  if (sphere) parts.push(`<circle cx="${num(centerX)}" cy="${num(centerY)}" r="${num(universeRadius)}" fill="#000000"/>`);
+
+  const { x, y, size, color } = store;
+  let lastColor: number | null = null;
+  for (let i = 0; i < store.count; i++) {
+    if (color[i] !== lastColor) {
+      if (lastColor !== null) parts.push('</g>');
+      lastColor = color[i];
+      parts.push(`<g ${fillAttributes(lastColor)}>`);
+    }
+    parts.push(`<circle cx="${num(x[i])}" cy="${num(y[i])}" r="${num(size[i])}"/>`);
+  }
+  if (lastColor !== null) parts.push('</g>');
+
+  parts.push('</svg>');
+  return parts.join('\n');
+};
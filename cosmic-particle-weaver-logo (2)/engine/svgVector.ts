@@ -0,0 +1,169 @@
+import { GlyphShape, Matrix, PathShape, VectorShape, VectorSource } from './vectorSource';
+
+// Turns SVG markup into vector shapes the engine can draw at any scale. The
+// document is briefly mounted so the browser resolves CSS, inherited styles,
+// transforms and text layout (including textPath and letter-spacing) for us.
+// Main thread only; returns null for anything it can't represent faithfully,
+// in which case callers fall back to rasterizing the SVG.
+
+const SHAPE_SELECTOR = 'path, rect, circle, ellipse, line, polyline, polygon, text';
+// Content in these is only drawn through references, never directly
+const NON_RENDERED_SELECTOR = 'defs, clipPath, mask, symbol, marker, pattern';
+// Features whose output the shapes above can't reproduce
+const UNSUPPORTED_SELECTOR = 'use, image, foreignObject';
+
+const num = (el: Element, name: string) => parseFloat(el.getAttribute(name) ?? '') || 0;
+
+const pointsToPath = (points: string, close: boolean) => {
+  const values = points.trim().split(/[\s,]+/).map(Number).filter((n) => !isNaN(n));
+  if (values.length < 4) return '';
+  let d = `M${values[0]} ${values[1]}`;
+  for (let i = 2; i + 1 < values.length; i += 2) d += `L${values[i]} ${values[i + 1]}`;
+  return close ? `${d}Z` : d;
+};
+
+const ellipsePath = (cx: number, cy: number, rx: number, ry: number) =>
+  rx <= 0 || ry <= 0
+    ? ''
+    : `M${cx - rx} ${cy}A${rx} ${ry} 0 1 0 ${cx + rx} ${cy}A${rx} ${ry} 0 1 0 ${cx - rx} ${cy}Z`;
+
+const rectPath = (el: Element) => {
+  const x = num(el, 'x'), y = num(el, 'y'), w = num(el, 'width'), h = num(el, 'height');
+  if (w <= 0 || h <= 0) return '';
+  // A missing rx or ry takes the other's value
+  let rx = el.hasAttribute('rx') ? num(el, 'rx') : num(el, 'ry');
+  let ry = el.hasAttribute('ry') ? num(el, 'ry') : rx;
+  rx = Math.min(rx, w / 2);
+  ry = Math.min(ry, h / 2);
+  if (rx <= 0 || ry <= 0) return `M${x} ${y}H${x + w}V${y + h}H${x}Z`;
+  return `M${x + rx} ${y}H${x + w - rx}A${rx} ${ry} 0 0 1 ${x + w} ${y + ry}V${y + h - ry}` +
+    `A${rx} ${ry} 0 0 1 ${x + w - rx} ${y + h}H${x + rx}A${rx} ${ry} 0 0 1 ${x} ${y + h - ry}` +
+    `V${y + ry}A${rx} ${ry} 0 0 1 ${x + rx} ${y}Z`;
+};
+
+const shapePathData = (el: Element): string => {
+  switch (el.tagName) {
+    case 'path':
+      return el.getAttribute('d') ?? '';
+    case 'rect':
+      return rectPath(el);
+    case 'circle':
+      return ellipsePath(num(el, 'cx'), num(el, 'cy'), num(el, 'r'), num(el, 'r'));
+    case 'ellipse':
+      return ellipsePath(num(el, 'cx'), num(el, 'cy'), num(el, 'rx'), num(el, 'ry'));
+    case 'line':
+      return `M${num(el, 'x1')} ${num(el, 'y1')}L${num(el, 'x2')} ${num(el, 'y2')}`;
+    case 'polyline':
+      return pointsToPath(el.getAttribute('points') ?? '', false);
+    case 'polygon':
+      return pointsToPath(el.getAttribute('points') ?? '', true);
+    default:
+      return '';
+  }
+};
+
+// Gradients and patterns have no single color; white keeps the shape visible
+const paintColor = (paint: string): string | null => {
+  if (!paint || paint === 'none') return null;
+  return paint.startsWith('url(') ? '#ffffff' : paint;
+};
+
+const matrixOf = (el: SVGGraphicsElement): Matrix => {
+  const m = el.getCTM();
+  return m ? [m.a, m.b, m.c, m.d, m.e, m.f] : [1, 0, 0, 1, 0, 0];
+};
+
+// The characters the text layout addresses, after default whitespace collapsing
+const addressableText = (el: SVGTextElement) => Array.from((el.textContent ?? '').replace(/\s+/g, ' ').trim());
+
+const textShape = (el: SVGTextElement, style: CSSStyleDeclaration): GlyphShape | null => {
+  const fill = paintColor(style.fill);
+  const chars = addressableText(el);
+  const count = el.getNumberOfChars();
+  // Surrogate pairs and preserved whitespace shift the indices; don't guess
+  if (chars.length !== count) return null;
+  const glyphs = chars.flatMap((char, i) => {
+    if (char === ' ') return [];
+    const start = el.getStartPositionOfChar(i);
+    return [{ char, x: start.x, y: start.y, rotation: el.getRotationOfChar(i) }];
+  });
+  return {
+    kind: 'glyphs',
+    font: `${style.fontStyle} ${style.fontWeight} ${style.fontSize} ${style.fontFamily}`,
+    fill: fill ?? '#ffffff',
+    glyphs,
+    transform: matrixOf(el),
+  };
+};
+
+const pathShape = (el: SVGGraphicsElement, style: CSSStyleDeclaration): PathShape | null => {
+  const d = shapePathData(el);
+  if (!d) return null;
+  return {
+    kind: 'path',
+    d,
+    transform: matrixOf(el),
+    fill: paintColor(style.fill),
+    stroke: paintColor(style.stroke),
+    strokeWidth: parseFloat(style.strokeWidth) || 0,
+    fillRule: style.fillRule === 'evenodd' ? 'evenodd' : 'nonzero',
+  };
+};
+
+// Frame of the drawing in user units: the viewBox, else width/height, else the content box
+const readFrame = (svg: SVGSVGElement) => {
+  const viewBox = svg.viewBox.baseVal;
+  if (viewBox && viewBox.width > 0 && viewBox.height > 0) {
+    return { x: viewBox.x, y: viewBox.y, width: viewBox.width, height: viewBox.height };
+  }
+  const width = parseFloat(svg.getAttribute('width') ?? '');
+  const height = parseFloat(svg.getAttribute('height') ?? '');
+  if (width > 0 && height > 0) return { x: 0, y: 0, width, height };
+  return null;
+};
+
+export const parseSvgToVector = (markup: string): VectorSource | null => {
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (root.tagName !== 'svg' || doc.querySelector('parsererror')) return null;
+  if (root.querySelector(UNSUPPORTED_SELECTOR)) return null;
+
+  const container = document.createElement('div');
+  container.style.cssText = 'position:absolute;left:-100000px;top:0;visibility:hidden;pointer-events:none';
+  const svg = document.importNode(root, true) as unknown as SVGSVGElement;
+  container.appendChild(svg);
+  document.body.appendChild(container);
+
+  try {
+    let frame = readFrame(svg);
+    if (!frame) {
+      const box = svg.getBBox();
+      if (box.width <= 0 || box.height <= 0) return null;
+      frame = { x: box.x, y: box.y, width: box.width, height: box.height };
+      svg.setAttribute('viewBox', `${frame.x} ${frame.y} ${frame.width} ${frame.height}`);
+    }
+    // One user unit per pixel, so every CTM maps straight into the frame
+    svg.setAttribute('width', String(frame.width));
+    svg.setAttribute('height', String(frame.height));
+    svg.setAttribute('preserveAspectRatio', 'none');
+
+    const shapes: VectorShape[] = [];
+    for (const el of Array.from(svg.querySelectorAll(SHAPE_SELECTOR)) as SVGGraphicsElement[]) {
+      if (el.closest(NON_RENDERED_SELECTOR)) continue;
+      const style = getComputedStyle(el);
+      if (style.display === 'none' || style.visibility === 'hidden' || parseFloat(style.opacity) === 0) continue;
+      if (el.tagName === 'text') {
+        const shape = textShape(el as SVGTextElement, style);
+        if (!shape) return null;
+        shapes.push(shape);
+      } else {
+        const shape = pathShape(el, style);
+        if (shape) shapes.push(shape);
+      }
+    }
+    if (shapes.length === 0) return null;
+    return { kind: 'vector', width: frame.width, height: frame.height, shapes };
+  } finally {
+    container.remove();
+  }
+};
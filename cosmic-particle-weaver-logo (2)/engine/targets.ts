@@ -0,0 +1,121 @@
+import { RandomSource } from './random';
+import { createScratchCanvas, getScratchContext } from './canvasUtils';
+import { drawLayerSource, LayerSource } from './vectorSource';
+import { computePlacement, isInsideUniverse, LayoutOptions, Rect } from './layout';
+import {
+  computeWeights,
+  createPoints,
+  legacyGridStep,
+  pushPoint,
+  resolveStrategy,
+  samplePixels,
+  SamplePoints,
+  SamplingOptions,
+} from './sampling';
+
+export interface LogoLayerInput {
+  image: LayerSource;
+  layout: LayoutOptions;
+}
+
+// Trimming is judged on a thumbnail; exact edges don't matter for fitting
+const TRIM_ANALYSIS_SIZE = 256;
+
+const readPixels = (image: LayerSource, src: Rect, width: number, height: number) => {
+  const scratch = createScratchCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+  const ctx = getScratchContext(scratch);
+  if (!ctx) return null;
+  drawLayerSource(ctx, image, src, scratch.width, scratch.height);
+  return ctx.getImageData(0, 0, scratch.width, scratch.height);
+};
+
+// Bounding box of the content the sampler would pick, in image pixels
+export const findContentBounds = (image: LayerSource, sampling: SamplingOptions): Rect => {
+  const full = { x: 0, y: 0, width: image.width, height: image.height };
+  const scale = Math.min(1, TRIM_ANALYSIS_SIZE / Math.max(image.width, image.height));
+  const pixels = readPixels(image, full, image.width * scale, image.height * scale);
+  if (!pixels) return full;
+
+  // Edge sampling would trim to the outline, which is what the fill covers anyway
+  const strategy = resolveStrategy(pixels, sampling.strategy === 'edges' ? 'auto' : sampling.strategy);
+  const weights = computeWeights(pixels, strategy, sampling.strategy === 'edges' ? undefined : sampling.threshold);
+  let minX = pixels.width, minY = pixels.height, maxX = -1, maxY = -1;
+  for (let y = 0; y < pixels.height; y++) {
+    for (let x = 0; x < pixels.width; x++) {
+      if (weights[y * pixels.width + x] > 0) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  if (maxX < 0) return full;
+
+  // One thumbnail pixel of slack on each side
+  const x = Math.max(0, (minX - 1) / scale);
+  const y = Math.max(0, (minY - 1) / scale);
+  return {
+    x,
+    y,
+    width: Math.min(image.width, (maxX + 2) / scale) - x,
+    height: Math.min(image.height, (maxY + 2) / scale) - y,
+  };
+};
+
+// Lays out every logo layer, rasterizes only its visible part at display
+// resolution and samples it. Points come back in viewport pixels.
+export const buildTargets = (
+  layers: LogoLayerInput[],
+  width: number,
+  height: number,
+  sampling: SamplingOptions,
+  random: RandomSource
+): SamplePoints => {
+  const targets = createPoints(1024);
+
+  const placed = layers.map(({ image, layout }) => {
+    const content = layout.trim
+      ? findContentBounds(image, sampling)
+      : { x: 0, y: 0, width: image.width, height: image.height };
+    return { image, layout, content, placement: computePlacement(layout, content, width, height) };
+  });
+
+  // The budget is shared between layers by visible area
+  const totalArea = placed.reduce((sum, { placement }) => sum + placement.visible.width * placement.visible.height, 0);
+
+  for (const { image, layout, content, placement } of placed) {
+    const { dest, visible } = placement;
+    if (visible.width < 1 || visible.height < 1 || dest.width <= 0 || dest.height <= 0) continue;
+
+    // Map the visible viewport rect back into image pixels
+    const sx = content.width / dest.width;
+    const sy = content.height / dest.height;
+    const src = {
+      x: content.x + (visible.x - dest.x) * sx,
+      y: content.y + (visible.y - dest.y) * sy,
+      width: visible.width * sx,
+      height: visible.height * sy,
+    };
+    const pixels = readPixels(image, src, visible.width, visible.height);
+    if (!pixels) continue;
+
+    const offsetX = Math.round(visible.x);
+    const offsetY = Math.round(visible.y);
+    const share = (visible.width * visible.height) / totalArea;
+    const points = samplePixels(
+      pixels,
+      { ...sampling, budget: sampling.budget > 0 ? Math.max(1, Math.round(sampling.budget * share)) : 0 },
+      random,
+      legacyGridStep(width),
+      // The visible rect still has corners outside the circle; they are masked before sampling
+      layout.clipToUniverse ? (x, y) => isInsideUniverse(x + offsetX, y + offsetY, width, height) : undefined
+    );
+
+    for (let i = 0; i < points.count; i++) {
+      pushPoint(targets, points.x[i] + offsetX, points.y[i] + offsetY, points.color[i]);
+    }
+  }
+
+  return targets;
+};
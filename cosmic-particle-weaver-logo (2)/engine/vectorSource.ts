@@ -0,0 +1,111 @@
+import { EngineImage, ScratchContext } from './canvasUtils';
+import { Rect } from './layout';
+
+// 2D affine matrix as [a, b, c, d, e, f], the same order as canvas `transform()`
+export type Matrix = [number, number, number, number, number, number];
+
+export interface PathShape {
+  kind: 'path';
+  // SVG path data
+  d: string;
+  transform: Matrix;
+  // CSS colors; null skips that part
+  fill: string | null;
+  stroke: string | null;
+  strokeWidth: number;
+  fillRule: CanvasFillRule;
+}
+
+export interface Glyph {
+  char: string;
+  // Start of the glyph on its baseline, in the shape's own coordinates
+  x: number;
+  y: number;
+  // Degrees, clockwise
+  rotation: number;
+}
+
+export interface GlyphShape {
+  kind: 'glyphs';
+  // CSS font shorthand, sized in the shape's own units
+  font: string;
+  fill: string;
+  glyphs: Glyph[];
+  transform: Matrix;
+}
+
+export type VectorShape = PathShape | GlyphShape;
+
+// Geometry that is drawn at whatever size it is sampled at, so text and SVG
+// logos stay sharp at any scale. Plain data, so it can be sent to the worker.
+export interface VectorSource {
+  kind: 'vector';
+  width: number;
+  height: number;
+  shapes: VectorShape[];
+}
+
+// What a logo layer can be built from
+export type LayerSource = EngineImage | VectorSource;
+
+export const isVectorSource = (source: LayerSource): source is VectorSource =>
+  (source as VectorSource).kind === 'vector';
+
+// Built once per shape; Path2D parsing is the expensive part
+const pathCache = new WeakMap<PathShape, Path2D>();
+
+const getPath = (shape: PathShape) => {
+  let path = pathCache.get(shape);
+  if (!path) {
+    path = new Path2D(shape.d);
+    pathCache.set(shape, path);
+  }
+  return path;
+};
+
+const drawShape = (ctx: ScratchContext, shape: VectorShape) => {
+  ctx.save();
+  ctx.transform(...shape.transform);
+  if (shape.kind === 'path') {
+    const path = getPath(shape);
+    if (shape.fill) {
+      ctx.fillStyle = shape.fill;
+      ctx.fill(path, shape.fillRule);
+    }
+    if (shape.stroke && shape.strokeWidth > 0) {
+      ctx.strokeStyle = shape.stroke;
+      ctx.lineWidth = shape.strokeWidth;
+      ctx.stroke(path);
+    }
+  } else {
+    ctx.font = shape.font;
+    ctx.fillStyle = shape.fill;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'alphabetic';
+    for (const glyph of shape.glyphs) {
+      ctx.save();
+      ctx.translate(glyph.x, glyph.y);
+      ctx.rotate((glyph.rotation * Math.PI) / 180);
+      ctx.fillText(glyph.char, 0, 0);
+      ctx.restore();
+    }
+  }
+  ctx.restore();
+};
+
+// Draws the `src` part of a source so it fills width x height at the context's origin
+export const drawLayerSource = (ctx: ScratchContext, source: LayerSource, src: Rect, width: number, height: number) => {
+  if (!isVectorSource(source)) {
+    ctx.drawImage(source, src.x, src.y, src.width, src.height, 0, 0, width, height);
+    return;
+  }
+  const sx = width / src.width;
+  const sy = height / src.height;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, 0, width, height);
+  ctx.clip();
+  ctx.transform(sx, 0, 0, sy, -src.x * sx, -src.y * sy);
+  source.shapes.forEach((shape) => drawShape(ctx, shape));
+  ctx.restore();
+};
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AudioLevels } from '../engine/audioReactive';
+import { AudioInput, openAudioFile, openMicrophone } from '../audio/audioInput';
+
+export interface AudioMeter {
+  levels: AudioLevels | null;
+  // performance.now() of the last beat
+  lastBeatAt: number;
+}
+
+export interface AudioControls {
+  // Label of the running input
+  input: { kind: AudioInput['kind']; name: string } | null;
+  error: string | null;
+  startMicrophone: () => Promise<void>;
+  startFile: (file: File) => Promise<void>;
+  stop: () => void;
+  // Read by meters on their own schedule, so levels don't re-render the app every frame
+  getMeter: () => AudioMeter;
+}
+
+const describeAudioError = (e: unknown) => {
+  if (e instanceof DOMException) {
+    if (e.name === 'NotAllowedError') return 'Microphone access denied';
+    if (e.name === 'NotFoundError') return 'No microphone found';
+  }
+  return e instanceof Error || e instanceof DOMException ? e.message : 'Audio could not be started';
+};
+
+// Reads the running audio input once per animation frame and hands the levels on
+export const useAudioReactive = (onLevels: (levels: AudioLevels | null) => void): AudioControls => {
+  const onLevelsRef = useRef(onLevels);
+  onLevelsRef.current = onLevels;
+  const inputRef = useRef<AudioInput | null>(null);
+  // Bumped by stop, so an input that opens after being cancelled is closed again
+  const runRef = useRef(0);
+  const meterRef = useRef<AudioMeter>({ levels: null, lastBeatAt: -Infinity });
+  const [input, setInput] = useState<AudioControls['input']>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stop = useCallback(() => {
+    runRef.current++;
+    inputRef.current?.stop();
+    inputRef.current = null;
+    meterRef.current = { levels: null, lastBeatAt: -Infinity };
+    setInput(null);
+    onLevelsRef.current(null);
+  }, []);
+
+  const start = useCallback(async (open: () => Promise<AudioInput>) => {
+    stop();
+    const run = runRef.current;
+    try {
+      const next = await open();
+      if (run !== runRef.current) {
+        next.stop();
+        return;
+      }
+      inputRef.current = next;
+      setInput({ kind: next.kind, name: next.name });
+      setError(null);
+    } catch (e) {
+      if (run !== runRef.current) return;
+      console.error('Audio input failed:', e);
+      setError(describeAudioError(e));
+    }
+  }, [stop]);
+
+  useEffect(() => {
+    if (!input) return;
+    let frame = 0;
+    const tick = () => {
+      const current = inputRef.current;
+      if (!current) return;
+      const levels = current.read();
+      meterRef.current = { levels, lastBeatAt: levels.beat ? performance.now() : meterRef.current.lastBeatAt };
+      onLevelsRef.current(levels);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [input]);
+
+  useEffect(() => () => inputRef.current?.stop(), []);
+
+  const startMicrophone = useCallback(() => start(() => openMicrophone()), [start]);
+  const startFile = useCallback((file: File) => start(() => openAudioFile(file)), [start]);
+  const getMeter = useCallback(() => meterRef.current, []);
+
+  return useMemo(() => ({
+    input,
+    error,
+    startMicrophone,
+    startFile,
+    stop,
+    getMeter,
+  }), [input, error, startMicrophone, startFile, stop, getMeter]);
+};
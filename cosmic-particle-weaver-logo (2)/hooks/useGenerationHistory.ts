@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { addGeneration, deleteGeneration, GenerationRecord, listGenerations, NewGeneration } from '../services/generationHistory';
+
+export interface HistoryEntry extends GenerationRecord {
+  // Object URL of the thumbnail, valid while the entry is listed
+  thumbnailUrl: string;
+}
+
+export interface GenerationHistory {
+  // Newest first
+  entries: HistoryEntry[];
+  // Set when IndexedDB can't be used; generating still works without history
+  error: string | null;
+  add: (generation: NewGeneration) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+export const useGenerationHistory = (): GenerationHistory => {
+  const [records, setRecords] = useState<GenerationRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Thumbnail URLs by record id, so unchanged entries keep theirs across updates
+  const thumbnailUrlsRef = useRef(new Map<string, string>());
+
+  const fail = useCallback((e: unknown) => {
+    console.error('Generation history error:', e);
+    setError(e instanceof Error ? e.message : 'History is unavailable');
+  }, []);
+
+  const reload = useCallback(async () => {
+    setRecords(await listGenerations());
+    setError(null);
+  }, []);
+
+  useEffect(() => {
+    reload().catch(fail);
+  }, [reload, fail]);
+
+  const entries = useMemo(() => {
+    const urls = thumbnailUrlsRef.current;
+    const listed = new Set(records.map((record) => record.id));
+    urls.forEach((url, id) => {
+      if (!listed.has(id)) {
+        URL.revokeObjectURL(url);
+        urls.delete(id);
+      }
+    });
+    return records.map((record) => {
+      let thumbnailUrl = urls.get(record.id);
+      if (!thumbnailUrl) {
+        thumbnailUrl = URL.createObjectURL(record.thumbnail);
+        urls.set(record.id, thumbnailUrl);
+      }
+      return { ...record, thumbnailUrl };
+    });
+  }, [records]);
+
+  // Reloading also picks up entries pruned past the history limit
+  const add = useCallback((generation: NewGeneration) => addGeneration(generation).then(reload).catch(fail), [reload, fail]);
+
+  const remove = useCallback((id: string) => deleteGeneration(id).then(reload).catch(fail), [reload, fail]);
+
+  return useMemo(() => ({ entries, error, add, remove }), [entries, error, add, remove]);
+};
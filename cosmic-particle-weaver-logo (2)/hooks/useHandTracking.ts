@@ -0,0 +1,18 @@
+import { useEffect, useMemo, useState } from 'react';
+import { HandTrackingSettings, loadStoredHandTracking, saveStoredHandTracking } from '../services/handTracking';
+
+export interface HandTrackingControls {
+  tracking: HandTrackingSettings;
+  setTracking: (tracking: HandTrackingSettings) => void;
+}
+
+// Landmark, active region, filter and calibration, persisted to localStorage on every change
+export const useHandTracking = (): HandTrackingControls => {
+  const [tracking, setTracking] = useState<HandTrackingSettings>(loadStoredHandTracking);
+
+  useEffect(() => {
+    saveStoredHandTracking(tracking);
+  }, [tracking]);
+
+  return useMemo(() => ({ tracking, setTracking }), [tracking]);
+};
@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Pointer } from '../engine/simulation';
+import { createInputHub, HandFrame, InputHub } from '../input/inputSource';
+import { createGamepadSource, createMouseSource, createTouchSource } from '../input/pointerSources';
+import { createInputRecorder, createReplaySource, InputRecording, InputRecordingSession } from '../input/replay';
+
+export interface InputControls {
+  hub: InputHub;
+  isRecording: boolean;
+  startRecording: () => void;
+  // Returns what was recorded since startRecording
+  stopRecording: () => InputRecording | null;
+  // Name of the recording being replayed
+  replaying: string | null;
+  startReplay: (recording: InputRecording, name: string, loop: boolean) => void;
+  stopReplay: () => void;
+}
+
+interface InputSourcesOptions {
+  onPointers: (pointers: Pointer[]) => void;
+  // Hand frames that didn't come from the camera (replays), keyed by sink
+  onHands: (key: string, frame: HandFrame) => void;
+}
+
+// Mouse, touch and gamepad are always attached; hands and replays join through the hub
+export const useInputSources = ({ onPointers, onHands }: InputSourcesOptions): InputControls => {
+  // The hub lives as long as the app, so it reads the latest callbacks through refs
+  const onPointersRef = useRef(onPointers);
+  onPointersRef.current = onPointers;
+  const onHandsRef = useRef(onHands);
+  onHandsRef.current = onHands;
+
+  const hub = useMemo(() => createInputHub({
+    onPointers: (pointers) => onPointersRef.current(pointers),
+    onHands: (key, frame) => onHandsRef.current(key, frame),
+  }), []);
+
+  const recorderRef = useRef<InputRecordingSession | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const detachReplayRef = useRef<(() => void) | null>(null);
+  const [replaying, setReplaying] = useState<string | null>(null);
+
+  useEffect(() => {
+    const detach = [createMouseSource(), createTouchSource(), createGamepadSource()].map((source) => hub.attach(source));
+    return () => {
+      detach.forEach((stop) => stop());
+      detachReplayRef.current?.();
+      detachReplayRef.current = null;
+    };
+  }, [hub]);
+
+  const startRecording = useCallback(() => {
+    recorderRef.current = createInputRecorder();
+    hub.setRecorder(recorderRef.current);
+    setIsRecording(true);
+  }, [hub]);
+
+  const stopRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    hub.setRecorder(null);
+    setIsRecording(false);
+    return recorder ? recorder.finish() : null;
+  }, [hub]);
+
+  const stopReplay = useCallback(() => {
+    detachReplayRef.current?.();
+    detachReplayRef.current = null;
+    setReplaying(null);
+  }, []);
+
+  const startReplay = useCallback((recording: InputRecording, name: string, loop: boolean) => {
+    detachReplayRef.current?.();
+    const detach = hub.attach(createReplaySource(recording, {
+      loop,
+      onEnd: () => {
+        if (detachReplayRef.current !== detach) return;
+        detachReplayRef.current = null;
+        detach();
+        setReplaying(null);
+      },
+    }));
+    detachReplayRef.current = detach;
+    setReplaying(name);
+  }, [hub]);
+
+  return useMemo(() => ({
+    hub,
+    isRecording,
+    startRecording,
+    stopRecording,
+    replaying,
+    startReplay,
+    stopReplay,
+  }), [hub, isRecording, startRecording, stopRecording, replaying, startReplay, stopReplay]);
+};
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useMemo, useReducer } from 'react';
+import { PlaylistAction, PlaylistEntry, playlistReducer, PlaylistState } from '../services/playlist';
+
+export interface PlaylistControls {
+  state: PlaylistState;
+  current: PlaylistEntry | null;
+  dispatch: (action: PlaylistAction) => void;
+  next: () => void;
+  previous: () => void;
+  toggle: () => void;
+}
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable);
+
+// Playlist state plus the dwell timer and keyboard shortcuts
+// (Space: play/pause, ArrowRight / ArrowLeft: skip)
+export const usePlaylist = (initialEntries: PlaylistEntry[]): PlaylistControls => {
+  const [state, dispatch] = useReducer(playlistReducer, { entries: initialEntries, index: 0, playing: false });
+  const current = state.entries[state.index] ?? null;
+
+  const next = useCallback(() => dispatch({ type: 'next' }), []);
+  const previous = useCallback(() => dispatch({ type: 'previous' }), []);
+  const toggle = useCallback(() => dispatch({ type: 'toggle' }), []);
+
+  // Dwell timer restarts whenever the entry (or its dwell time) changes
+  useEffect(() => {
+    if (!state.playing || !current || state.entries.length < 2) return;
+    const timeout = setTimeout(next, current.dwellMs);
+    return () => clearTimeout(timeout);
+  }, [state.playing, state.entries.length, current?.id, current?.dwellMs, next]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTyping(e.target) || e.metaKey || e.ctrlKey || e.altKey) return;
+      if (e.code === 'Space') {
+        e.preventDefault();
+        toggle();
+      } else if (e.key === 'ArrowRight') {
+        next();
+      } else if (e.key === 'ArrowLeft') {
+        previous();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [next, previous, toggle]);
+
+  return useMemo(
+    () => ({ state, current, dispatch, next, previous, toggle }),
+    [state, current, next, previous, toggle]
+  );
+};
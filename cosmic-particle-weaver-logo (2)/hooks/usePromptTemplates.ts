@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { BUILT_IN_TEMPLATES, loadStoredTemplates, PromptTemplate, saveStoredTemplates } from '../services/prompts';
+
+export interface PromptTemplateControls {
+  // Built-ins first, then the user's own
+  templateNames: string[];
+  getTemplate: (name: string) => PromptTemplate;
+  isBuiltInTemplate: (name: string) => boolean;
+  saveTemplate: (name: string, template: PromptTemplate) => void;
+  deleteTemplate: (name: string) => void;
+}
+
+// Built-in and user templates; user templates persist to localStorage
+export const usePromptTemplates = (): PromptTemplateControls => {
+  const [userTemplates, setUserTemplates] = useState<Record<string, PromptTemplate>>(loadStoredTemplates);
+
+  useEffect(() => {
+    saveStoredTemplates(userTemplates);
+  }, [userTemplates]);
+
+  const saveTemplate = useCallback((name: string, template: PromptTemplate) => {
+    if (name in BUILT_IN_TEMPLATES) return;
+    setUserTemplates((prev) => ({ ...prev, [name]: template }));
+  }, []);
+
+  const deleteTemplate = useCallback((name: string) => {
+    setUserTemplates((prev) => {
+      const { [name]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  return useMemo(() => ({
+    templateNames: [...Object.keys(BUILT_IN_TEMPLATES), ...Object.keys(userTemplates)],
+    // Unknown names (e.g. a template deleted elsewhere) fall back to the default look
+    getTemplate: (name: string) => BUILT_IN_TEMPLATES[name] ?? userTemplates[name] ?? BUILT_IN_TEMPLATES.cosmic,
+    isBuiltInTemplate: (name: string) => name in BUILT_IN_TEMPLATES,
+    saveTemplate,
+    deleteTemplate,
+  }), [userTemplates, saveTemplate, deleteTemplate]);
+};
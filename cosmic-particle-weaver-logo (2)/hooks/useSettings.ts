@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  BUILT_IN_PRESETS,
+  importPreset,
+  loadStoredSettings,
+  saveStoredSettings,
+  Settings,
+  StoredSettings,
+} from '../services/settings';
+
+export interface SettingsControls {
+  settings: Settings;
+  setSettings: (settings: Settings) => void;
+  // Built-in presets first, then the user's own
+  presetNames: string[];
+  isBuiltInPreset: (name: string) => boolean;
+  applyPreset: (name: string) => void;
+  savePreset: (name: string) => void;
+  deletePreset: (name: string) => void;
+  // Adds the preset from a JSON file and applies it; returns the name it was stored under
+  importPresetJson: (json: string, fallbackName: string) => string;
+}
+
+// Current settings and user presets, persisted to localStorage on every change
+export const useSettings = (): SettingsControls => {
+  const [stored, setStored] = useState<StoredSettings>(loadStoredSettings);
+
+  useEffect(() => {
+    saveStoredSettings(stored);
+  }, [stored]);
+
+  const setSettings = useCallback((settings: Settings) => setStored((prev) => ({ ...prev, current: settings })), []);
+
+  const applyPreset = useCallback((name: string) => {
+    setStored((prev) => {
+      const preset = BUILT_IN_PRESETS[name] ?? prev.presets[name];
+      return preset ? { ...prev, current: preset } : prev;
+    });
+  }, []);
+
+  const savePreset = useCallback((name: string) => {
+    if (name in BUILT_IN_PRESETS) return;
+    setStored((prev) => ({ ...prev, presets: { ...prev.presets, [name]: prev.current } }));
+  }, []);
+
+  const deletePreset = useCallback((name: string) => {
+    setStored((prev) => {
+      const { [name]: _removed, ...presets } = prev.presets;
+      return { ...prev, presets };
+    });
+  }, []);
+
+  const importPresetJson = useCallback((json: string, fallbackName: string) => {
+    const { name, settings } = importPreset(json);
+    // Never shadow a built-in preset
+    const base = name ?? fallbackName;
+    const stored = base in BUILT_IN_PRESETS ? `${base} (imported)` : base;
+    setStored((prev) => ({ current: settings, presets: { ...prev.presets, [stored]: settings } }));
+    return stored;
+  }, []);
+
+  return useMemo(() => ({
+    settings: stored.current,
+    setSettings,
+    presetNames: [...Object.keys(BUILT_IN_PRESETS), ...Object.keys(stored.presets)],
+    isBuiltInPreset: (name: string) => name in BUILT_IN_PRESETS,
+    applyPreset,
+    savePreset,
+    deletePreset,
+    importPresetJson,
+  }), [stored, setSettings, applyPreset, savePreset, deletePreset, importPresetJson]);
+};
@@ -0,0 +1,231 @@
+// Maps hand positions in the camera frame onto the screen. Pure math over
+// normalized points, so a calibration can be checked without a camera.
+
+import { Landmark } from './gestures';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Normalized rectangle
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type TrackingLandmark = 'indexTip' | 'palmCenter' | 'wrist';
+
+export type CalibrationKind = 'affine' | 'homography';
+
+export interface Calibration {
+  kind: CalibrationKind;
+  // Row-major 3x3 from active-region coordinates to normalized screen coordinates
+  matrix: number[];
+}
+
+// Hands rarely reach the edges of the camera frame; this much of it is used by default
+export const DEFAULT_ACTIVE_REGION: Region = { x: 0.15, y: 0.1, width: 0.7, height: 0.75 };
+
+// Screen targets of the guided flow, inset so they are comfortable to reach
+export const CALIBRATION_TARGETS: Point[] = [
+  { x: 0.1, y: 0.1 },
+  { x: 0.9, y: 0.1 },
+  { x: 0.9, y: 0.9 },
+  { x: 0.1, y: 0.9 },
+  { x: 0.5, y: 0.5 },
+];
+
+export const MIN_CALIBRATION_POINTS: Record<CalibrationKind, number> = {
+  affine: 3,
+  homography: 4,
+};
+
+// Landmark indices
+const WRIST = 0;
+const INDEX_TIP = 8;
+const PALM = [0, 5, 9, 13, 17];
+
+// Position of the chosen landmark, mirrored to match the selfie view
+export const landmarkPoint = (landmarks: Landmark[], landmark: TrackingLandmark): Point => {
+  let x: number;
+  let y: number;
+  if (landmark === 'palmCenter') {
+    x = PALM.reduce((sum, i) => sum + landmarks[i].x, 0) / PALM.length;
+    y = PALM.reduce((sum, i) => sum + landmarks[i].y, 0) / PALM.length;
+  } else {
+    const point = landmarks[landmark === 'wrist' ? WRIST : INDEX_TIP];
+    x = point.x;
+    y = point.y;
+  }
+  return { x: 1 - x, y };
+};
+
+export const toRegion = (point: Point, region: Region): Point => ({
+  x: (point.x - region.x) / region.width,
+  y: (point.y - region.y) / region.height,
+});
+
+export const applyMatrix = (m: number[], { x, y }: Point): Point => {
+  const w = m[6] * x + m[7] * y + m[8];
+  // Points on the horizon line of a homography have no image; park them far away
+  if (Math.abs(w) < 1e-9) return { x: Number.MAX_VALUE, y: Number.MAX_VALUE };
+  return { x: (m[0] * x + m[1] * y + m[2]) / w, y: (m[3] * x + m[4] * y + m[5]) / w };
+};
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Camera point (mirrored, normalized) to normalized screen coordinates; the
+// active region alone stretches to the screen until a calibration exists
+export const cameraToScreen = (point: Point, region: Region, calibration: Calibration | null): Point => {
+  const local = toRegion(point, region);
+  const mapped = calibration ? applyMatrix(calibration.matrix, local) : local;
+  return { x: clamp01(mapped.x), y: clamp01(mapped.y) };
+};
+
+// Gaussian elimination with partial pivoting; null when singular
+const solveLinear = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const f = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= f * m[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+};
+
+// Least squares through the normal equations; the systems here are tiny
+const leastSquares = (rows: number[][], values: number[]): number[] | null => {
+  const n = rows[0].length;
+  const ata = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  const atb = new Array<number>(n).fill(0);
+  rows.forEach((row, r) => {
+    for (let i = 0; i < n; i++) {
+      atb[i] += row[i] * values[r];
+      for (let j = 0; j < n; j++) ata[i][j] += row[i] * row[j];
+    }
+  });
+  return solveLinear(ata, atb);
+};
+
+export const solveAffine = (from: Point[], to: Point[]): number[] | null => {
+  if (from.length < MIN_CALIBRATION_POINTS.affine || from.length !== to.length) return null;
+  const rows = from.map(({ x, y }) => [x, y, 1]);
+  const xs = leastSquares(rows, to.map((p) => p.x));
+  const ys = leastSquares(rows, to.map((p) => p.y));
+  return xs && ys ? [...xs, ...ys, 0, 0, 1] : null;
+};
+
+// Direct linear transform with the last entry fixed to 1
+export const solveHomography = (from: Point[], to: Point[]): number[] | null => {
+  if (from.length < MIN_CALIBRATION_POINTS.homography || from.length !== to.length) return null;
+  const rows: number[][] = [];
+  const values: number[] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    values.push(u);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    values.push(v);
+  });
+  const h = leastSquares(rows, values);
+  return h ? [...h, 1] : null;
+};
+
+export const solveCalibration = (kind: CalibrationKind, from: Point[], to: Point[]): Calibration | null => {
+  const matrix = kind === 'homography' ? solveHomography(from, to) : solveAffine(from, to);
+  return matrix && matrix.every(Number.isFinite) ? { kind, matrix } : null;
+};
+
+export interface CalibrationSessionOptions {
+  kind: CalibrationKind;
+  region: Region;
+  targets: Point[];
+  // How long the hand must stay still over a target
+  holdMs: number;
+  // Movement (normalized camera units) that restarts the hold
+  stillRadius: number;
+  // Each sample must be at least this far from the earlier ones, so a hand
+  // that hasn't moved on isn't recorded for the next target
+  minSeparation: number;
+}
+
+export const DEFAULT_SESSION_OPTIONS: Omit<CalibrationSessionOptions, 'kind' | 'region'> = {
+  targets: CALIBRATION_TARGETS,
+  holdMs: 1000,
+  stillRadius: 0.015,
+  minSeparation: 0.08,
+};
+
+export interface CalibrationProgress {
+  // Index into the targets of the one being collected
+  target: number;
+  // 0..1 of the current hold
+  hold: number;
+  done: boolean;
+  // Set once done; null when the samples couldn't be solved
+  result?: Calibration | null;
+}
+
+export interface CalibrationSession {
+  // Feed the tracked camera point (or null when no hand is visible) every frame
+  feed: (point: Point | null, timestamp: number) => CalibrationProgress;
+}
+
+export const createCalibrationSession = (options: Pick<CalibrationSessionOptions, 'kind' | 'region'> & Partial<CalibrationSessionOptions>): CalibrationSession => {
+  const opts: CalibrationSessionOptions = { ...DEFAULT_SESSION_OPTIONS, ...options };
+  // Camera points, one per collected target
+  const samples: Point[] = [];
+  let anchor: Point | null = null;
+  let since = 0;
+  let progress: CalibrationProgress = { target: 0, hold: 0, done: false };
+
+  const farFromSamples = (point: Point) =>
+    samples.every((sample) => Math.hypot(sample.x - point.x, sample.y - point.y) >= opts.minSeparation);
+
+  return {
+    feed: (point, timestamp) => {
+      if (progress.done) return progress;
+      if (!point || !farFromSamples(point)) {
+        anchor = null;
+        progress = { ...progress, hold: 0 };
+        return progress;
+      }
+      if (!anchor || Math.hypot(point.x - anchor.x, point.y - anchor.y) > opts.stillRadius) {
+        anchor = point;
+        since = timestamp;
+      }
+      const hold = Math.min(1, (timestamp - since) / opts.holdMs);
+      if (hold < 1) {
+        progress = { ...progress, hold };
+        return progress;
+      }
+
+      samples.push(anchor);
+      anchor = null;
+      const target = samples.length;
+      if (target < opts.targets.length) {
+        progress = { target, hold: 0, done: false };
+      } else {
+        progress = { target, hold: 1, done: true, result: solveCalibration(opts.kind, samples.map((sample) => toRegion(sample, opts.region)), opts.targets) };
+      }
+      return progress;
+    },
+  };
+};
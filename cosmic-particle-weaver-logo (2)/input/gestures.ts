@@ -0,0 +1,237 @@
+// Hand pose and swipe recognition from MediaPipe hand landmarks.
+// Pure functions over plain landmark arrays, so recorded frames can be
+// replayed without a camera.
+
+export interface Landmark {
+  // Normalized to the camera frame (0..1), not mirrored
+  x: number;
+  y: number;
+  z?: number;
+}
+
+// MediaPipe reports this many landmarks per hand
+export const HAND_LANDMARK_COUNT = 21;
+
+export interface TrackedHand {
+  // Stable id for the hand across frames
+  id: string;
+  // The 21 MediaPipe hand landmarks
+  landmarks: Landmark[];
+}
+
+export type PoseGesture = 'pinch' | 'openPalm' | 'fist' | 'twoFingerPoint';
+export type SwipeDirection = 'left' | 'right';
+
+export type GestureEvent =
+  // A pose was held long enough to count, or was released
+  | { kind: 'pose'; phase: 'start' | 'end'; pose: PoseGesture; handId: string; x: number; y: number; timestamp: number }
+  | { kind: 'swipe'; direction: SwipeDirection; handId: string; timestamp: number };
+
+export interface GestureOptions {
+  // A pose starts once its score reaches enterScore and ends when it drops below exitScore
+  enterScore: number;
+  exitScore: number;
+  // A new pose must win for this long before it replaces the current one
+  debounceMs: number;
+  // Horizontal travel (fraction of the frame width) within swipeWindowMs
+  swipeDistance: number;
+  swipeWindowMs: number;
+  swipeCooldownMs: number;
+  // Event coordinates and swipe directions follow the mirrored (selfie) view
+  mirrorX: boolean;
+}
+
+export const DEFAULT_GESTURE_OPTIONS: GestureOptions = {
+  enterScore: 0.7,
+  exitScore: 0.4,
+  debounceMs: 120,
+  swipeDistance: 0.3,
+  swipeWindowMs: 300,
+  swipeCooldownMs: 1000,
+  mirrorX: true,
+};
+
+// Landmark indices
+const WRIST = 0;
+const THUMB_TIP = 4;
+const INDEX_MCP = 5;
+const MIDDLE_MCP = 9;
+const FINGERS = [
+  { pip: 6, tip: 8 },
+  { pip: 10, tip: 12 },
+  { pip: 14, tip: 16 },
+  { pip: 18, tip: 20 },
+];
+
+// Checked in this order; the first pose over the threshold wins
+const POSE_PRIORITY: PoseGesture[] = ['fist', 'pinch', 'twoFingerPoint', 'openPalm'];
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+const distance = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// 0 = curled, 1 = straight: how far the tip reaches past the PIP joint from the wrist
+const fingerExtension = (landmarks: Landmark[], pip: number, tip: number) => {
+  const ratio = distance(landmarks[WRIST], landmarks[tip]) / Math.max(1e-6, distance(landmarks[WRIST], landmarks[pip]));
+  return clamp01((ratio - 0.9) / 0.4);
+};
+
+// Per-pose confidence in 0..1, independent of hand size and distance to camera
+export const scorePoses = (landmarks: Landmark[]): Record<PoseGesture, number> => {
+  const palm = Math.max(1e-6, distance(landmarks[WRIST], landmarks[MIDDLE_MCP]));
+  const [index, middle, ring, pinky] = FINGERS.map(({ pip, tip }) => fingerExtension(landmarks, pip, tip));
+  const pinchGap = distance(landmarks[THUMB_TIP], landmarks[FINGERS[0].tip]) / palm;
+  const thumbOut = clamp01((distance(landmarks[THUMB_TIP], landmarks[INDEX_MCP]) / palm - 0.3) / 0.4);
+
+  const fist = 1 - Math.max(index, middle, ring, pinky);
+  // A tucked thumb touches the curled index in a fist too, so a pinch needs some finger up
+  const pinch = clamp01((0.45 - pinchGap) / 0.25) * (1 - fist);
+  return {
+    pinch,
+    fist,
+    twoFingerPoint: Math.min(index, middle) * (1 - Math.max(ring, pinky)),
+    openPalm: Math.min(index, middle, ring, pinky, thumbOut) * (1 - pinch),
+  };
+};
+
+// Stateless best guess for a single frame
+export const classifyPose = (landmarks: Landmark[], threshold = DEFAULT_GESTURE_OPTIONS.enterScore): PoseGesture | null => {
+  const scores = scorePoses(landmarks);
+  return POSE_PRIORITY.find((pose) => scores[pose] >= threshold) ?? null;
+};
+
+// Where a pose acts: between the pinching fingertips, otherwise the palm center
+const poseAnchor = (landmarks: Landmark[], pose: PoseGesture | null) =>
+  pose === 'pinch'
+    ? { x: (landmarks[THUMB_TIP].x + landmarks[FINGERS[0].tip].x) / 2, y: (landmarks[THUMB_TIP].y + landmarks[FINGERS[0].tip].y) / 2 }
+    : { x: (landmarks[WRIST].x + landmarks[MIDDLE_MCP].x) / 2, y: (landmarks[WRIST].y + landmarks[MIDDLE_MCP].y) / 2 };
+
+interface HandState {
+  pose: PoseGesture | null;
+  candidate: PoseGesture | null;
+  candidateSince: number;
+  history: { t: number; x: number }[];
+  lastSwipe: number;
+  x: number;
+  y: number;
+}
+
+export interface GestureRecognizer {
+  // Feed one camera frame; returns the events it produced
+  update: (hands: TrackedHand[], timestamp: number) => GestureEvent[];
+  // Current debounced pose per hand id
+  getPose: (handId: string) => PoseGesture | null;
+  reset: () => void;
+}
+
+export const createGestureRecognizer = (options: Partial<GestureOptions> = {}): GestureRecognizer => {
+  const opts = { ...DEFAULT_GESTURE_OPTIONS, ...options };
+  const hands = new Map<string, HandState>();
+
+  const toView = (x: number) => (opts.mirrorX ? 1 - x : x);
+
+  const endPose = (handId: string, state: HandState, timestamp: number, events: GestureEvent[]) => {
+    if (state.pose) {
+      events.push({ kind: 'pose', phase: 'end', pose: state.pose, handId, x: state.x, y: state.y, timestamp });
+      state.pose = null;
+    }
+  };
+
+  const updatePose = (hand: TrackedHand, state: HandState, timestamp: number, events: GestureEvent[]) => {
+    const scores = scorePoses(hand.landmarks);
+
+    // Hysteresis: the current pose holds until it falls below the exit score
+    let winner: PoseGesture | null = null;
+    if (state.pose && scores[state.pose] >= opts.exitScore) {
+      winner = state.pose;
+    } else {
+      winner = POSE_PRIORITY.find((pose) => scores[pose] >= opts.enterScore) ?? null;
+    }
+
+    const anchor = poseAnchor(hand.landmarks, winner ?? state.pose);
+    state.x = toView(anchor.x);
+    state.y = anchor.y;
+
+    if (winner === state.pose) {
+      // A null candidate also stands for "no pose", so a change to no pose is
+      // timed from the last frame that still agreed
+      state.candidate = null;
+      state.candidateSince = timestamp;
+      return;
+    }
+    // Debounce: the change has to persist before it is reported
+    if (winner !== state.candidate) {
+      state.candidate = winner;
+      state.candidateSince = timestamp;
+      return;
+    }
+    if (timestamp - state.candidateSince < opts.debounceMs) return;
+
+    endPose(hand.id, state, timestamp, events);
+    state.pose = winner;
+    state.candidate = null;
+    if (winner) {
+      events.push({ kind: 'pose', phase: 'start', pose: winner, handId: hand.id, x: state.x, y: state.y, timestamp });
+    }
+  };
+
+  const updateSwipe = (hand: TrackedHand, state: HandState, timestamp: number, events: GestureEvent[]) => {
+    // Grabbing or pinching hands move particles around; don't read that as a swipe
+    if (state.pose === 'fist' || state.pose === 'pinch') {
+      state.history = [];
+      return;
+    }
+    const { x } = poseAnchor(hand.landmarks, null);
+    state.history.push({ t: timestamp, x: toView(x) });
+    state.history = state.history.filter((sample) => timestamp - sample.t <= opts.swipeWindowMs);
+    if (timestamp - state.lastSwipe < opts.swipeCooldownMs) return;
+
+    const dx = toView(x) - state.history[0].x;
+    if (Math.abs(dx) < opts.swipeDistance) return;
+    state.lastSwipe = timestamp;
+    state.history = [];
+    events.push({ kind: 'swipe', direction: dx > 0 ? 'right' : 'left', handId: hand.id, timestamp });
+  };
+
+  return {
+    update: (tracked, timestamp) => {
+      const events: GestureEvent[] = [];
+      const present = new Set<string>();
+
+      for (const hand of tracked) {
+        if (hand.landmarks.length < HAND_LANDMARK_COUNT) continue;
+        present.add(hand.id);
+        let state = hands.get(hand.id);
+        if (!state) {
+          state = { pose: null, candidate: null, candidateSince: timestamp, history: [], lastSwipe: -Infinity, x: 0, y: 0 };
+          hands.set(hand.id, state);
+        }
+        updatePose(hand, state, timestamp, events);
+        updateSwipe(hand, state, timestamp, events);
+      }
+
+      // Lost hands release their pose
+      hands.forEach((state, handId) => {
+        if (present.has(handId)) return;
+        endPose(handId, state, timestamp, events);
+        hands.delete(handId);
+      });
+
+      return events;
+    },
+    getPose: (handId) => hands.get(handId)?.pose ?? null,
+    reset: () => hands.clear(),
+  };
+};
+
+// One recorded camera frame
+export interface GestureFrame {
+  timestamp: number;
+  hands: TrackedHand[];
+}
+
+// Runs recorded frames through a fresh recognizer; used to check fixtures offline
+export const replayGestures = (frames: GestureFrame[], options: Partial<GestureOptions> = {}): GestureEvent[] => {
+  const recognizer = createGestureRecognizer(options);
+  return frames.flatMap((frame) => recognizer.update(frame.hands, frame.timestamp));
+};
@@ -0,0 +1,79 @@
+// Turns hand frames into pointers and gestures: landmark choice, One Euro
+// filtering, then the active region and calibration. Shared by the camera
+// and replayed landmarks so both behave the same.
+
+import { Pointer } from '../engine/simulation';
+import { Calibration, cameraToScreen, landmarkPoint, Region, TrackingLandmark } from './calibration';
+import { createGestureRecognizer, GestureEvent } from './gestures';
+import { HandFrame } from './inputSource';
+import { createPointFilter, FilteredPoint, OneEuroOptions, PointFilter } from './oneEuro';
+
+export interface HandMapping {
+  landmark: TrackingLandmark;
+  region: Region;
+  filter: OneEuroOptions;
+  calibration: Calibration | null;
+}
+
+export interface HandPoint extends FilteredPoint {
+  id: string;
+}
+
+export interface HandPipelineResult {
+  // Filtered landmark of each hand in mirrored camera coordinates
+  points: HandPoint[];
+  // The same points on screen; already smoothed, so the simulation follows them directly
+  pointers: Pointer[];
+  // Pose positions mapped like the pointers, in normalized screen coordinates
+  events: GestureEvent[];
+}
+
+export interface HandPipeline {
+  process: (frame: HandFrame, mapping: HandMapping, width: number, height: number) => HandPipelineResult;
+  reset: () => void;
+}
+
+export const createHandPipeline = (): HandPipeline => {
+  // One filter per hand, dropped when the hand is lost so it restarts cleanly
+  const filters = new Map<string, PointFilter>();
+  let filterOptions: OneEuroOptions | null = null;
+  const recognizer = createGestureRecognizer();
+
+  return {
+    process: ({ timestamp, hands }, { landmark, region, filter, calibration }, width, height) => {
+      // New filter settings take effect from this frame
+      if (filter !== filterOptions) {
+        filters.clear();
+        filterOptions = filter;
+      }
+      filters.forEach((_, id) => {
+        if (!hands.some((hand) => hand.id === id)) filters.delete(id);
+      });
+
+      const points = hands.map(({ id, landmarks }) => {
+        let handFilter = filters.get(id);
+        if (!handFilter) {
+          handFilter = createPointFilter(filter);
+          filters.set(id, handFilter);
+        }
+        const raw = landmarkPoint(landmarks, landmark);
+        return { id, ...handFilter.filter(raw.x, raw.y, timestamp) };
+      });
+
+      const pointers = points.map(({ id, x, y }) => {
+        const screen = cameraToScreen({ x, y }, region, calibration);
+        return { id, x: screen.x * width, y: screen.y * height, smoothed: true };
+      });
+
+      const events = recognizer.update(hands, timestamp).map((event) =>
+        event.kind === 'pose' ? { ...event, ...cameraToScreen(event, region, calibration) } : event
+      );
+
+      return { points, pointers, events };
+    },
+    reset: () => {
+      filters.clear();
+      recognizer.reset();
+    },
+  };
+};
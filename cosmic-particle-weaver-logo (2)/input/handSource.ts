@@ -0,0 +1,98 @@
+import { FilesetResolver, HandLandmarker, HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { TrackedHand } from './gestures';
+import { InputSink, InputSource } from './inputSource';
+
+export interface HandAssetPaths {
+  // Folder holding the tasks-vision WASM files
+  wasm: string;
+  model: string;
+}
+
+const CDN_ASSETS: HandAssetPaths = {
+  wasm: 'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.9/wasm',
+  model: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task',
+};
+
+// Set MEDIAPIPE_ASSET_BASE to serve the assets yourself (e.g. '/mediapipe'
+// for files under public/mediapipe); unset, they come from the CDNs
+export const DEFAULT_HAND_ASSET_BASE = process.env.MEDIAPIPE_ASSET_BASE || '';
+
+// A base path expects `${base}/wasm/` and `${base}/hand_landmarker.task`
+export const resolveHandAssets = (base: string = DEFAULT_HAND_ASSET_BASE): HandAssetPaths => {
+  if (!base) return CDN_ASSETS;
+  const root = base.replace(/\/+$/, '');
+  return { wasm: `${root}/wasm`, model: `${root}/hand_landmarker.task` };
+};
+
+export type HandDelegate = 'GPU' | 'CPU';
+
+export interface HandLandmarkerOptions {
+  assetBase?: string;
+  // Hands tracked at once (1-2)
+  maxHands: number;
+  delegate: HandDelegate;
+}
+
+export const loadHandLandmarker = async ({ assetBase, maxHands, delegate }: HandLandmarkerOptions): Promise<HandLandmarker> => {
+  const assets = resolveHandAssets(assetBase);
+  const vision = await FilesetResolver.forVisionTasks(assets.wasm);
+  return HandLandmarker.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetPath: assets.model,
+      delegate,
+    },
+    runningMode: 'VIDEO',
+    numHands: Math.max(1, Math.min(2, Math.round(maxHands))),
+  });
+};
+
+// Runs the landmarker on every new video frame; the caller owns the camera
+// stream. Detection stops at the first error, which goes to onError.
+export const createCameraHandSource = (video: HTMLVideoElement, landmarker: HandLandmarker, onError?: (error: unknown) => void): InputSource => {
+  let sink: InputSink | null = null;
+  let frame = 0;
+  let lastVideoTime = -1;
+
+  const detect = () => {
+    if (!sink) return;
+    const timestamp = performance.now();
+    // The display refreshes faster than the camera; only new frames are worth detecting
+    if (video.videoWidth > 0 && video.videoHeight > 0 && video.currentTime !== lastVideoTime) {
+      lastVideoTime = video.currentTime;
+      let results: HandLandmarkerResult;
+      try {
+        results = landmarker.detectForVideo(video, timestamp);
+      } catch (e) {
+        frame = 0;
+        sink = null;
+        onError?.(e);
+        return;
+      }
+      const seen = new Set<string>();
+      const hands: TrackedHand[] = (results.landmarks ?? []).map((landmarks, i) => {
+        // Handedness keeps ids stable when hands swap detection order;
+        // two hands of the same side (two people) fall back to the index
+        const side = results.handedness?.[i]?.[0]?.categoryName ?? 'hand';
+        const id = seen.has(side) ? `hand-${side}-${i}` : `hand-${side}`;
+        seen.add(side);
+        return { id, landmarks };
+      });
+      sink.hands({ timestamp, hands });
+    }
+    frame = requestAnimationFrame(detect);
+  };
+
+  return {
+    kind: 'hand',
+    start: (next) => {
+      sink = next;
+      lastVideoTime = -1;
+      frame = requestAnimationFrame(detect);
+    },
+    stop: () => {
+      if (frame) cancelAnimationFrame(frame);
+      frame = 0;
+      sink = null;
+    },
+  };
+};
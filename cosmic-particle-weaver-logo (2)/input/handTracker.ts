@@ -0,0 +1,306 @@
+// Lifecycle of camera hand tracking: loading the model (falling back from GPU
+// to CPU), opening the selected camera, following cameras being plugged in or
+// out, pausing while the tab is hidden, and telling recoverable errors from
+// fatal ones.
+
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { createCameraHandSource, HandDelegate, loadHandLandmarker } from './handSource';
+import { HandFrame, InputSource } from './inputSource';
+
+export type TrackerState =
+  | 'idle'
+  | 'loadingModel'
+  | 'requestingCamera'
+  | 'tracking'
+  | 'handLost'
+  | 'errorRecoverable'
+  | 'errorFatal';
+
+export interface TrackerStatus {
+  state: TrackerState;
+  // What went wrong, or why the tracker is idle
+  message?: string;
+  // Delegate of the model being loaded or in use
+  delegate?: HandDelegate;
+  // Hands in view while the camera runs
+  hands: number;
+}
+
+export const IDLE_TRACKER_STATUS: TrackerStatus = { state: 'idle', hands: 0 };
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface HandTrackerOptions {
+  // Element the camera stream plays in; the landmarker reads its frames
+  video: HTMLVideoElement;
+  maxHands: number;
+  assetBase?: string;
+  // Preferred camera; null uses the browser's default
+  deviceId: string | null;
+  onStatus: (status: TrackerStatus) => void;
+  onFrame: (frame: HandFrame) => void;
+  // Cameras available, refreshed whenever devices change
+  onDevices?: (devices: CameraDevice[]) => void;
+}
+
+export interface HandTrackerController {
+  start: () => void;
+  stop: () => void;
+  // Starts over from whatever failed
+  retry: () => void;
+  setDevice: (deviceId: string | null) => void;
+  // Stops and releases the model, including one still loading; the controller
+  // can't be started again
+  dispose: () => void;
+}
+
+// getUserMedia rejections by DOMException name
+const CAMERA_ERRORS: Record<string, string> = {
+  NotAllowedError: 'Camera access denied',
+  NotFoundError: 'No camera found',
+  NotReadableError: 'Camera is in use by another app',
+  OverconstrainedError: 'Selected camera is unavailable',
+};
+
+const errorName = (e: unknown) => (e instanceof Error || e instanceof DOMException ? e.name : '');
+
+const CAMERA_CONSTRAINTS: MediaTrackConstraints = {
+  width: { ideal: 640 },
+  height: { ideal: 480 },
+  frameRate: { ideal: 30 },
+};
+
+export const createHandTracker = (options: HandTrackerOptions): HandTrackerController => {
+  const { video, maxHands, assetBase, onStatus, onFrame, onDevices } = options;
+  let deviceId = options.deviceId;
+  let landmarker: HandLandmarker | null = null;
+  let delegate: HandDelegate = 'GPU';
+  let stream: MediaStream | null = null;
+  let source: InputSource | null = null;
+  let running = false;
+  // Bumped whenever a run is superseded, so its pending steps drop out
+  let run = 0;
+  let status = IDLE_TRACKER_STATUS;
+  // The model load in flight, and the run waiting on it
+  let pending: Promise<HandLandmarker | null> | null = null;
+  let loadingRun = -1;
+  let disposed = false;
+
+  const setStatus = (next: TrackerStatus) => {
+    status = next;
+    onStatus(next);
+  };
+
+  const fail = (state: 'errorRecoverable' | 'errorFatal', message: string) => {
+    setStatus({ state, message, delegate: landmarker ? delegate : undefined, hands: 0 });
+  };
+
+  const stopCamera = () => {
+    source?.stop();
+    source = null;
+    stream?.getTracks().forEach((track) => {
+      track.removeEventListener('ended', handleEnded);
+      track.stop();
+    });
+    stream = null;
+    video.srcObject = null;
+  };
+
+  const refreshDevices = async () => {
+    if (!onDevices || !navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      // Labels stay empty until camera access has been granted
+      onDevices(devices
+        .filter((device) => device.kind === 'videoinput')
+        .map((device, i) => ({ deviceId: device.deviceId, label: device.label || `Camera ${i + 1}` })));
+    } catch (e) {
+      console.warn('Could not list cameras:', e);
+    }
+  };
+
+  // Loads the model, falling back to the CPU. Only one load runs at a time;
+  // runs started while it is in flight wait for the same one.
+  const load = async (): Promise<HandLandmarker | null> => {
+    for (;;) {
+      if (loadingRun === run) setStatus({ state: 'loadingModel', delegate, hands: 0 });
+      try {
+        const loaded = await loadHandLandmarker({ assetBase, maxHands, delegate });
+        if (disposed || landmarker) {
+          loaded.close();
+          return landmarker;
+        }
+        // A superseded run still leaves the model for the next one
+        landmarker = loaded;
+        return loaded;
+      } catch (e) {
+        if (disposed) return null;
+        if (delegate === 'GPU') {
+          console.warn('Hand model failed to load on the GPU; trying the CPU:', e);
+          delegate = 'CPU';
+          continue;
+        }
+        throw e;
+      }
+    }
+  };
+
+  const loadModel = async (id: number) => {
+    if (landmarker) return true;
+    loadingRun = id;
+    pending ??= load().finally(() => {
+      pending = null;
+    });
+    try {
+      await pending;
+    } catch (e) {
+      if (id !== run) return false;
+      console.error('Failed to load hand landmarker:', e);
+      if (typeof WebAssembly === 'undefined') fail('errorFatal', 'This browser cannot run the hand model');
+      else fail('errorRecoverable', 'Hand model failed to load');
+      return false;
+    }
+    return id === run && landmarker !== null;
+  };
+
+  const startCamera = async (id: number): Promise<void> => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      fail('errorFatal', 'Camera access needs a secure (HTTPS) page');
+      return;
+    }
+    setStatus({ state: 'requestingCamera', delegate, hands: 0 });
+    let next: MediaStream;
+    try {
+      next = await navigator.mediaDevices.getUserMedia({
+        video: deviceId ? { ...CAMERA_CONSTRAINTS, deviceId: { exact: deviceId } } : CAMERA_CONSTRAINTS,
+      });
+    } catch (e) {
+      if (id !== run) return;
+      const name = errorName(e);
+      // A selected camera that was unplugged falls back to the default one
+      if (deviceId && (name === 'OverconstrainedError' || name === 'NotFoundError')) {
+        console.warn('Selected camera is unavailable; using the default one');
+        deviceId = null;
+        return startCamera(id);
+      }
+      console.error('Camera could not be started:', e);
+      fail('errorRecoverable', CAMERA_ERRORS[name] ?? 'Camera could not be started');
+      return;
+    }
+    if (id !== run) {
+      next.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    stream = next;
+    stream.getVideoTracks().forEach((track) => track.addEventListener('ended', handleEnded));
+    video.srcObject = stream;
+    try {
+      await video.play();
+    } catch (e) {
+      // Interrupted by a newer run replacing the stream
+      if (id !== run) return;
+      console.error('Camera stream could not be played:', e);
+      stopCamera();
+      fail('errorRecoverable', 'Camera could not be started');
+      return;
+    }
+    if (id !== run || !landmarker) return;
+
+    refreshDevices();
+    setStatus({ state: 'handLost', delegate, hands: 0 });
+    source = createCameraHandSource(video, landmarker, handleDetectError);
+    source.start({ pointers: () => {}, hands: handleFrame });
+  };
+
+  const restart = async () => {
+    const id = ++run;
+    stopCamera();
+    if (document.hidden) {
+      setStatus({ state: 'idle', message: 'Paused while the tab is hidden', delegate, hands: 0 });
+      return;
+    }
+    if (await loadModel(id)) await startCamera(id);
+  };
+
+  const handleFrame = (frame: HandFrame) => {
+    const hands = frame.hands.length;
+    // Every frame reports hands; only changes are worth a status update
+    if (hands !== status.hands) {
+      setStatus({ state: hands ? 'tracking' : 'handLost', delegate, hands });
+    }
+    onFrame(frame);
+  };
+
+  // Unplugged, or revoked by the browser or the OS
+  const handleEnded = () => {
+    stopCamera();
+    fail('errorRecoverable', 'Camera disconnected');
+  };
+
+  // GPU contexts can be lost mid-session; carry on with the CPU
+  const handleDetectError = (e: unknown) => {
+    landmarker?.close();
+    landmarker = null;
+    if (delegate === 'GPU') {
+      console.warn('Hand tracking failed on the GPU; switching to the CPU:', e);
+      delegate = 'CPU';
+      restart();
+      return;
+    }
+    console.error('Hand tracking failed:', e);
+    stopCamera();
+    fail('errorRecoverable', 'Hand tracking stopped unexpectedly');
+  };
+
+  const handleVisibility = () => {
+    if (running) restart();
+  };
+
+  // A camera being plugged in can fix "no camera" or "disconnected"
+  const handleDeviceChange = () => {
+    refreshDevices();
+    if (running && status.state === 'errorRecoverable' && landmarker) restart();
+  };
+
+  document.addEventListener('visibilitychange', handleVisibility);
+  navigator.mediaDevices?.addEventListener?.('devicechange', handleDeviceChange);
+
+  const stop = () => {
+    running = false;
+    run++;
+    stopCamera();
+    setStatus(IDLE_TRACKER_STATUS);
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      restart();
+    },
+    stop,
+    retry: () => {
+      if (!running) return;
+      // The GPU may only have failed because the network did
+      if (!landmarker && !pending) delegate = 'GPU';
+      restart();
+    },
+    setDevice: (next) => {
+      if (next === deviceId) return;
+      deviceId = next;
+      if (running && landmarker) restart();
+    },
+    dispose: () => {
+      disposed = true;
+      stop();
+      document.removeEventListener('visibilitychange', handleVisibility);
+      navigator.mediaDevices?.removeEventListener?.('devicechange', handleDeviceChange);
+      landmarker?.close();
+      landmarker = null;
+    },
+  };
+};
@@ -0,0 +1,91 @@
+// Everything that moves particles (mouse, touch, gamepad, tracked hands or a
+// replayed session) is an input source feeding one hub, which merges their
+// pointers for the canvas.
+
+import { Pointer } from '../engine/simulation';
+import { TrackedHand } from './gestures';
+
+export type InputSourceKind = 'mouse' | 'touch' | 'gamepad' | 'hand' | 'replay';
+
+export interface HandFrame {
+  // Milliseconds, monotonic within one source
+  timestamp: number;
+  hands: TrackedHand[];
+}
+
+export interface InputSink {
+  // Replaces every pointer of this source; positions in canvas pixels
+  pointers: (pointers: Pointer[]) => void;
+  // Raw landmarks of the visible hands, turned into pointers and gestures downstream
+  hands: (frame: HandFrame) => void;
+}
+
+export interface InputSource {
+  kind: InputSourceKind;
+  start: (sink: InputSink) => void;
+  // Stops emitting; the hub drops the source's pointers itself
+  stop: () => void;
+}
+
+export interface InputRecorder {
+  pointers: (source: InputSourceKind, pointers: Pointer[]) => void;
+  hands: (frame: HandFrame) => void;
+}
+
+export interface InputHub {
+  // Starts the source; the returned function stops it and releases its pointers
+  attach: (source: InputSource) => () => void;
+  // Sink for input driven from elsewhere (the hand tracker component, replayed
+  // hands), keyed so it doesn't replace another source's pointers
+  sink: (key: string) => InputSink;
+  setRecorder: (recorder: InputRecorder | null) => void;
+}
+
+export interface InputHubOptions {
+  onPointers: (pointers: Pointer[]) => void;
+  // Hand frames from any sink, with the key they arrived on
+  onHands?: (key: string, frame: HandFrame) => void;
+}
+
+// Hand pointers are derived from landmarks, which are recorded instead; a
+// replay isn't recorded again
+const RECORDED_POINTERS = new Set<string>(['mouse', 'touch', 'gamepad']);
+
+export const createInputHub = ({ onPointers, onHands }: InputHubOptions): InputHub => {
+  const bySource = new Map<string, Pointer[]>();
+  let recorder: InputRecorder | null = null;
+
+  const publish = () => {
+    const merged: Pointer[] = [];
+    bySource.forEach((pointers) => merged.push(...pointers));
+    onPointers(merged);
+  };
+
+  const sink = (key: string): InputSink => ({
+    pointers: (pointers) => {
+      // Idle sources report nothing every frame; don't republish for that
+      if (pointers.length === 0 && !bySource.get(key)?.length) return;
+      bySource.set(key, pointers);
+      if (recorder && RECORDED_POINTERS.has(key)) recorder.pointers(key as InputSourceKind, pointers);
+      publish();
+    },
+    hands: (frame) => {
+      if (recorder && key === 'hand') recorder.hands(frame);
+      onHands?.(key, frame);
+    },
+  });
+
+  return {
+    attach: (source) => {
+      source.start(sink(source.kind));
+      return () => {
+        source.stop();
+        if (bySource.delete(source.kind)) publish();
+      };
+    },
+    sink,
+    setRecorder: (next) => {
+      recorder = next;
+    },
+  };
+};
@@ -0,0 +1,91 @@
+// One Euro filter (Casiraghi, Roussel & Vogel, CHI 2012): a low-pass filter
+// whose cutoff rises with speed, so slow movements are steady and fast ones
+// don't lag.
+
+export interface OneEuroOptions {
+  // Cutoff in Hz at rest; lower removes more jitter
+  minCutoff: number;
+  // How fast the cutoff rises with speed; higher reduces lag
+  beta: number;
+  // Cutoff in Hz for the velocity estimate itself
+  derivativeCutoff: number;
+}
+
+// Tuned for coordinates normalized to 0..1
+export const DEFAULT_ONE_EURO_OPTIONS: OneEuroOptions = {
+  minCutoff: 1.5,
+  beta: 8,
+  derivativeCutoff: 1,
+};
+
+export interface FilteredValue {
+  value: number;
+  // Units per second
+  velocity: number;
+}
+
+export interface OneEuroFilter {
+  // Timestamps in milliseconds
+  filter: (value: number, timestamp: number) => FilteredValue;
+  reset: () => void;
+}
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+export const createOneEuroFilter = (options: OneEuroOptions = DEFAULT_ONE_EURO_OPTIONS): OneEuroFilter => {
+  let last: { value: number; velocity: number; timestamp: number } | null = null;
+
+  return {
+    filter: (value, timestamp) => {
+      if (!last) {
+        last = { value, velocity: 0, timestamp };
+        return { value, velocity: 0 };
+      }
+      const dt = (timestamp - last.timestamp) / 1000;
+      // Repeated frames carry no new information
+      if (dt <= 0) return { value: last.value, velocity: last.velocity };
+
+      const rawVelocity = (value - last.value) / dt;
+      const velocity = last.velocity + smoothingFactor(options.derivativeCutoff, dt) * (rawVelocity - last.velocity);
+      const cutoff = options.minCutoff + options.beta * Math.abs(velocity);
+      const filtered = last.value + smoothingFactor(cutoff, dt) * (value - last.value);
+      last = { value: filtered, velocity, timestamp };
+      return { value: filtered, velocity };
+    },
+    reset: () => {
+      last = null;
+    },
+  };
+};
+
+export interface FilteredPoint {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+export interface PointFilter {
+  filter: (x: number, y: number, timestamp: number) => FilteredPoint;
+  reset: () => void;
+}
+
+// Independent filters per axis, as in the paper
+export const createPointFilter = (options: OneEuroOptions = DEFAULT_ONE_EURO_OPTIONS): PointFilter => {
+  const fx = createOneEuroFilter(options);
+  const fy = createOneEuroFilter(options);
+  return {
+    filter: (x, y, timestamp) => {
+      const rx = fx.filter(x, timestamp);
+      const ry = fy.filter(y, timestamp);
+      return { x: rx.value, y: ry.value, vx: rx.velocity, vy: ry.velocity };
+    },
+    reset: () => {
+      fx.reset();
+      fy.reset();
+    },
+  };
+};
@@ -0,0 +1,193 @@
+import { Pointer } from '../engine/simulation';
+import { InputSink, InputSource } from './inputSource';
+
+// Mouse and touch only count over elements carrying this attribute (the
+// particle canvas), so panels on top of it don't move particles
+export const INPUT_SURFACE_ATTRIBUTE = 'data-input-surface';
+
+const surfaceOf = (target: EventTarget | null) =>
+  target instanceof Element ? target.closest(`[${INPUT_SURFACE_ATTRIBUTE}]`) : null;
+
+const pointerAt = (id: string, e: PointerEvent, surface: Element): Pointer => {
+  const rect = surface.getBoundingClientRect();
+  return { id, x: e.clientX - rect.left, y: e.clientY - rect.top };
+};
+
+// A hovering mouse interacts until it leaves the surface
+export const createMouseSource = (): InputSource => {
+  let sink: InputSink | null = null;
+  let over = false;
+
+  const handleMove = (e: PointerEvent) => {
+    if (e.pointerType !== 'mouse' || !sink) return;
+    const surface = surfaceOf(e.target);
+    if (surface) {
+      over = true;
+      sink.pointers([pointerAt('mouse', e, surface)]);
+    } else {
+      release();
+    }
+  };
+
+  const release = () => {
+    if (!over) return;
+    over = false;
+    sink?.pointers([]);
+  };
+
+  return {
+    kind: 'mouse',
+    start: (next) => {
+      sink = next;
+      window.addEventListener('pointermove', handleMove);
+      window.addEventListener('pointerdown', handleMove);
+      document.documentElement.addEventListener('pointerleave', release);
+    },
+    stop: () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerdown', handleMove);
+      document.documentElement.removeEventListener('pointerleave', release);
+      sink = null;
+      over = false;
+    },
+  };
+};
+
+// Touches and pens interact only while in contact; each is its own pointer
+export const createTouchSource = (): InputSource => {
+  let sink: InputSink | null = null;
+  // Keyed by pointer id; the surface is kept so a finger sliding off it still tracks
+  const contacts = new Map<string, { surface: Element; pointer: Pointer }>();
+
+  const idOf = (e: PointerEvent) => `${e.pointerType}-${e.pointerId}`;
+  const publish = () => sink?.pointers(Array.from(contacts.values(), (contact) => contact.pointer));
+
+  const handleDown = (e: PointerEvent) => {
+    if (e.pointerType === 'mouse') return;
+    const surface = surfaceOf(e.target);
+    if (!surface) return;
+    const id = idOf(e);
+    contacts.set(id, { surface, pointer: pointerAt(id, e, surface) });
+    publish();
+  };
+
+  const handleMove = (e: PointerEvent) => {
+    const contact = contacts.get(idOf(e));
+    if (!contact) return;
+    contact.pointer = pointerAt(contact.pointer.id, e, contact.surface);
+    publish();
+  };
+
+  const handleUp = (e: PointerEvent) => {
+    if (contacts.delete(idOf(e))) publish();
+  };
+
+  return {
+    kind: 'touch',
+    start: (next) => {
+      sink = next;
+      window.addEventListener('pointerdown', handleDown);
+      window.addEventListener('pointermove', handleMove);
+      window.addEventListener('pointerup', handleUp);
+      window.addEventListener('pointercancel', handleUp);
+    },
+    stop: () => {
+      window.removeEventListener('pointerdown', handleDown);
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleUp);
+      contacts.clear();
+      sink = null;
+    },
+  };
+};
+
+export interface GamepadSourceOptions {
+  // Cursor speed at full stick deflection, in screen widths per second
+  speed: number;
+  // Stick deflection ignored as drift
+  deadzone: number;
+  // The cursor disappears once the pad has been left alone this long
+  idleMs: number;
+  getSize: () => { width: number; height: number };
+}
+
+export const DEFAULT_GAMEPAD_OPTIONS: GamepadSourceOptions = {
+  speed: 0.8,
+  deadzone: 0.15,
+  idleMs: 3000,
+  getSize: () => ({ width: window.innerWidth, height: window.innerHeight }),
+};
+
+// Button 0 (A / cross)
+const PULL_BUTTON = 0;
+
+const applyDeadzone = (value: number, deadzone: number) =>
+  Math.abs(value) < deadzone ? 0 : Math.sign(value) * (Math.abs(value) - deadzone) / (1 - deadzone);
+
+// The left stick steers a cursor; holding A pulls particles in instead of pushing them away
+export const createGamepadSource = (options: Partial<GamepadSourceOptions> = {}): InputSource => {
+  const opts = { ...DEFAULT_GAMEPAD_OPTIONS, ...options };
+  let sink: InputSink | null = null;
+  let frame = 0;
+  let last = 0;
+  let lastActive = -Infinity;
+  let visible = false;
+  let cursor: { x: number; y: number } | null = null;
+
+  const poll = (now: number) => {
+    frame = 0;
+    if (!sink) return;
+    const pad = Array.from(navigator.getGamepads?.() ?? []).find((candidate) => candidate?.connected);
+    if (!pad) {
+      // Polling resumes on the next gamepadconnected
+      if (visible) sink.pointers([]);
+      visible = false;
+      return;
+    }
+
+    const { width, height } = opts.getSize();
+    const dt = last ? Math.min(0.1, (now - last) / 1000) : 0;
+    last = now;
+    cursor ??= { x: width / 2, y: height / 2 };
+    const dx = applyDeadzone(pad.axes[0] ?? 0, opts.deadzone);
+    const dy = applyDeadzone(pad.axes[1] ?? 0, opts.deadzone);
+    const pulling = pad.buttons[PULL_BUTTON]?.pressed ?? false;
+    if (dx || dy || pulling) lastActive = now;
+    cursor.x = Math.min(width, Math.max(0, cursor.x + dx * opts.speed * width * dt));
+    cursor.y = Math.min(height, Math.max(0, cursor.y + dy * opts.speed * width * dt));
+
+    if (now - lastActive <= opts.idleMs) {
+      visible = true;
+      sink.pointers([{ id: `gamepad-${pad.index}`, x: cursor.x, y: cursor.y, force: pulling ? -1 : 1 }]);
+    } else if (visible) {
+      visible = false;
+      sink.pointers([]);
+    }
+    frame = requestAnimationFrame(poll);
+  };
+
+  const resume = () => {
+    if (!frame && sink) {
+      last = 0;
+      frame = requestAnimationFrame(poll);
+    }
+  };
+
+  return {
+    kind: 'gamepad',
+    start: (next) => {
+      sink = next;
+      window.addEventListener('gamepadconnected', resume);
+      // A pad connected before the page loaded only shows up once polled
+      resume();
+    },
+    stop: () => {
+      window.removeEventListener('gamepadconnected', resume);
+      if (frame) cancelAnimationFrame(frame);
+      frame = 0;
+      sink = null;
+      visible = false;
+    },
+  };
+};
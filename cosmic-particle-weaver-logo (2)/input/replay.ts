@@ -0,0 +1,227 @@
+// Timestamped input logs: recorded from live sources and played back as a
+// source of their own, so interaction can be developed and checked without
+// a camera or network.
+
+import { Pointer } from '../engine/simulation';
+import { isNumber, isObject } from '../services/guards';
+import { GestureFrame, HAND_LANDMARK_COUNT, Landmark, TrackedHand } from './gestures';
+import { InputRecorder, InputSink, InputSource, InputSourceKind } from './inputSource';
+
+export const INPUT_RECORDING_FORMAT = 'particle-weaver-input';
+export const INPUT_RECORDING_VERSION = 1;
+
+export type RecordedFrame =
+  // Every pointer of one source at time t (ms from the start)
+  | { t: number; source: InputSourceKind; pointers: Pointer[] }
+  // Raw landmarks of the visible hands
+  | { t: number; hands: TrackedHand[] };
+
+export interface InputRecording {
+  format: typeof INPUT_RECORDING_FORMAT;
+  version: typeof INPUT_RECORDING_VERSION;
+  // Screen size the pointers were recorded at; replays scale them to the current one
+  width: number;
+  height: number;
+  frames: RecordedFrame[];
+}
+
+type Size = { width: number; height: number };
+
+const windowSize = (): Size => ({ width: window.innerWidth, height: window.innerHeight });
+
+// Landmarks don't need more precision than the camera delivers
+const round = (n: number, digits: number) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+export interface InputRecordingSession extends InputRecorder {
+  finish: () => InputRecording;
+}
+
+export const createInputRecorder = (getSize: () => Size = windowSize): InputRecordingSession => {
+  const start = performance.now();
+  const { width, height } = getSize();
+  const frames: RecordedFrame[] = [];
+  const now = () => Math.round(performance.now() - start);
+
+  return {
+    pointers: (source, pointers) => {
+      frames.push({
+        t: now(),
+        source,
+        pointers: pointers.map((pointer) => ({ ...pointer, x: round(pointer.x, 1), y: round(pointer.y, 1) })),
+      });
+    },
+    hands: ({ hands }) => {
+      frames.push({
+        t: now(),
+        hands: hands.map(({ id, landmarks }) => ({
+          id,
+          landmarks: landmarks.map(({ x, y, z }) => ({ x: round(x, 4), y: round(y, 4), z: round(z ?? 0, 4) })),
+        })),
+      });
+    },
+    finish: () => ({ format: INPUT_RECORDING_FORMAT, version: INPUT_RECORDING_VERSION, width, height, frames }),
+  };
+};
+
+const readPointer = (value: unknown, i: number): Pointer => {
+  if (!isObject(value) || !isNumber(value.x) || !isNumber(value.y)) throw new Error('Recorded pointer needs numeric x and y');
+  const id = typeof value.id === 'string' || isNumber(value.id) ? String(value.id) : String(i);
+  const pointer: Pointer = { id, x: value.x, y: value.y };
+  if (isNumber(value.radius)) pointer.radius = value.radius;
+  if (isNumber(value.force)) pointer.force = value.force;
+  return pointer;
+};
+
+const readLandmark = (value: unknown): Landmark => {
+  if (!isObject(value) || !isNumber(value.x) || !isNumber(value.y)) throw new Error('Recorded landmark needs numeric x and y');
+  return { x: value.x, y: value.y, z: isNumber(value.z) ? value.z : 0 };
+};
+
+const RECORDED_SOURCES: InputSourceKind[] = ['mouse', 'touch', 'gamepad', 'hand'];
+
+const readFrame = (value: unknown): RecordedFrame => {
+  if (!isObject(value) || !isNumber(value.t)) throw new Error('Every frame needs a numeric timestamp "t"');
+  if (Array.isArray(value.hands)) {
+    return {
+      t: value.t,
+      hands: value.hands.map((hand: unknown, i: number) => {
+        if (!isObject(hand) || !Array.isArray(hand.landmarks)) throw new Error('Recorded hand needs a landmarks array');
+        // Tracking and gestures index into the full set
+        if (hand.landmarks.length < HAND_LANDMARK_COUNT) {
+          throw new Error(`Recorded hand needs ${HAND_LANDMARK_COUNT} landmarks, got ${hand.landmarks.length}`);
+        }
+        return { id: typeof hand.id === 'string' ? hand.id : `hand-${i}`, landmarks: hand.landmarks.map(readLandmark) };
+      }),
+    };
+  }
+  if (Array.isArray(value.pointers)) {
+    const source = RECORDED_SOURCES.find((kind) => kind === value.source) ?? 'replay';
+    return { t: value.t, source, pointers: value.pointers.map(readPointer) };
+  }
+  throw new Error('Every frame needs either "pointers" or "hands"');
+};
+
+// Accepts a full recording or, for hand-written logs, a bare array of frames
+// positioned for the current screen
+export const parseInputRecording = (json: string): InputRecording => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Input recording is not valid JSON');
+  }
+  const rawFrames = Array.isArray(parsed) ? parsed : isObject(parsed) ? parsed.frames : undefined;
+  if (!Array.isArray(rawFrames)) throw new Error('Input recording must contain a frames array');
+  if (isObject(parsed) && isNumber(parsed.version) && parsed.version > INPUT_RECORDING_VERSION) {
+    throw new Error(`Input recording version ${parsed.version} is newer than this app supports`);
+  }
+  const size = isObject(parsed) && isNumber(parsed.width) && isNumber(parsed.height)
+    ? { width: parsed.width, height: parsed.height }
+    : windowSize();
+  const frames = rawFrames.map(readFrame).sort((a, b) => a.t - b.t);
+  return { format: INPUT_RECORDING_FORMAT, version: INPUT_RECORDING_VERSION, ...size, frames };
+};
+
+// Hand frames of a recording in the form replayGestures takes, so gesture
+// fixtures can be checked without a camera
+export const toGestureFrames = (recording: InputRecording): GestureFrame[] =>
+  recording.frames.flatMap((frame) => ('hands' in frame ? [{ timestamp: frame.t, hands: frame.hands }] : []));
+
+export interface ReplayOptions {
+  loop: boolean;
+  // Playback rate; 2 plays twice as fast
+  speed: number;
+  getSize: () => Size;
+  // Called once a non-looping replay has played its last frame
+  onEnd?: () => void;
+}
+
+export const DEFAULT_REPLAY_OPTIONS: ReplayOptions = {
+  loop: true,
+  speed: 1,
+  getSize: windowSize,
+};
+
+// Pause between the last frame and the start of the next loop
+const LOOP_GAP_MS = 500;
+
+export const createReplaySource = (recording: InputRecording, options: Partial<ReplayOptions> = {}): InputSource => {
+  const opts = { ...DEFAULT_REPLAY_OPTIONS, ...options };
+  const { frames } = recording;
+  const duration = frames.length ? frames[frames.length - 1].t : 0;
+  let sink: InputSink | null = null;
+  let frame = 0;
+  let startedAt = 0;
+  let next = 0;
+  // Hand timestamps keep increasing across loops so filters see time moving forward
+  let timeOffset = 0;
+  const bySource = new Map<string, Pointer[]>();
+
+  const publishPointers = () => {
+    const merged: Pointer[] = [];
+    bySource.forEach((pointers) => merged.push(...pointers));
+    sink?.pointers(merged);
+  };
+
+  const clear = (timestamp: number) => {
+    bySource.clear();
+    sink?.pointers([]);
+    sink?.hands({ timestamp, hands: [] });
+  };
+
+  const tick = (now: number) => {
+    frame = 0;
+    if (!sink) return;
+    const elapsed = (now - startedAt) * opts.speed;
+    const { width, height } = opts.getSize();
+    const sx = width / recording.width;
+    const sy = height / recording.height;
+    let pointersChanged = false;
+
+    while (next < frames.length && frames[next].t <= elapsed) {
+      const recorded = frames[next++];
+      if ('hands' in recorded) {
+        sink.hands({ timestamp: timeOffset + recorded.t, hands: recorded.hands });
+      } else {
+        bySource.set(recorded.source, recorded.pointers.map((pointer) => ({
+          ...pointer,
+          id: `replay-${recorded.source}-${pointer.id}`,
+          x: pointer.x * sx,
+          y: pointer.y * sy,
+        })));
+        pointersChanged = true;
+      }
+    }
+    if (pointersChanged) publishPointers();
+
+    if (next >= frames.length) {
+      clear(timeOffset + duration);
+      if (!opts.loop) {
+        sink = null;
+        opts.onEnd?.();
+        return;
+      }
+      timeOffset += duration + LOOP_GAP_MS;
+      startedAt = now + LOOP_GAP_MS / opts.speed;
+      next = 0;
+    }
+    frame = requestAnimationFrame(tick);
+  };
+
+  return {
+    kind: 'replay',
+    start: (nextSink) => {
+      sink = nextSink;
+      startedAt = performance.now();
+      next = 0;
+      timeOffset = 0;
+      frame = requestAnimationFrame(tick);
+    },
+    stop: () => {
+      if (frame) cancelAnimationFrame(frame);
+      frame = 0;
+      if (sink) clear(timeOffset + duration);
+      sink = null;
+    },
+  };
+};
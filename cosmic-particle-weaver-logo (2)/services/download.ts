@@ -0,0 +1,24 @@
+// Some browsers start the download after click() returns, so the URL has to outlive it
+const REVOKE_DELAY_MS = 10000;
+
+// Saves a blob through a temporary link click
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+export const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+// File-name friendly timestamp, e.g. 2024-05-01T12-30-00-000Z
+export const fileTimestamp = () => new Date().toISOString().replace(/[:.]/g, '-');
@@ -1,37 +1,69 @@
-import { GoogleGenAI } from "@google/genai";
+import { ApiError, BlockedReason, FinishReason, GoogleGenAI } from "@google/genai";
+import { errorKindForStatus, ImageProvider, ImageProviderError } from './imageProvider';
 
-const getAiClient = () => {
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+const PROVIDER_ID = 'gemini';
+
+// Finish reasons that mean the output was filtered rather than just missing
+const SAFETY_FINISH_REASONS = new Set<string>([
+  FinishReason.SAFETY,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+]);
+
+// Gemini answers a bad key with 400 INVALID_ARGUMENT rather than 401
+const classifyApiError = (error: ApiError) => {
+  if (error.status === 400 && /api key/i.test(error.message)) return 'auth';
+  return errorKindForStatus(error.status);
 };
 
-export const generateCosmicImage = async (prompt: string): Promise<string> => {
-  const ai = getAiClient();
-  
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            text: `Generate a high contrast, digital art image. ${prompt}. The background should be purely black or very dark to suit a particle effect system. Bright, vibrant colors for the subject.`,
-          },
-        ],
-      },
-    });
-
-    // Iterate through parts to find the image
-    const parts = response.candidates?.[0]?.content?.parts;
-    if (parts) {
-      for (const part of parts) {
-        if (part.inlineData && part.inlineData.data) {
-          return `data:image/png;base64,${part.inlineData.data}`;
+export const createGeminiProvider = (apiKey: string | undefined, model = 'gemini-2.5-flash-image'): ImageProvider => {
+  let client: GoogleGenAI | null = null;
+  const getAiClient = () => {
+    client ??= new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  return {
+    id: PROVIDER_ID,
+    label: 'Google Gemini',
+    unavailableReason: () => (apiKey ? null : 'GEMINI_API_KEY is missing in the environment variables.'),
+    generate: async ({ prompt, negativePrompt, signal }) => {
+      // No negative prompt parameter for image output, so it is spelled out
+      const text = negativePrompt?.trim() ? `${prompt}\nAvoid: ${negativePrompt.trim()}.` : prompt;
+      let response;
+      try {
+        response = await getAiClient().models.generateContent({
+          model,
+          contents: { parts: [{ text }] },
+          config: { abortSignal: signal },
+        });
+      } catch (error) {
+        console.error("Gemini Image Generation Error:", error);
+        if (error instanceof ApiError) {
+          throw new ImageProviderError(classifyApiError(error), PROVIDER_ID, error.message, { cause: error });
+        }
+        throw error;
+      }
+
+      const blockReason = response.promptFeedback?.blockReason;
+      if (blockReason && blockReason !== BlockedReason.BLOCKED_REASON_UNSPECIFIED) {
+        throw new ImageProviderError('safety', PROVIDER_ID, `Prompt blocked: ${blockReason}`);
+      }
+
+      // Iterate through parts to find the image
+      const candidate = response.candidates?.[0];
+      for (const part of candidate?.content?.parts ?? []) {
+        if (part.inlineData?.data) {
+          return `data:${part.inlineData.mimeType ?? 'image/png'};base64,${part.inlineData.data}`;
         }
       }
-    }
-    
-    throw new Error("No image data found in response");
-  } catch (error) {
-    console.error("Gemini Image Generation Error:", error);
-    throw error;
-  }
+
+      if (candidate?.finishReason && SAFETY_FINISH_REASONS.has(candidate.finishReason)) {
+        throw new ImageProviderError('safety', PROVIDER_ID, `Image blocked: ${candidate.finishReason}`);
+      }
+      throw new ImageProviderError('noImage', PROVIDER_ID, 'No image data found in response');
+    },
+  };
 };
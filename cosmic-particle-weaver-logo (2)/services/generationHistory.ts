@@ -0,0 +1,114 @@
+// Past generations, kept in IndexedDB so they survive reloads
+
+export interface GenerationRecord {
+  id: string;
+  createdAt: number;
+  // What the user typed, and the full prompt that was sent
+  subject: string;
+  prompt: string;
+  negativePrompt: string;
+  template: string;
+  style: string;
+  providerId: string;
+  image: Blob;
+  thumbnail: Blob;
+}
+
+export type NewGeneration = Omit<GenerationRecord, 'id' | 'createdAt' | 'image' | 'thumbnail'> & {
+  // Data URL as returned by the provider
+  imageSrc: string;
+};
+
+const DB_NAME = 'particle-weaver';
+const DB_VERSION = 1;
+const STORE = 'generations';
+// Oldest entries are dropped past this many
+export const MAX_HISTORY = 60;
+const THUMBNAIL_SIZE = 96;
+
+const requestResult = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error ?? new Error('History transaction aborted'));
+});
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (database) return database;
+  database = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // A failed open (private mode, blocked upgrade) may succeed on a later try
+  database.catch(() => {
+    database = null;
+  });
+  return database;
+};
+
+// Square center crop, small enough to keep the gallery cheap
+const createThumbnail = async (image: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_SIZE;
+  canvas.height = THUMBNAIL_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create a thumbnail canvas');
+  const side = Math.min(bitmap.width, bitmap.height);
+  ctx.drawImage(bitmap, (bitmap.width - side) / 2, (bitmap.height - side) / 2, side, side, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+  bitmap.close();
+  const thumbnail = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+  if (!thumbnail) throw new Error('Could not encode the thumbnail');
+  return thumbnail;
+};
+
+// Newest first
+export const listGenerations = async (): Promise<GenerationRecord[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(STORE, 'readonly').objectStore(STORE).index('createdAt');
+  const records = await requestResult(index.getAll() as IDBRequest<GenerationRecord[]>);
+  return records.reverse();
+};
+
+export const addGeneration = async (generation: NewGeneration): Promise<GenerationRecord> => {
+  const { imageSrc, ...details } = generation;
+  const image = await (await fetch(imageSrc)).blob();
+  const record: GenerationRecord = {
+    ...details,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: Date.now(),
+    image,
+    thumbnail: await createThumbnail(image),
+  };
+
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  store.put(record);
+  const keys = await requestResult(store.index('createdAt').getAllKeys());
+  // Keys come oldest first; the new record is already counted
+  keys.slice(0, Math.max(0, keys.length - MAX_HISTORY)).forEach((key) => store.delete(key));
+  await transactionDone(transaction);
+  return record;
+};
+
+export const deleteGeneration = async (id: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, 'readwrite');
+  transaction.objectStore(STORE).delete(id);
+  await transactionDone(transaction);
+};
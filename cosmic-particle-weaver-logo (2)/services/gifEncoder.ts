@@ -0,0 +1,271 @@
+// Minimal animated GIF89a encoder: median-cut palette per frame, LZW, no dithering
+
+export interface GifEncoder {
+  // RGBA pixels of width * height; delay in hundredths of a second
+  addFrame: (rgba: Uint8ClampedArray, delayCs: number) => void;
+  finish: () => Blob;
+}
+
+export interface GifOptions {
+  // 0 loops forever
+  loops: number;
+}
+
+const DEFAULT_GIF_OPTIONS: GifOptions = { loops: 0 };
+
+const createByteWriter = (initialSize = 1 << 16) => {
+  let buffer = new Uint8Array(initialSize);
+  let length = 0;
+
+  const ensure = (extra: number) => {
+    if (length + extra <= buffer.length) return;
+    let size = buffer.length * 2;
+    while (size < length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(buffer.subarray(0, length));
+    buffer = next;
+  };
+
+  return {
+    byte: (value: number) => {
+      ensure(1);
+      buffer[length++] = value;
+    },
+    short: (value: number) => {
+      ensure(2);
+      buffer[length++] = value & 0xff;
+      buffer[length++] = (value >> 8) & 0xff;
+    },
+    bytes: (values: ArrayLike<number>) => {
+      ensure(values.length);
+      buffer.set(values, length);
+      length += values.length;
+    },
+    ascii: (text: string) => {
+      ensure(text.length);
+      for (let i = 0; i < text.length; i++) buffer[length++] = text.charCodeAt(i);
+    },
+    toArray: () => buffer.slice(0, length),
+  };
+};
+
+type ByteWriter = ReturnType<typeof createByteWriter>;
+
+// 5 bits per channel
+const binOf = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+
+interface Box {
+  start: number;
+  end: number;
+  population: number;
+  // Widest channel (0 = r, 1 = g, 2 = b) and its extent
+  channel: number;
+  extent: number;
+}
+
+const channelOf = (bin: number, channel: number) => (bin >> (10 - channel * 5)) & 31;
+
+const describeBox = (bins: Uint16Array, counts: Uint32Array, start: number, end: number): Box => {
+  const min = [31, 31, 31];
+  const max = [0, 0, 0];
+  let population = 0;
+  for (let i = start; i < end; i++) {
+    const bin = bins[i];
+    population += counts[bin];
+    for (let c = 0; c < 3; c++) {
+      const value = channelOf(bin, c);
+      if (value < min[c]) min[c] = value;
+      if (value > max[c]) max[c] = value;
+    }
+  }
+  let channel = 0;
+  for (let c = 1; c < 3; c++) {
+    if (max[c] - min[c] > max[channel] - min[channel]) channel = c;
+  }
+  return { start, end, population, channel, extent: max[channel] - min[channel] };
+};
+
+// Pixels are composited over black; particle frames are rendered onto a solid background anyway
+const quantize = (rgba: Uint8ClampedArray, maxColors: number) => {
+  const pixelCount = rgba.length / 4;
+  const pixelBins = new Uint16Array(pixelCount);
+  const counts = new Uint32Array(32768);
+  for (let i = 0, p = 0; p < pixelCount; i += 4, p++) {
+    const a = rgba[i + 3];
+    const bin = a === 255
+      ? binOf(rgba[i], rgba[i + 1], rgba[i + 2])
+      : binOf((rgba[i] * a) / 255, (rgba[i + 1] * a) / 255, (rgba[i + 2] * a) / 255);
+    pixelBins[p] = bin;
+    counts[bin]++;
+  }
+
+  let used = 0;
+  for (let bin = 0; bin < counts.length; bin++) if (counts[bin] > 0) used++;
+  const bins = new Uint16Array(used);
+  for (let bin = 0, n = 0; bin < counts.length; bin++) if (counts[bin] > 0) bins[n++] = bin;
+
+  // Median cut: keep splitting the box with the most pixels times spread
+  const boxes: Box[] = [describeBox(bins, counts, 0, bins.length)];
+  while (boxes.length < maxColors) {
+    let target = -1;
+    let best = 0;
+    boxes.forEach((box, i) => {
+      const score = box.end - box.start > 1 ? box.population * box.extent : 0;
+      if (score > best) {
+        best = score;
+        target = i;
+      }
+    });
+    if (target < 0) break;
+    const box = boxes[target];
+    const slice = bins.subarray(box.start, box.end);
+    slice.sort((a, b) => channelOf(a, box.channel) - channelOf(b, box.channel));
+    // Split where half the pixels fall on either side
+    let seen = 0;
+    let split = box.start + 1;
+    for (let i = box.start; i < box.end - 1; i++) {
+      seen += counts[bins[i]];
+      split = i + 1;
+      if (seen * 2 >= box.population) break;
+    }
+    boxes.splice(target, 1, describeBox(bins, counts, box.start, split), describeBox(bins, counts, split, box.end));
+  }
+
+  // Power of two, at least 2 entries
+  let bits = 1;
+  while (1 << bits < boxes.length) bits++;
+  const palette = new Uint8Array((1 << bits) * 3);
+  const indexOfBin = new Uint8Array(32768);
+  boxes.forEach((box, index) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (let i = box.start; i < box.end; i++) {
+      const bin = bins[i];
+      const weight = counts[bin];
+      // Bin centers in 8-bit space
+      r += ((channelOf(bin, 0) << 3) | 4) * weight;
+      g += ((channelOf(bin, 1) << 3) | 4) * weight;
+      b += ((channelOf(bin, 2) << 3) | 4) * weight;
+      indexOfBin[bin] = index;
+    }
+    const population = Math.max(1, box.population);
+    palette[index * 3] = Math.round(r / population);
+    palette[index * 3 + 1] = Math.round(g / population);
+    palette[index * 3 + 2] = Math.round(b / population);
+  });
+
+  const indices = new Uint8Array(pixelCount);
+  for (let p = 0; p < pixelCount; p++) indices[p] = indexOfBin[pixelBins[p]];
+  return { palette, bits, indices };
+};
+
+const MAX_CODE = 4096;
+
+// Variable-width LZW as GIF expects it, split into sub-blocks of at most 255 bytes
+const writeLzw = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const data = createByteWriter(indices.length >> 1);
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let bits = 0;
+  let bitCount = 0;
+
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      data.byte(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) data.byte(bits & 0xff);
+
+  const bytes = data.toArray();
+  out.byte(minCodeSize);
+  for (let offset = 0; offset < bytes.length; offset += 255) {
+    const block = bytes.subarray(offset, offset + 255);
+    out.byte(block.length);
+    out.bytes(block);
+  }
+  out.byte(0);
+};
+
+export const createGifEncoder = (width: number, height: number, options: Partial<GifOptions> = {}): GifEncoder => {
+  const { loops } = { ...DEFAULT_GIF_OPTIONS, ...options };
+  // Encoded frames, so memory grows with the compressed size only
+  const chunks: Uint8Array[] = [];
+
+  const header = createByteWriter(64);
+  header.ascii('GIF89a');
+  // Logical screen without a global color table; every frame brings its own
+  header.short(width);
+  header.short(height);
+  header.byte(0);
+  header.byte(0);
+  header.byte(0);
+  // NETSCAPE2.0 application extension: loop count
+  header.bytes([0x21, 0xff, 0x0b]);
+  header.ascii('NETSCAPE2.0');
+  header.bytes([0x03, 0x01]);
+  header.short(loops);
+  header.byte(0);
+  chunks.push(header.toArray());
+
+  return {
+    addFrame: (rgba, delayCs) => {
+      if (rgba.length !== width * height * 4) {
+        throw new Error(`GIF frame must be ${width}x${height}`);
+      }
+      const { palette, bits, indices } = quantize(rgba, 256);
+      const frame = createByteWriter(indices.length >> 1);
+      // Graphic control extension: replace the previous frame, no transparency
+      frame.bytes([0x21, 0xf9, 0x04, 0x04]);
+      frame.short(Math.max(0, Math.round(delayCs)));
+      frame.bytes([0, 0]);
+      // Image descriptor with a local color table
+      frame.byte(0x2c);
+      frame.short(0);
+      frame.short(0);
+      frame.short(width);
+      frame.short(height);
+      frame.byte(0x80 | (bits - 1));
+      frame.bytes(palette);
+      writeLzw(frame, indices, Math.max(2, bits));
+      chunks.push(frame.toArray());
+    },
+    finish: () => new Blob([...chunks, new Uint8Array([0x3b])], { type: 'image/gif' }),
+  };
+};
+
+// Delay of frame `index` in hundredths of a second. Rounding accumulates across
+// frames, so e.g. 30 fps alternates 3 and 4 and the clip keeps its length.
+export const gifFrameDelay = (index: number, fps: number) =>
+  Math.round(((index + 1) * 100) / fps) - Math.round((index * 100) / fps);
@@ -0,0 +1,9 @@
+// Type guards for data parsed from JSON: API responses, stored settings,
+// shared scenes and input recordings
+
+// Plain object (not an array or null) whose keys can be checked one by one
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Finite number; NaN and Infinity are rejected
+export const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
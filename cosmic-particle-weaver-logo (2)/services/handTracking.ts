@@ -0,0 +1,116 @@
+import {
+  Calibration,
+  CalibrationKind,
+  DEFAULT_ACTIVE_REGION,
+  Region,
+  TrackingLandmark,
+} from '../input/calibration';
+import { DEFAULT_ONE_EURO_OPTIONS, OneEuroOptions } from '../input/oneEuro';
+import { TrackerStatus } from '../input/handTracker';
+import { isNumber, isObject } from './guards';
+
+// How hands become pointers. Calibration belongs to the camera and room, not
+// to a scene, so these live in localStorage only.
+export interface HandTrackingSettings {
+  landmark: TrackingLandmark;
+  // Part of the (mirrored) camera frame that spans the screen
+  region: Region;
+  filter: OneEuroOptions;
+  // Mapping fitted by the next calibration
+  calibrationKind: CalibrationKind;
+  // Latest calibration; null maps the region straight onto the screen
+  calibration: Calibration | null;
+  // Camera to track with; null uses the browser's default
+  deviceId: string | null;
+}
+
+export const DEFAULT_HAND_TRACKING: HandTrackingSettings = {
+  landmark: 'indexTip',
+  region: DEFAULT_ACTIVE_REGION,
+  filter: DEFAULT_ONE_EURO_OPTIONS,
+  calibrationKind: 'homography',
+  calibration: null,
+  deviceId: null,
+};
+
+export const TRACKING_LANDMARK_LABELS: Record<TrackingLandmark, string> = {
+  indexTip: 'Index Fingertip',
+  palmCenter: 'Palm Center',
+  wrist: 'Wrist',
+};
+
+const STORAGE_KEY = 'particle-weaver:hand-tracking';
+
+const readRegion = (value: unknown): Region =>
+  isObject(value) && isNumber(value.x) && isNumber(value.y) &&
+  isNumber(value.width) && isNumber(value.height) && value.width > 0 && value.height > 0
+    ? { x: value.x, y: value.y, width: value.width, height: value.height }
+    : DEFAULT_ACTIVE_REGION;
+
+const readCalibration = (value: unknown): Calibration | null =>
+  isObject(value) && (value.kind === 'affine' || value.kind === 'homography') &&
+  Array.isArray(value.matrix) && value.matrix.length === 9 && value.matrix.every(isNumber)
+    ? { kind: value.kind, matrix: value.matrix }
+    : null;
+
+const readLandmark = (value: unknown): TrackingLandmark =>
+  typeof value === 'string' && Object.hasOwn(TRACKING_LANDMARK_LABELS, value)
+    ? (value as TrackingLandmark)
+    : DEFAULT_HAND_TRACKING.landmark;
+
+const readFilterValue = (filter: Record<string, unknown>, key: keyof OneEuroOptions) => {
+  const value = filter[key];
+  return isNumber(value) ? value : DEFAULT_ONE_EURO_OPTIONS[key];
+};
+
+export const loadStoredHandTracking = (): HandTrackingSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_HAND_TRACKING;
+    const stored: unknown = JSON.parse(raw);
+    if (!isObject(stored)) return DEFAULT_HAND_TRACKING;
+    const filter = isObject(stored.filter) ? stored.filter : {};
+    return {
+      landmark: readLandmark(stored.landmark),
+      region: readRegion(stored.region),
+      filter: {
+        minCutoff: readFilterValue(filter, 'minCutoff'),
+        beta: readFilterValue(filter, 'beta'),
+        derivativeCutoff: readFilterValue(filter, 'derivativeCutoff'),
+      },
+      calibrationKind: stored.calibrationKind === 'affine' ? 'affine' : 'homography',
+      calibration: readCalibration(stored.calibration),
+      deviceId: typeof stored.deviceId === 'string' ? stored.deviceId : null,
+    };
+  } catch (e) {
+    console.warn('Ignoring unreadable hand tracking settings:', e);
+    return DEFAULT_HAND_TRACKING;
+  }
+};
+
+export const saveStoredHandTracking = (settings: HandTrackingSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('Could not persist hand tracking settings:', e);
+  }
+};
+
+// One line for the tracker preview, the status badge and the panel
+export const describeTrackerStatus = ({ state, message, delegate, hands }: TrackerStatus): string => {
+  switch (state) {
+    case 'idle':
+      return message ?? 'Hand tracking is off';
+    case 'loadingModel':
+      return delegate === 'CPU' ? 'Loading hand model (CPU)...' : 'Loading hand model...';
+    case 'requestingCamera':
+      return 'Waiting for the camera...';
+    case 'tracking':
+      return hands > 1 ? `Tracking ${hands} hands` : 'Tracking 1 hand';
+    case 'handLost':
+      return 'No hand in view';
+    case 'errorRecoverable':
+    case 'errorFatal':
+      return message ?? 'Hand tracking failed';
+  }
+};
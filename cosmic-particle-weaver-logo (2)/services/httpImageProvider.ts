@@ -0,0 +1,68 @@
+import { errorKindForStatus, ImageErrorKind, ImageProvider, ImageProviderError } from './imageProvider';
+import { blobToDataUrl } from './download';
+import { isObject } from './guards';
+
+export interface HttpProviderConfig {
+  id: string;
+  label: string;
+  // POST target; receives { prompt, negativePrompt } as JSON
+  url?: string;
+  // Sent as a bearer token when set
+  apiKey?: string;
+}
+
+const KNOWN_KINDS: ImageErrorKind[] = ['auth', 'quota', 'safety', 'noImage'];
+
+// Generic endpoint for self-hosted models. It may answer with
+// - the image itself (any image/* content type),
+// - JSON { image: <data URL or base64 PNG> } or { url: <image URL> },
+// - JSON { error: <message>, kind?: 'auth' | 'quota' | 'safety' | 'noImage' } on failure.
+export const createHttpImageProvider = (config: HttpProviderConfig): ImageProvider => {
+  const fail = (kind: ImageErrorKind, message: string): never => {
+    throw new ImageProviderError(kind, config.id, message);
+  };
+
+  return {
+    id: config.id,
+    label: config.label,
+    unavailableReason: () => (config.url ? null : 'IMAGE_API_URL is missing in the environment variables.'),
+    generate: async ({ prompt, negativePrompt, signal }) => {
+      const response = await fetch(config.url!, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+        },
+        body: JSON.stringify({ prompt, negativePrompt }),
+        signal,
+      });
+
+      const contentType = response.headers.get('Content-Type') ?? '';
+      if (response.ok && contentType.startsWith('image/')) {
+        return blobToDataUrl(await response.blob());
+      }
+
+      let parsed: unknown = null;
+      try {
+        parsed = await response.json();
+      } catch {
+        // Not JSON; classified from the status alone
+      }
+      const body = isObject(parsed) ? parsed : {};
+      if (!response.ok || body.error) {
+        const kind = KNOWN_KINDS.find((known) => known === body.kind) ?? errorKindForStatus(response.status);
+        return fail(kind, typeof body.error === 'string' ? body.error : `HTTP ${response.status}`);
+      }
+
+      if (typeof body.image === 'string' && body.image.length > 0) {
+        return body.image.startsWith('data:') ? body.image : `data:image/png;base64,${body.image}`;
+      }
+      if (typeof body.url === 'string') {
+        const image = await fetch(body.url, { signal });
+        if (!image.ok) return fail(errorKindForStatus(image.status), `Image download failed: HTTP ${image.status}`);
+        return blobToDataUrl(await image.blob());
+      }
+      return fail('noImage', 'Response contained no image');
+    },
+  };
+};
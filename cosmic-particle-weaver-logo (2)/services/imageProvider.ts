@@ -0,0 +1,101 @@
+export interface ImageRequest {
+  prompt: string;
+  // Things the image should not contain; providers without native support fold it into the prompt
+  negativePrompt?: string;
+  signal?: AbortSignal;
+}
+
+// A backend that turns a prompt into an image the particle canvas can load
+export interface ImageProvider {
+  id: string;
+  label: string;
+  // Why the provider can't be used right now (e.g. a missing key), or null
+  unavailableReason: () => string | null;
+  // Resolves with a data URL; failures are ImageProviderErrors
+  generate: (request: ImageRequest) => Promise<string>;
+}
+
+export type ImageErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'noImage'
+  | 'network'
+  | 'unavailable'
+  | 'cancelled'
+  | 'unknown';
+
+// Callers branch on `kind`; `message` carries the provider's own detail
+export class ImageProviderError extends Error {
+  constructor(
+    readonly kind: ImageErrorKind,
+    readonly providerId: string,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = 'ImageProviderError';
+  }
+}
+
+export const IMAGE_ERROR_MESSAGES: Record<ImageErrorKind, string> = {
+  auth: 'The API key was rejected. Check the provider credentials.',
+  quota: 'Rate limit or quota exceeded. Wait a moment and try again.',
+  safety: 'The request was blocked by the safety filter. Try a different prompt.',
+  noImage: 'The provider answered without an image. Try rephrasing the prompt.',
+  network: 'Could not reach the provider. Check your connection.',
+  unavailable: 'This provider is not configured.',
+  cancelled: 'Generation was cancelled.',
+  unknown: 'Failed to generate image. Try again.',
+};
+
+export const errorKindForStatus = (status: number): ImageErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 451) return 'safety';
+  return 'unknown';
+};
+
+// Wraps anything thrown inside a provider, keeping errors that are already classified
+export const toImageProviderError = (providerId: string, error: unknown): ImageProviderError => {
+  if (error instanceof ImageProviderError) return error;
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new ImageProviderError('cancelled', providerId, 'Request aborted', { cause: error });
+  }
+  // fetch rejects with a TypeError when the request never got an answer
+  if (error instanceof TypeError) {
+    return new ImageProviderError('network', providerId, error.message, { cause: error });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new ImageProviderError('unknown', providerId, message, { cause: error });
+};
+
+export interface ImageProviderRegistry {
+  list: () => ImageProvider[];
+  get: (id: string) => ImageProvider | undefined;
+  // Replaces a provider with the same id
+  register: (provider: ImageProvider) => void;
+}
+
+export const createImageProviderRegistry = (initial: ImageProvider[] = []): ImageProviderRegistry => {
+  const providers = new Map<string, ImageProvider>();
+  initial.forEach((provider) => providers.set(provider.id, provider));
+  return {
+    list: () => [...providers.values()],
+    get: (id) => providers.get(id),
+    register: (provider) => {
+      providers.set(provider.id, provider);
+    },
+  };
+};
+
+// Runs a provider with availability checked and every failure classified
+export const generateImage = async (provider: ImageProvider, request: ImageRequest): Promise<string> => {
+  const reason = provider.unavailableReason();
+  if (reason) throw new ImageProviderError('unavailable', provider.id, reason);
+  try {
+    return await provider.generate(request);
+  } catch (error) {
+    throw toImageProviderError(provider.id, error);
+  }
+};
@@ -0,0 +1,18 @@
+import { createImageProviderRegistry } from './imageProvider';
+import { createGeminiProvider } from './geminiService';
+import { createHttpImageProvider } from './httpImageProvider';
+import { createMockImageProvider } from './mockImageProvider';
+
+// Built-in providers, configured from the environment (see vite.config.ts)
+export const imageProviders = createImageProviderRegistry([
+  createGeminiProvider(process.env.API_KEY),
+  createHttpImageProvider({
+    id: 'http',
+    label: 'Custom HTTP Endpoint',
+    url: process.env.IMAGE_API_URL,
+    apiKey: process.env.IMAGE_API_KEY,
+  }),
+  createMockImageProvider(),
+]);
+
+export const DEFAULT_IMAGE_PROVIDER = 'gemini';
@@ -0,0 +1,97 @@
+import { createRandom } from '../engine/random';
+import { ImageErrorKind, ImageProvider, ImageProviderError } from './imageProvider';
+
+const PROVIDER_ID = 'mock';
+const SIZE = 512;
+
+// "[error:quota]" anywhere in the prompt makes the mock fail with that kind,
+// so error handling can be exercised without a real backend
+const ERROR_PATTERN = /\[error:(\w+)\]/;
+const MOCK_ERROR_KINDS: ImageErrorKind[] = ['auth', 'quota', 'safety', 'noImage', 'network', 'unknown'];
+
+// FNV-1a, so the same prompt always draws the same image
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timeout = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timeout);
+    reject(new ImageProviderError('cancelled', PROVIDER_ID, 'Request aborted'));
+  }, { once: true });
+});
+
+// Glowing rings, orbs and a star on black, in a palette picked from the prompt
+const drawProcedural = (prompt: string) => {
+  const random = createRandom(hashString(prompt));
+  const canvas = document.createElement('canvas');
+  canvas.width = SIZE;
+  canvas.height = SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not create a canvas for the mock image');
+
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, SIZE, SIZE);
+  const hue = random() * 360;
+  const color = (offset: number, lightness = 60) => `hsl(${(hue + offset) % 360}, 90%, ${lightness}%)`;
+  const center = SIZE / 2;
+
+  ctx.lineWidth = 10;
+  const rings = 2 + Math.floor(random() * 3);
+  for (let i = 0; i < rings; i++) {
+    ctx.strokeStyle = color(i * 40);
+    ctx.beginPath();
+    ctx.arc(center, center, 80 + i * 45 + random() * 20, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+
+  const orbs = 3 + Math.floor(random() * 5);
+  for (let i = 0; i < orbs; i++) {
+    const angle = random() * Math.PI * 2;
+    const distance = 60 + random() * 150;
+    const x = center + Math.cos(angle) * distance;
+    const y = center + Math.sin(angle) * distance;
+    const radius = 15 + random() * 35;
+    const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+    gradient.addColorStop(0, color(180, 80));
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  const points = 5 + Math.floor(random() * 4);
+  ctx.fillStyle = color(90, 70);
+  ctx.beginPath();
+  for (let i = 0; i < points * 2; i++) {
+    const radius = i % 2 === 0 ? 70 : 30;
+    const angle = (i / (points * 2)) * Math.PI * 2 - Math.PI / 2;
+    ctx.lineTo(center + Math.cos(angle) * radius, center + Math.sin(angle) * radius);
+  }
+  ctx.closePath();
+  ctx.fill();
+
+  return canvas.toDataURL('image/png');
+};
+
+// Offline stand-in for real providers: deterministic per prompt, with a short delay
+export const createMockImageProvider = (delayMs = 600): ImageProvider => ({
+  id: PROVIDER_ID,
+  label: 'Local Mock',
+  unavailableReason: () => null,
+  generate: async ({ prompt, signal }) => {
+    await wait(delayMs, signal);
+    const forced = prompt.match(ERROR_PATTERN)?.[1] as ImageErrorKind | undefined;
+    if (forced && MOCK_ERROR_KINDS.includes(forced)) {
+      throw new ImageProviderError(forced, PROVIDER_ID, `Simulated ${forced} error`);
+    }
+    return drawProcedural(prompt);
+  },
+});
@@ -0,0 +1,103 @@
+import { TransitionOptions } from '../engine/morph';
+
+export interface PlaylistEntry {
+  id: string;
+  // Data URL, remote URL or the built-in logo
+  src: string;
+  label: string;
+  // How long the entry stays on screen while playing, in milliseconds
+  dwellMs: number;
+  // Overrides for the transition INTO this entry
+  transition?: Partial<TransitionOptions>;
+}
+
+export interface PlaylistState {
+  entries: PlaylistEntry[];
+  index: number;
+  playing: boolean;
+}
+
+export type PlaylistAction =
+  | { type: 'add'; entry: PlaylistEntry }
+  | { type: 'remove'; id: string }
+  | { type: 'update'; id: string; changes: Partial<Omit<PlaylistEntry, 'id'>> }
+  | { type: 'move'; id: string; offset: number }
+  | { type: 'goto'; index: number }
+  | { type: 'next' }
+  | { type: 'previous' }
+  | { type: 'play' }
+  | { type: 'pause' }
+  | { type: 'toggle' }
+  | { type: 'replace'; entries: PlaylistEntry[] };
+
+export const DEFAULT_DWELL_MS = 10000;
+
+export const createPlaylistEntry = (src: string, label: string, dwellMs = DEFAULT_DWELL_MS): PlaylistEntry => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  src,
+  label,
+  dwellMs,
+});
+
+// Short display name: the file name for URLs, a numbered fallback for data URLs
+export const labelForSource = (src: string, fallbackNumber: number) => {
+  if (!src.startsWith('data:')) {
+    const name = src.split(/[?#]/)[0].split('/').filter(Boolean).pop();
+    if (name) {
+      try {
+        return decodeURIComponent(name);
+      } catch {
+        return name;
+      }
+    }
+  }
+  return `Image ${fallbackNumber}`;
+};
+
+const wrap = (index: number, length: number) => (length === 0 ? 0 : ((index % length) + length) % length);
+
+export const playlistReducer = (state: PlaylistState, action: PlaylistAction): PlaylistState => {
+  switch (action.type) {
+    case 'add':
+      return { ...state, entries: [...state.entries, action.entry] };
+    case 'remove': {
+      const removed = state.entries.findIndex((entry) => entry.id === action.id);
+      if (removed === -1) return state;
+      const entries = state.entries.filter((entry) => entry.id !== action.id);
+      // Keep the current entry selected when something before it goes away
+      const index = removed < state.index ? state.index - 1 : state.index;
+      return { ...state, entries, index: wrap(index, entries.length), playing: state.playing && entries.length > 0 };
+    }
+    case 'update':
+      return {
+        ...state,
+        entries: state.entries.map((entry) => (entry.id === action.id ? { ...entry, ...action.changes } : entry)),
+      };
+    case 'move': {
+      const from = state.entries.findIndex((entry) => entry.id === action.id);
+      const to = from + action.offset;
+      if (from === -1 || to < 0 || to >= state.entries.length) return state;
+      const entries = [...state.entries];
+      const [entry] = entries.splice(from, 1);
+      entries.splice(to, 0, entry);
+      const current = state.entries[state.index]?.id;
+      return { ...state, entries, index: Math.max(0, entries.findIndex((e) => e.id === current)) };
+    }
+    case 'goto':
+      return { ...state, index: wrap(action.index, state.entries.length) };
+    case 'next':
+      return { ...state, index: wrap(state.index + 1, state.entries.length) };
+    case 'previous':
+      return { ...state, index: wrap(state.index - 1, state.entries.length) };
+    case 'play':
+      return { ...state, playing: state.entries.length > 0 };
+    case 'pause':
+      return { ...state, playing: false };
+    case 'toggle':
+      return { ...state, playing: !state.playing && state.entries.length > 0 };
+    case 'replace':
+      return { ...state, entries: action.entries, index: 0 };
+    default:
+      return state;
+  }
+};
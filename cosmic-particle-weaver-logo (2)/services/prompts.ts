@@ -0,0 +1,84 @@
+// Turns what the user typed into the prompt sent to an image provider
+
+export interface PromptTemplate {
+  // {subject} and {style} are filled in; without {subject} the subject is appended
+  text: string;
+  // Default negative prompt for this template
+  negative: string;
+}
+
+export interface StylePreset {
+  id: string;
+  label: string;
+  text: string;
+}
+
+export const BUILT_IN_TEMPLATES: Record<string, PromptTemplate> = {
+  cosmic: {
+    text: 'Generate a high contrast, digital art image. {subject}. {style} The background should be purely black or very dark to suit a particle effect system. Bright, vibrant colors for the subject.',
+    negative: 'white background, text, watermark, low contrast',
+  },
+  logo: {
+    text: 'A bold, minimal logo mark of {subject}, centered with generous margins, flat shapes with crisp edges. {style} Solid black background.',
+    negative: 'photographic detail, busy background, small text, watermark',
+  },
+  raw: {
+    text: '{subject} {style}',
+    negative: '',
+  },
+};
+
+export const DEFAULT_TEMPLATE = 'cosmic';
+
+export const STYLE_PRESETS: StylePreset[] = [
+  { id: 'none', label: 'No Style', text: '' },
+  { id: 'nebula', label: 'Nebula', text: 'Made of glowing interstellar gas and dust with scattered stars.' },
+  { id: 'neon', label: 'Neon', text: 'Neon tube lighting with saturated magenta and cyan glow.' },
+  { id: 'crystal', label: 'Crystal', text: 'Faceted crystal with prismatic light refractions.' },
+  { id: 'lineArt', label: 'Line Art', text: 'Thin luminous line art with a single stroke weight.' },
+  { id: 'synthwave', label: 'Synthwave', text: '1980s synthwave palette with sunset gradients.' },
+];
+
+export const DEFAULT_STYLE = 'none';
+
+export const styleText = (id: string) => STYLE_PRESETS.find((style) => style.id === id)?.text ?? '';
+
+export const renderPrompt = (template: PromptTemplate, subject: string, style: string): string => {
+  const text = template.text.includes('{subject}') ? template.text : `${template.text} {subject}`;
+  // Function replacers, so "$" in user text is taken literally
+  return text
+    .replace(/\{subject\}/g, () => subject.trim())
+    .replace(/\{style\}/g, () => style)
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([.,])/g, '$1')
+    .trim();
+};
+
+const STORAGE_KEY = 'particle-weaver:prompt-templates';
+
+// User templates by name; built-ins are not stored
+export const loadStoredTemplates = (): Record<string, PromptTemplate> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    const stored = JSON.parse(raw) as Record<string, Partial<PromptTemplate>>;
+    const templates: Record<string, PromptTemplate> = {};
+    Object.entries(stored).forEach(([name, template]) => {
+      if (typeof template?.text === 'string') {
+        templates[name] = { text: template.text, negative: typeof template.negative === 'string' ? template.negative : '' };
+      }
+    });
+    return templates;
+  } catch (e) {
+    console.warn('Ignoring unreadable prompt templates:', e);
+    return {};
+  }
+};
+
+export const saveStoredTemplates = (templates: Record<string, PromptTemplate>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch (e) {
+    console.warn('Could not persist prompt templates:', e);
+  }
+};
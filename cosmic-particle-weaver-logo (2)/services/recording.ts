@@ -0,0 +1,115 @@
+import { CaptureFrameHandler, CaptureOptions } from '../engine/particleEngine';
+import { createGifEncoder, gifFrameDelay, GifEncoder } from './gifEncoder';
+import { createZipWriter } from './zip';
+
+export interface RecordingOptions {
+  // Stops by itself after this long
+  maxDurationMs?: number;
+  fps?: number;
+  videoBitsPerSecond?: number;
+}
+
+// Best first; Safari only records MP4 and is left out
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const pickVideoMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return VIDEO_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+export interface CanvasRecording {
+  stop: () => void;
+  // The WebM, once stopped by hand or at maxDurationMs
+  result: Promise<Blob>;
+}
+
+// Real-time capture; dropped frames on a slow machine end up in the video
+export const recordCanvas = (canvas: HTMLCanvasElement, options: RecordingOptions = {}): CanvasRecording => {
+  const mimeType = pickVideoMimeType();
+  if (!mimeType || typeof canvas.captureStream !== 'function') {
+    throw new Error('Video recording is not supported in this browser');
+  }
+  const stream = canvas.captureStream(options.fps ?? 60);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: options.videoBitsPerSecond ?? 8_000_000 });
+  const chunks: Blob[] = [];
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  const stop = () => {
+    if (recorder.state !== 'inactive') recorder.stop();
+  };
+
+  const result = new Promise<Blob>((resolve, reject) => {
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      if (timeout) clearTimeout(timeout);
+      stream.getTracks().forEach((track) => track.stop());
+      resolve(new Blob(chunks, { type: 'video/webm' }));
+    };
+    recorder.onerror = (event) => {
+      console.error('Recording failed:', event);
+      stop();
+      reject(new Error('Recording failed'));
+    };
+  });
+
+  // Timesliced, so long recordings are flushed in pieces
+  recorder.start(1000);
+  if (options.maxDurationMs) timeout = setTimeout(stop, options.maxDurationMs);
+  return { stop, result };
+};
+
+export type OfflineFormat = 'gif' | 'png-zip';
+
+export interface OfflineRenderOptions {
+  format: OfflineFormat;
+  durationMs: number;
+  fps?: number;
+  // Output size, see CaptureOptions
+  width?: number;
+  height?: number;
+  // GIFs have no partial transparency, so they always get a background
+  background?: string;
+  // Start from a freshly spawned particle field
+  restart?: boolean;
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_OFFLINE_FPS = 30;
+const DEFAULT_GIF_BACKGROUND = '#000000';
+
+export type CaptureFn = (options: CaptureOptions, onFrame: CaptureFrameHandler) => Promise<void>;
+
+// Drives an engine capture frame by frame and encodes the result as a GIF or a zip of PNGs
+export const renderOffline = async (capture: CaptureFn, options: OfflineRenderOptions): Promise<Blob> => {
+  const { format, durationMs, width, height, restart, onProgress, signal } = options;
+  const fps = options.fps ?? DEFAULT_OFFLINE_FPS;
+  const frames = Math.max(1, Math.round((durationMs / 1000) * fps));
+  const captureOptions = { frames, fps, width, height, restart };
+
+  let result: () => Blob;
+  if (format === 'gif') {
+    let encoder: GifEncoder | null = null;
+    await capture({ ...captureOptions, format: 'rgba', background: options.background ?? DEFAULT_GIF_BACKGROUND }, (frame) => {
+      if (signal?.aborted || frame.format !== 'rgba') return false;
+      encoder ??= createGifEncoder(frame.width, frame.height);
+      encoder.addFrame(frame.data, gifFrameDelay(frame.index, fps));
+      onProgress?.(frame.index + 1, frames);
+    });
+    if (!encoder) throw new Error('No frames were rendered');
+    result = (encoder as GifEncoder).finish;
+  } else {
+    const zip = createZipWriter();
+    await capture({ ...captureOptions, format: 'png', background: options.background }, async (frame) => {
+      if (signal?.aborted || frame.format !== 'png') return false;
+      zip.add(`frame-${String(frame.index).padStart(5, '0')}.png`, new Uint8Array(await frame.blob.arrayBuffer()));
+      onProgress?.(frame.index + 1, frames);
+    });
+    result = zip.finish;
+  }
+
+  if (signal?.aborted) throw new Error('Render cancelled');
+  return result();
+};
@@ -0,0 +1,379 @@
+import { COLOR_MODE_PRESETS, ColorMode, DEFAULT_COLOR_MODE } from '../engine/colorModes';
+import { DEFAULT_LAYOUT, FitMode, LayoutOptions, Rect } from '../engine/layout';
+import { DEFAULT_SAMPLING_OPTIONS, SamplingOptions, SamplingStrategy } from '../engine/sampling';
+import { BackgroundRemoval, DEFAULT_PREPROCESS_OPTIONS, PreprocessOptions } from '../engine/preprocess';
+import { DEFAULT_TRANSITION, MatchingStrategy, TransitionOptions } from '../engine/morph';
+import { EASINGS, EasingName } from '../engine/easing';
+import { Falloff, ForceField, POINTER_FIELD_PRESETS } from '../engine/forces';
+import { Backdrop } from '../engine/backdrop';
+import { LogoLayer } from '../types';
+import { isNumber, isObject } from './guards';
+import { DEFAULT_SETTINGS, sanitizeSettings, Settings } from './settings';
+import { DEFAULT_TEXT_LOGO, FONT_WEIGHTS, textLogoToDataUrl, TextLogoOptions } from './textLogo';
+
+// Same shape the engine paints behind composited snapshots
+export type BackgroundStyle = Backdrop;
+
+export const DEFAULT_BACKGROUND: BackgroundStyle = {
+  color: '#050505',
+  vignette: true,
+  grid: true,
+};
+
+export type SceneImage =
+  // The built-in logo
+  | { kind: 'default' }
+  | { kind: 'url'; src: string }
+  // Data URL carried inside the scene
+  | { kind: 'embedded'; dataUrl: string }
+  // Text logo, kept as its options so it stays editable
+  | { kind: 'text'; text: TextLogoOptions };
+
+export interface HandOptions {
+  maxHands: number;
+}
+
+export const DEFAULT_HAND_OPTIONS: HandOptions = { maxHands: 2 };
+
+export const SCENE_VERSION = 1;
+
+export interface Scene {
+  version: typeof SCENE_VERSION;
+  name?: string;
+  // Reproduces the exact particle field when set
+  seed?: number;
+  image: SceneImage;
+  layout: LayoutOptions;
+  // Extra logos placed next to the main image
+  logos: LogoLayer[];
+  colorMode: ColorMode;
+  // Applied to the image before sampling
+  preprocess: PreprocessOptions;
+  sampling: SamplingOptions;
+  transition: TransitionOptions;
+  pointerField: ForceField;
+  turbulence: boolean;
+  settings: Settings;
+  background: BackgroundStyle;
+  hands: HandOptions;
+}
+
+export const DEFAULT_SCENE: Scene = {
+  version: SCENE_VERSION,
+  image: { kind: 'default' },
+  layout: DEFAULT_LAYOUT,
+  logos: [],
+  colorMode: DEFAULT_COLOR_MODE,
+  preprocess: DEFAULT_PREPROCESS_OPTIONS,
+  sampling: DEFAULT_SAMPLING_OPTIONS,
+  transition: DEFAULT_TRANSITION,
+  pointerField: POINTER_FIELD_PRESETS.repel,
+  turbulence: false,
+  settings: DEFAULT_SETTINGS,
+  background: DEFAULT_BACKGROUND,
+  hands: DEFAULT_HAND_OPTIONS,
+};
+
+export const sceneImageFromSource = (src: string | null, defaultSrc: string): SceneImage => {
+  if (!src || src === defaultSrc) return { kind: 'default' };
+  return src.startsWith('data:') ? { kind: 'embedded', dataUrl: src } : { kind: 'url', src };
+};
+
+export const sceneImageToSource = (image: SceneImage, defaultSrc: string): string => {
+  switch (image.kind) {
+    case 'url':
+      return image.src;
+    case 'embedded':
+      return image.dataUrl;
+    case 'text':
+      return textLogoToDataUrl(image.text);
+    case 'default':
+    default:
+      return defaultSrc;
+  }
+};
+
+type Json = Record<string, unknown>;
+
+
+type Range = { min: number; max: number };
+
+// Allowed values of enum keys and the range of numeric ones
+type Rules<T> = { [K in keyof T]?: Range | readonly T[K][] };
+
+const clamp = (value: number, { min, max }: Range) => Math.min(max, Math.max(min, value));
+
+// Copies only keys the defaults know about, and only with the same primitive
+// type. Scenes come from shared links, so values outside the rules fall back
+// to the defaults and numbers are clamped to what the controls allow.
+const mergeKnown = <T extends object>(defaults: T, value: unknown, rules: Rules<T> = {}): T => {
+  if (!isObject(value)) return defaults;
+  const result: Json = { ...(defaults as Json) };
+  Object.entries(defaults).forEach(([key, fallback]) => {
+    const candidate = value[key];
+    if (candidate === undefined || typeof candidate !== typeof fallback || isObject(fallback)) return;
+    if (typeof candidate === 'number' && !Number.isFinite(candidate)) return;
+    const rule = (rules as Record<string, Range | readonly unknown[] | undefined>)[key];
+    if (Array.isArray(rule)) {
+      if (rule.includes(candidate)) result[key] = candidate;
+    } else if (rule && typeof candidate === 'number') {
+      result[key] = clamp(candidate, rule as Range);
+    } else {
+      result[key] = candidate;
+    }
+  });
+  return result as T;
+};
+
+const UNIT: Range = { min: 0, max: 1 };
+// Crops and frames narrower than this would sample nothing
+const MIN_RECT_SIDE = 0.01;
+
+// Normalized rectangle, or null when any side is missing
+const readRect = (value: unknown): Rect | null => {
+  if (!isObject(value)) return null;
+  const { x, y, width, height } = value;
+  if (!isNumber(x) || !isNumber(y) || !isNumber(width) || !isNumber(height)) return null;
+  const side: Range = { min: MIN_RECT_SIDE, max: 1 };
+  return { x: clamp(x, UNIT), y: clamp(y, UNIT), width: clamp(width, side), height: clamp(height, side) };
+};
+
+const TEXT_LOGO_RULES: Rules<TextLogoOptions> = {
+  fontWeight: FONT_WEIGHTS,
+  letterSpacing: { min: -0.1, max: 1 },
+  curve: { min: -1, max: 1 },
+};
+
+const FIT_MODES: FitMode[] = ['contain', 'cover', 'scale'];
+
+const LAYOUT_RULES: Rules<LayoutOptions> = {
+  fit: FIT_MODES,
+  scale: { min: 0.1, max: 3 },
+  anchorX: UNIT,
+  anchorY: UNIT,
+  padding: { min: 0, max: 200 },
+};
+
+const SAMPLING_STRATEGIES: SamplingStrategy[] = ['auto', 'alpha', 'luminance', 'edges', 'poisson', 'density'];
+
+const SAMPLING_RULES: Rules<SamplingOptions> = {
+  strategy: SAMPLING_STRATEGIES,
+  budget: { min: 0, max: 200000 },
+};
+
+const TRANSITION_RULES: Rules<TransitionOptions> = {
+  mode: ['reset', 'morph'],
+  matching: ['nearest', 'angle'] as MatchingStrategy[],
+  duration: { min: 200, max: 6000 },
+  easing: Object.keys(EASINGS) as EasingName[],
+};
+
+const FALLOFFS: Falloff[] = ['linear', 'smooth', 'inverseSquare', 'gaussian', 'constant'];
+
+// Pointer fields only expose strength in the UI; the rest just has to stay sane
+const POINTER_FIELD_RULES: Record<string, Range | readonly unknown[]> = {
+  falloff: FALLOFFS,
+  strength: { min: 0.1, max: 6 },
+  radius: { min: 10, max: 2000 },
+  speed: { min: 50, max: 5000 },
+  width: { min: 5, max: 500 },
+  period: { min: 100, max: 10000 },
+  softening: { min: 1, max: 500 },
+};
+
+const HAND_RULES: Rules<HandOptions> = {
+  maxHands: { min: 1, max: 2 },
+};
+
+const readImage = (value: unknown): SceneImage => {
+  if (!isObject(value)) return { kind: 'default' };
+  if (value.kind === 'url' && typeof value.src === 'string') return { kind: 'url', src: value.src };
+  if (value.kind === 'embedded' && typeof value.dataUrl === 'string' && value.dataUrl.startsWith('data:image/')) {
+    return { kind: 'embedded', dataUrl: value.dataUrl };
+  }
+  if (value.kind === 'text' && isObject(value.text)) return { kind: 'text', text: mergeKnown(DEFAULT_TEXT_LOGO, value.text, TEXT_LOGO_RULES) };
+  return { kind: 'default' };
+};
+
+const readLayout = (value: unknown, defaults: LayoutOptions = DEFAULT_LAYOUT): LayoutOptions => {
+  const layout = mergeKnown(defaults, value, LAYOUT_RULES);
+  // The frame is either a keyword or a normalized rectangle
+  const frame = isObject(value) ? value.frame : undefined;
+  if (frame === 'universe' || frame === 'viewport') return { ...layout, frame };
+  return { ...layout, frame: readRect(frame) ?? defaults.frame };
+};
+
+// Extra logos only carry the layout keys they override; invalid values fall
+// back to the main layout, as if they had been left out
+const readLogoLayer = (value: unknown, base: LayoutOptions): LogoLayer | null => {
+  if (!isObject(value) || typeof value.src !== 'string') return null;
+  const raw = value.layout;
+  if (!isObject(raw)) return { src: value.src };
+  const layout = readLayout(raw, base);
+  // A key that read back as the base value without being set to it was rejected
+  const overrides = (Object.keys(layout) as (keyof LayoutOptions)[]).filter(
+    (key) => Object.hasOwn(raw, key) && (layout[key] !== base[key] || raw[key] === base[key])
+  );
+  return { src: value.src, layout: Object.fromEntries(overrides.map((key) => [key, layout[key]])) };
+};
+
+const readLogos = (value: unknown, base: LayoutOptions): LogoLayer[] =>
+  Array.isArray(value)
+    ? value.map((logo) => readLogoLayer(logo, base)).filter((logo): logo is LogoLayer => logo !== null)
+    : [];
+
+const BACKGROUND_REMOVALS: BackgroundRemoval[] = ['none', 'colorKey', 'luminance'];
+
+const PREPROCESS_RULES: Rules<PreprocessOptions> = {
+  background: BACKGROUND_REMOVALS,
+  tolerance: { min: 0, max: 255 },
+  softness: { min: 0, max: 128 },
+  blackPoint: { min: 0, max: 254 },
+  whitePoint: { min: 1, max: 255 },
+  gamma: { min: 0.2, max: 3 },
+  contrast: { min: -100, max: 100 },
+  posterize: { min: 0, max: 16 },
+};
+
+const readPreprocess = (value: unknown): PreprocessOptions => {
+  const options = mergeKnown(DEFAULT_PREPROCESS_OPTIONS, value, PREPROCESS_RULES);
+  return { ...options, crop: readRect(isObject(value) ? value.crop : undefined) ?? DEFAULT_PREPROCESS_OPTIONS.crop };
+};
+
+const readSampling = (value: unknown): SamplingOptions => {
+  const sampling = mergeKnown(DEFAULT_SAMPLING_OPTIONS, value, SAMPLING_RULES);
+  // Optional, so not among the defaults mergeKnown copies from
+  const threshold = isObject(value) ? value.threshold : undefined;
+  return isNumber(threshold) ? { ...sampling, threshold: clamp(threshold, { min: 0, max: 255 }) } : sampling;
+};
+
+const readColorMode = (value: unknown): ColorMode => {
+  if (!isObject(value) || typeof value.kind !== 'string' || !(value.kind in COLOR_MODE_PRESETS)) return DEFAULT_COLOR_MODE;
+  const preset = COLOR_MODE_PRESETS[value.kind as ColorMode['kind']];
+  if (preset.kind === 'gradient') {
+    const stops = Array.isArray(value.stops) ? value.stops.filter((stop): stop is string => typeof stop === 'string') : [];
+    return { kind: 'gradient', stops: stops.length > 0 ? stops : preset.stops };
+  }
+  return mergeKnown(preset, value);
+};
+
+const readPointerField = (value: unknown): ForceField => {
+  if (!isObject(value) || typeof value.kind !== 'string' || !(value.kind in POINTER_FIELD_PRESETS)) {
+    return DEFAULT_SCENE.pointerField;
+  }
+  const preset = POINTER_FIELD_PRESETS[value.kind as keyof typeof POINTER_FIELD_PRESETS];
+  // Bindings aren't user-editable yet, so the preset's binding is kept
+  const field = mergeKnown(preset, value, POINTER_FIELD_RULES as Rules<ForceField>);
+  const strength = isNumber(value.strength)
+    ? clamp(value.strength, POINTER_FIELD_RULES.strength as Range)
+    : preset.strength;
+  return { ...field, strength };
+};
+
+// Builds a current-version scene from already migrated JSON, filling gaps with defaults
+const readScene = (value: Json): Scene => {
+  const layout = readLayout(value.layout);
+  return {
+    version: SCENE_VERSION,
+    name: typeof value.name === 'string' ? value.name : undefined,
+    seed: typeof value.seed === 'number' ? value.seed >>> 0 : undefined,
+    image: readImage(value.image),
+    layout,
+    logos: readLogos(value.logos, layout),
+    colorMode: readColorMode(value.colorMode),
+    preprocess: readPreprocess(value.preprocess),
+    sampling: readSampling(value.sampling),
+    transition: mergeKnown(DEFAULT_TRANSITION, value.transition, TRANSITION_RULES),
+    pointerField: readPointerField(value.pointerField),
+    turbulence: value.turbulence === true,
+    settings: isObject(value.settings) ? sanitizeSettings(value.settings) : DEFAULT_SETTINGS,
+    background: mergeKnown(DEFAULT_BACKGROUND, value.background),
+    hands: mergeKnown(DEFAULT_HAND_OPTIONS, value.hands, HAND_RULES),
+  };
+};
+
+// Each entry upgrades a document from version N to N + 1
+const MIGRATIONS: Record<number, (value: Json) => Json> = {
+  // Version 0: a settings preset file ({ version, name, settings }) or bare
+  // settings object, which is all that could be exported before scenes existed
+  0: (value) => {
+    const settings = isObject(value.settings) ? value.settings : value;
+    return { version: 1, name: typeof value.name === 'string' ? value.name : undefined, settings };
+  },
+};
+
+// Scenes carry a `scene` marker; anything else is treated as a pre-scene preset
+const versionOf = (value: Json) =>
+  typeof value.version === 'number' && value.scene === true ? value.version : 0;
+
+export const migrateScene = (value: unknown): Scene => {
+  if (!isObject(value)) throw new Error('Scene must be a JSON object');
+  let current = value;
+  let version = versionOf(current);
+  if (version > SCENE_VERSION) {
+    throw new Error(`Scene version ${version} is newer than this app supports`);
+  }
+  while (version < SCENE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from scene version ${version}`);
+    current = migrate(current);
+    version++;
+  }
+  return readScene(current);
+};
+
+export const parseScene = (json: string): Scene => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Scene file is not valid JSON');
+  }
+  return migrateScene(parsed);
+};
+
+export const serializeScene = (scene: Scene): string => JSON.stringify({ scene: true, ...scene }, null, 2);
+
+// Embedded images bloat links past what browsers and chat apps accept
+const MAX_LINK_IMAGE_LENGTH = 4000;
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+// Shareable link carrying the scene in the hash. Large embedded images are
+// replaced by the default logo; `imageOmitted` tells the caller.
+export const sceneToLink = (scene: Scene, baseUrl: string): { url: string; imageOmitted: boolean } => {
+  const imageOmitted = scene.image.kind === 'embedded' && scene.image.dataUrl.length > MAX_LINK_IMAGE_LENGTH;
+  const shared: Scene = imageOmitted ? { ...scene, image: { kind: 'default' } } : scene;
+  const url = new URL(baseUrl);
+  url.search = '';
+  url.hash = `scene=${toBase64Url(JSON.stringify({ scene: true, ...shared }))}`;
+  return { url: url.toString(), imageOmitted };
+};
+
+// Reads `#scene=<encoded>` or `?scene=<encoded | URL of a .json file>`
+export const loadSceneFromLocation = async (location: Location): Promise<Scene | null> => {
+  const hashParam = new URLSearchParams(location.hash.replace(/^#/, '')).get('scene');
+  const queryParam = new URLSearchParams(location.search).get('scene');
+  const param = hashParam ?? queryParam;
+  if (!param) return null;
+
+  if (/^https?:\/\//.test(param)) {
+    const response = await fetch(param);
+    if (!response.ok) throw new Error(`Failed to fetch scene: ${response.status}`);
+    return parseScene(await response.text());
+  }
+  return parseScene(fromBase64Url(param));
+};
@@ -0,0 +1,195 @@
+import { DEFAULT_SIMULATION_PARAMS, SimulationParams } from '../engine/simulation';
+import { DEFAULT_GENERATION_OPTIONS, GenerationOptions } from '../engine/particles';
+import { DEFAULT_IDLE_OPTIONS, IdleOptions } from '../engine/idle';
+
+export interface DisplaySettings {
+  cursorGlow: boolean;
+}
+
+// Every runtime-tunable physics and visual value
+export interface Settings {
+  physics: SimulationParams;
+  particles: GenerationOptions;
+  display: DisplaySettings;
+  idle: IdleOptions;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  physics: DEFAULT_SIMULATION_PARAMS,
+  particles: DEFAULT_GENERATION_OPTIONS,
+  display: { cursorGlow: true },
+  idle: DEFAULT_IDLE_OPTIONS,
+};
+
+export type SettingsGroup = keyof Settings;
+
+// Keys of a group whose values have type V
+type KeysOfType<T, V> = { [K in keyof T]: T[K] extends V ? K : never }[keyof T];
+
+export type RangeSetting = {
+  [G in SettingsGroup]: {
+    type: 'range';
+    group: G;
+    key: KeysOfType<Settings[G], number>;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+  };
+}[SettingsGroup];
+
+export type ToggleSetting = {
+  [G in SettingsGroup]: {
+    type: 'toggle';
+    group: G;
+    key: KeysOfType<Settings[G], boolean>;
+    label: string;
+  };
+}[SettingsGroup];
+
+export type SettingDescriptor = RangeSetting | ToggleSetting;
+
+// Drives the settings panel, and bounds values read from JSON
+export const SETTINGS_SCHEMA: SettingDescriptor[] = [
+  { type: 'range', group: 'physics', key: 'interactionRadius', label: 'Interaction Radius', min: 40, max: 800, step: 10 },
+  { type: 'range', group: 'physics', key: 'repulsionStrength', label: 'Force Strength', min: 0.1, max: 8, step: 0.1 },
+  { type: 'range', group: 'physics', key: 'smoothing', label: 'Pointer Smoothing', min: 0.01, max: 1, step: 0.01 },
+  { type: 'range', group: 'physics', key: 'friction', label: 'Friction', min: 0.5, max: 0.995, step: 0.005 },
+  { type: 'range', group: 'physics', key: 'springDivisor', label: 'Spring Softness', min: 2, max: 200, step: 1 },
+  { type: 'range', group: 'particles', key: 'ambientSpacing', label: 'Ambient Spacing', min: 5, max: 200, step: 1 },
+  { type: 'range', group: 'particles', key: 'ambientCap', label: 'Ambient Cap', min: 0, max: 60000, step: 1000 },
+  { type: 'range', group: 'particles', key: 'starRatio', label: 'Star Ratio', min: 0, max: 0.1, step: 0.001 },
+  { type: 'range', group: 'particles', key: 'sizeScale', label: 'Particle Size', min: 0.25, max: 4, step: 0.05 },
+  { type: 'toggle', group: 'display', key: 'cursorGlow', label: 'Cursor glow' },
+  { type: 'toggle', group: 'idle', key: 'enabled', label: 'Animate when nobody interacts' },
+  { type: 'range', group: 'idle', key: 'timeout', label: 'Idle After (s)', min: 5, max: 600, step: 5 },
+  { type: 'toggle', group: 'idle', key: 'wander', label: 'Wandering cursor' },
+  { type: 'range', group: 'idle', key: 'wanderSpeed', label: 'Wander Speed', min: 0.1, max: 4, step: 0.1 },
+  { type: 'toggle', group: 'idle', key: 'explode', label: 'Explode and reform' },
+  { type: 'range', group: 'idle', key: 'explodeInterval', label: 'Explosion Every (s)', min: 3, max: 60, step: 1 },
+  { type: 'toggle', group: 'idle', key: 'breathe', label: 'Breathing' },
+  { type: 'range', group: 'idle', key: 'breatheAmount', label: 'Breathing Depth', min: 0.01, max: 0.3, step: 0.01 },
+  { type: 'toggle', group: 'idle', key: 'rotate', label: 'Rotate universe' },
+  { type: 'range', group: 'idle', key: 'rotationSpeed', label: 'Rotation (°/s)', min: 0.5, max: 45, step: 0.5 },
+];
+
+export const SETTINGS_GROUP_LABELS: Record<SettingsGroup, string> = {
+  physics: 'Physics',
+  particles: 'Particles',
+  display: 'Display',
+  idle: 'Idle Mode',
+};
+
+export const getSetting = (settings: Settings, descriptor: SettingDescriptor): number | boolean =>
+  (settings[descriptor.group] as unknown as Record<string, number | boolean>)[descriptor.key];
+
+export const updateSetting = (settings: Settings, descriptor: SettingDescriptor, value: number | boolean): Settings => ({
+  ...settings,
+  [descriptor.group]: { ...settings[descriptor.group], [descriptor.key]: value },
+});
+
+export type SettingsPatch = { [G in SettingsGroup]?: Partial<Settings[G]> };
+
+export const mergeSettings = (base: Settings, patch: SettingsPatch): Settings => ({
+  physics: { ...base.physics, ...patch.physics },
+  particles: { ...base.particles, ...patch.particles },
+  display: { ...base.display, ...patch.display },
+  idle: { ...base.idle, ...patch.idle },
+});
+
+export const BUILT_IN_PRESETS: Record<string, Settings> = {
+  default: DEFAULT_SETTINGS,
+  calm: mergeSettings(DEFAULT_SETTINGS, {
+    physics: { interactionRadius: 220, repulsionStrength: 0.6, smoothing: 0.06, friction: 0.94, springDivisor: 60 },
+    particles: { starRatio: 0.01 },
+  }),
+  explosive: mergeSettings(DEFAULT_SETTINGS, {
+    physics: { interactionRadius: 420, repulsionStrength: 6, smoothing: 0.4, friction: 0.86, springDivisor: 18 },
+    particles: { starRatio: 0.02, sizeScale: 1.2 },
+  }),
+  liquid: mergeSettings(DEFAULT_SETTINGS, {
+    physics: { interactionRadius: 300, repulsionStrength: 1.2, smoothing: 0.1, friction: 0.975, springDivisor: 90 },
+    particles: { ambientSpacing: 20, sizeScale: 1.4 },
+  }),
+};
+
+// Anything not in the schema is dropped; numbers are clamped to the schema's range
+export const sanitizeSettings = (value: unknown, base: Settings = DEFAULT_SETTINGS): Settings => {
+  if (typeof value !== 'object' || value === null) throw new Error('Settings must be a JSON object');
+  const input = value as Record<string, Record<string, unknown> | undefined>;
+  let settings = base;
+  for (const descriptor of SETTINGS_SCHEMA) {
+    const raw = input[descriptor.group]?.[descriptor.key];
+    if (descriptor.type === 'range' && typeof raw === 'number' && Number.isFinite(raw)) {
+      settings = updateSetting(settings, descriptor, Math.min(descriptor.max, Math.max(descriptor.min, raw)));
+    } else if (descriptor.type === 'toggle' && typeof raw === 'boolean') {
+      settings = updateSetting(settings, descriptor, raw);
+    }
+  }
+  return settings;
+};
+
+const PRESET_FILE_VERSION = 1;
+
+export interface PresetFile {
+  version: number;
+  name: string;
+  settings: Settings;
+}
+
+export const exportPreset = (name: string, settings: Settings): string => {
+  const file: PresetFile = { version: PRESET_FILE_VERSION, name, settings };
+  return JSON.stringify(file, null, 2);
+};
+
+// Accepts a preset file or a bare settings object
+export const importPreset = (json: string): { name: string | null; settings: Settings } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  const file = parsed as Partial<PresetFile> | null;
+  if (file && typeof file === 'object' && 'settings' in file) {
+    if (typeof file.version === 'number' && file.version > PRESET_FILE_VERSION) {
+      throw new Error(`Preset version ${file.version} is newer than this app supports`);
+    }
+    return { name: typeof file.name === 'string' ? file.name : null, settings: sanitizeSettings(file.settings) };
+  }
+  return { name: null, settings: sanitizeSettings(parsed) };
+};
+
+const STORAGE_KEY = 'particle-weaver:settings';
+
+export interface StoredSettings {
+  current: Settings;
+  // User presets by name; built-ins are not stored
+  presets: Record<string, Settings>;
+}
+
+export const loadStoredSettings = (): StoredSettings => {
+  const fallback = { current: DEFAULT_SETTINGS, presets: {} };
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return fallback;
+    const stored = JSON.parse(raw) as Partial<StoredSettings>;
+    const presets: Record<string, Settings> = {};
+    Object.entries(stored.presets ?? {}).forEach(([name, settings]) => {
+      presets[name] = sanitizeSettings(settings);
+    });
+    return { current: sanitizeSettings(stored.current ?? {}), presets };
+  } catch (e) {
+    console.warn('Ignoring unreadable stored settings:', e);
+    return fallback;
+  }
+};
+
+export const saveStoredSettings = (stored: StoredSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (e) {
+    // Private mode or quota; settings just won't survive a reload
+    console.warn('Could not persist settings:', e);
+  }
+};
@@ -0,0 +1,102 @@
+// Text logos are generated as SVG, so they go through the same vector
+// pipeline as uploaded SVGs and stay sharp at any scale
+
+export interface TextLogoOptions {
+  text: string;
+  // CSS font-family list
+  fontFamily: string;
+  fontWeight: number;
+  // Extra space between letters, in em
+  letterSpacing: number;
+  // -1..1: 0 is a straight line, positive bends into a smile, negative into
+  // an arch; ±1 is a half circle
+  curve: number;
+  color: string;
+}
+
+export const FONT_FAMILIES: { label: string; css: string }[] = [
+  { label: 'Sans Serif', css: 'sans-serif' },
+  { label: 'Serif', css: 'serif' },
+  { label: 'Monospace', css: 'monospace' },
+  { label: 'System UI', css: 'system-ui, sans-serif' },
+  { label: 'Georgia', css: 'Georgia, serif' },
+  { label: 'Impact', css: 'Impact, sans-serif' },
+  { label: 'Courier', css: '"Courier New", monospace' },
+];
+
+export const FONT_WEIGHTS = [300, 400, 500, 700, 900];
+
+export const DEFAULT_TEXT_LOGO: TextLogoOptions = {
+  text: 'PARTICLE UNIVERSE',
+  fontFamily: 'sans-serif',
+  fontWeight: 700,
+  letterSpacing: 0.15,
+  curve: 0,
+  color: '#ffffff',
+};
+
+// Glyphs are laid out at this size; the engine scales the result to fit
+const FONT_SIZE = 100;
+// Used when no canvas is around to measure with
+const AVERAGE_GLYPH_WIDTH = 0.65;
+
+const escapeXml = (value: string) => value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+const measureText = (options: TextLogoOptions) => {
+  const chars = Array.from(options.text);
+  const spacing = options.letterSpacing * FONT_SIZE * Math.max(0, chars.length - 1);
+  if (measureContext === undefined) {
+    measureContext = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d');
+  }
+  if (!measureContext) return chars.length * FONT_SIZE * AVERAGE_GLYPH_WIDTH + spacing;
+  measureContext.font = `${options.fontWeight} ${FONT_SIZE}px ${options.fontFamily}`;
+  return measureContext.measureText(options.text).width + spacing;
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// SVG markup for the text, straight or along a circular arc
+export const textLogoToSvg = (options: TextLogoOptions): string => {
+  const textWidth = Math.max(FONT_SIZE, measureText(options));
+  const curve = Math.max(-1, Math.min(1, options.curve));
+  const textAttributes =
+    `fill="${escapeXml(options.color)}" font-family="${escapeXml(options.fontFamily)}" ` +
+    `font-weight="${options.fontWeight}" font-size="${FONT_SIZE}" ` +
+    `letter-spacing="${round(options.letterSpacing * FONT_SIZE)}" text-anchor="middle"`;
+  const text = escapeXml(options.text);
+
+  // Room around the text for ascenders, descenders and glyphs tilted at the arc ends
+  const margin = FONT_SIZE;
+
+  if (Math.abs(curve) < 0.01) {
+    const width = textWidth + 2 * margin;
+    const baseline = margin + FONT_SIZE * 0.8;
+    const height = baseline + FONT_SIZE * 0.3 + margin;
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${round(width)} ${round(height)}">` +
+      `<text x="${round(width / 2)}" y="${round(baseline)}" ${textAttributes}>${text}</text></svg>`;
+  }
+
+  // The arc is a little longer than the text so nothing spills off its ends
+  const angle = Math.abs(curve) * Math.PI;
+  const radius = (textWidth * 1.05) / angle;
+  const chord = 2 * radius * Math.sin(angle / 2);
+  const sagitta = radius * (1 - Math.cos(angle / 2));
+  const width = chord + 2 * margin;
+  const smile = curve > 0;
+  // Endpoints share a baseline; a smile dips below it, an arch rises above
+  const endY = smile ? margin + FONT_SIZE : margin + FONT_SIZE + sagitta;
+  const height = smile ? endY + sagitta + margin : endY + margin;
+  const startX = margin;
+  const endX = margin + chord;
+  const d = `M ${round(startX)} ${round(endY)} A ${round(radius)} ${round(radius)} 0 0 ${smile ? 0 : 1} ${round(endX)} ${round(endY)}`;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${round(width)} ${round(height)}">` +
+    `<defs><path id="text-curve" d="${d}"/></defs>` +
+    `<text ${textAttributes}><textPath href="#text-curve" startOffset="50%">${text}</textPath></text></svg>`;
+};
+
+export const svgToDataUrl = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+export const textLogoToDataUrl = (options: TextLogoOptions) => svgToDataUrl(textLogoToSvg(options));
@@ -0,0 +1,110 @@
+// Store-only (uncompressed) ZIP writer; PNGs are already compressed
+
+export interface ZipWriter {
+  add: (name: string, data: Uint8Array) => void;
+  finish: () => Blob;
+}
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = () => {
+  if (crcTable) return crcTable;
+  crcTable = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    crcTable[n] = c >>> 0;
+  }
+  return crcTable;
+};
+
+export const crc32 = (data: Uint8Array) => {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, as stored in ZIP headers
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+// Names are flagged as UTF-8
+const UTF8_FLAG = 0x0800;
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+
+interface Entry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+export const createZipWriter = (modified: Date = new Date()): ZipWriter => {
+  const { time, date } = dosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const entries: Entry[] = [];
+  let offset = 0;
+
+  const push = (part: Uint8Array) => {
+    parts.push(part);
+    offset += part.length;
+  };
+
+  return {
+    add: (name, data) => {
+      if (entries.length >= MAX_ENTRIES) throw new Error('Too many files for a ZIP archive');
+      if (offset + data.length > MAX_SIZE) throw new Error('ZIP archive would exceed 4 GB');
+      const encodedName = new TextEncoder().encode(name);
+      const entry: Entry = { name: encodedName, crc: crc32(data), size: data.length, offset };
+      const header = new DataView(new ArrayBuffer(30));
+      header.setUint32(0, 0x04034b50, true);
+      header.setUint16(4, 20, true);
+      header.setUint16(6, UTF8_FLAG, true);
+      header.setUint16(8, 0, true);
+      header.setUint16(10, time, true);
+      header.setUint16(12, date, true);
+      header.setUint32(14, entry.crc, true);
+      header.setUint32(18, entry.size, true);
+      header.setUint32(22, entry.size, true);
+      header.setUint16(26, encodedName.length, true);
+      header.setUint16(28, 0, true);
+      push(new Uint8Array(header.buffer));
+      push(encodedName);
+      push(data);
+      entries.push(entry);
+    },
+    finish: () => {
+      const directoryOffset = offset;
+      entries.forEach((entry) => {
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, 0x02014b50, true);
+        header.setUint16(4, 20, true);
+        header.setUint16(6, 20, true);
+        header.setUint16(8, UTF8_FLAG, true);
+        header.setUint16(10, 0, true);
+        header.setUint16(12, time, true);
+        header.setUint16(14, date, true);
+        header.setUint32(16, entry.crc, true);
+        header.setUint32(20, entry.size, true);
+        header.setUint32(24, entry.size, true);
+        header.setUint16(28, entry.name.length, true);
+        // Extra field, comment, disk number, internal and external attributes stay zero
+        header.setUint32(42, entry.offset, true);
+        push(new Uint8Array(header.buffer));
+        push(entry.name);
+      });
+      const end = new DataView(new ArrayBuffer(22));
+      end.setUint32(0, 0x06054b50, true);
+      end.setUint16(8, entries.length, true);
+      end.setUint16(10, entries.length, true);
+      end.setUint32(12, offset - directoryOffset, true);
+      end.setUint32(16, directoryOffset, true);
+      parts.push(new Uint8Array(end.buffer));
+      return new Blob(parts, { type: 'application/zip' });
+    },
+  };
+};
@@ -1,3 +1,9 @@
+import { LayoutOptions } from './engine/layout';
+import { Pointer } from './engine/simulation';
+import { SnapshotOptions } from './engine/particleEngine';
+import { OfflineRenderOptions, RecordingOptions } from './services/recording';
+import { AudioLevels } from './engine/audioReactive';
+
 export interface Particle {
   x: number;
   y: number;
@@ -23,7 +29,26 @@ export enum AppState {
   ERROR = 'ERROR'
 }
 
+// Additional logo shown next to the main image, placed by its own layout
+export interface LogoLayer {
+  src: string;
+  layout?: Partial<LayoutOptions>;
+}
+
 export interface ParticleCanvasHandle {
-  downloadSnapshot: () => void;
+  // PNG of the particles alone by default; rejects when the export fails
+  downloadSnapshot: (options?: Partial<SnapshotOptions>) => Promise<void>;
+  // Replaces every pointer acting on the particles (the merged input sources)
+  setPointers: (pointers: Pointer[]) => void;
+  // Expanding ring pushing particles outwards from (x, y), in canvas pixels
+  triggerShockwave: (x: number, y: number) => void;
+  // Single-pointer shorthand; null releases it
   setInteractionPoint: (x: number | null, y: number | null) => void;
+  // Latest audio analysis frame, once per animation frame; null when audio stops
+  setAudioLevels: (levels: AudioLevels | null) => void;
+  // Real-time WebM capture; resolves with the video once stopped or at maxDurationMs
+  startRecording: (options?: RecordingOptions) => Promise<Blob>;
+  stopRecording: () => void;
+  // Frame-by-frame render at a fixed time step into an animated GIF or a zip of PNGs
+  renderOffline: (options: OfflineRenderOptions) => Promise<Blob>;
 }
\ No newline at end of file
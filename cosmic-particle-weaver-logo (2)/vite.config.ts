@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.IMAGE_API_URL': JSON.stringify(env.IMAGE_API_URL),
+        'process.env.IMAGE_API_KEY': JSON.stringify(env.IMAGE_API_KEY),
+        'process.env.MEDIAPIPE_ASSET_BASE': JSON.stringify(env.MEDIAPIPE_ASSET_BASE)
       },
       resolve: {
         alias: {